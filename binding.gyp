@@ -96,6 +96,9 @@
 							"<(medooze_media_server_src)/src/h265/HEVCDescriptor.cpp",
 							"<(medooze_media_server_src)/src/vp8/vp8depacketizer.cpp",
 							"<(medooze_media_server_src)/src/h264/H264LayerSelector.cpp",
+							"<(medooze_media_server_src)/src/h264/H26xPacketizer.cpp",
+							"<(medooze_media_server_src)/src/h264/H264Packetizer.cpp",
+							"<(medooze_media_server_src)/src/h265/H265Packetizer.cpp",
 							"<(medooze_media_server_src)/src/vp8/VP8LayerSelector.cpp",
 							"<(medooze_media_server_src)/src/vp9/VP9PayloadDescription.cpp",
 							"<(medooze_media_server_src)/src/vp9/VP9LayerSelector.cpp",
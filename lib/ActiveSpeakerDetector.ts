@@ -6,6 +6,8 @@ import Emitter from "medooze-event-emitter";
 interface ActiveSpeakerDetectorEvents {
 	/** New active speaker detected event (`track` is the track that has been activated) */
     activespeakerchanged: (track: IncomingStreamTrack) => void;
+	/** Speaker ranking has changed (`tracks` are all the speakers, see {@link ActiveSpeakerDetector.getSpeakers}), at most once per {@link ActiveSpeakerDetector.setMinOrderChangePeriod} */
+    speakersorderchanged: (tracks: IncomingStreamTrack[]) => void;
     stopped: () => void;
 }
 
@@ -18,9 +20,17 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
     maxId: number;
     ids: WeakMap<IncomingStreamTrack, number>;
 	tracks: Map<number, IncomingStreamTrack>;
+	/** Speaker ids ordered by priority, accumulated score and last voice activity */
+	order: number[];
+	/** Last order emitted and when */
+	emittedOrder: number[];
+	lastOrderChange: number;
+	minOrderChangePeriod: number;
+	orderTimer: ReturnType<typeof setTimeout> | null;
 
 	// native callback
 	private onactivespeakerchanged: (id: number) => void;
+	private onspeakersorderchanged: (ids: number[]) => void;
 
 	constructor()
 	{
@@ -31,6 +41,11 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
 		this.maxId  = 1;
 		this.ids    = new WeakMap();
 		this.tracks = new Map();
+		this.order  = [];
+		this.emittedOrder = [];
+		this.lastOrderChange = 0;
+		this.minOrderChangePeriod = 1000;
+		this.orderTimer = null;
 		
 		//Listen for speaker changes		
 		this.onactivespeakerchanged = (id: number) => {
@@ -42,6 +57,24 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
 				this.emit("activespeakerchanged",track);
 		};
 		
+		//Listen for ranking changes
+		this.onspeakersorderchanged = (ids: number[]) => {
+			//Store it, so speakers are always up to date
+			this.order = ids;
+			//If already scheduled, it will be emitted with the latest order
+			if (this.orderTimer)
+				return;
+			//Get time until the minimum period since last change has elapsed
+			const delay = this.lastOrderChange + this.minOrderChangePeriod - Date.now();
+			//If we can emit it now
+			if (delay <= 0)
+				//Emit it
+				this.emitSpeakersOrder();
+			else
+				//Coalesce all changes until then
+				this.orderTimer = setTimeout(() => this.emitSpeakersOrder(), delay);
+		};
+
 		//Create native detector
 		this.detector = new Native.ActiveSpeakerDetectorFacade(this);
 		
@@ -53,6 +86,20 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
 		//Remove track
 		this.removeSpeaker(track);
 	}
+
+	private emitSpeakersOrder(): void
+	{
+		//Not scheduled anymore
+		this.orderTimer = null;
+		//Check it has changed since last event, as it may have gone back to it
+		if (this.order.length === this.emittedOrder.length && this.order.every((id, i) => id === this.emittedOrder[i]))
+			return;
+		//Store it
+		this.emittedOrder = this.order;
+		this.lastOrderChange = Date.now();
+		//Emit event
+		this.emit("speakersorderchanged",this.getSpeakers());
+	}
 	
 	/**
 	 * Set minimum period between active speaker changes
@@ -62,6 +109,15 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
 	{
 		this.detector.SetMinChangePeriod(minChangePeriod);
 	}
+
+	/**
+	 * Set minimum period between speakers order changed events, changes in between are coalesced and the latest order is emitted once it has elapsed
+	 * @param {Number} minOrderChangePeriod - in ms [Default: 1000]
+	 */
+	setMinOrderChangePeriod(minOrderChangePeriod: number)
+	{
+		this.minOrderChangePeriod = minOrderChangePeriod;
+	}
 	
 	/**
 	 * Maximux activity score accumulated by an speaker
@@ -90,6 +146,50 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
 		this.detector.SetMinActivationScore(minActivationScore);
 	}
 	
+	/**
+	 * Set the priority of a speaker, speakers with higher priority are ranked first on {@link ActiveSpeakerDetector.getSpeakers}
+	 * and are elected as active speaker when their score ties with the ones with lower priority
+	 * @param {IncomingStreamTrack} track
+	 * @param {Number} weight - Priority of the speaker, a non negative integer [Default: 0]
+	 */
+	setPriority(track: IncomingStreamTrack, weight: number)
+	{
+		//Get id
+		const id = this.ids.get(track);
+		//Ensure we have it
+		if (!id)
+			throw new Error("Could not find track");
+		//Check it fits on the native priority
+		if (!Number.isInteger(weight) || weight < 0 || weight > 0xFFFFFFFF)
+			throw new Error("Invalid priority weight");
+		//Set it
+		this.detector.SetPriority(id, weight);
+	}
+
+	/**
+	 * Get all speakers ordered by priority and accumulated score, and then by the last time voice was detected on them,
+	 * so silent speakers keep the order in which they stopped speaking
+	 * @returns {Array<IncomingStreamTrack>}
+	 */
+	getSpeakers(): IncomingStreamTrack[]
+	{
+		const speakers: IncomingStreamTrack[] = [];
+		//For each ranked id
+		for (const id of this.order)
+		{
+			//Get track
+			const track = this.tracks.get(id);
+			//Prevent race condition
+			if (track)
+				speakers.push(track);
+		}
+		//Add the ones not ranked yet
+		for (const track of this.tracks.values())
+			if (!speakers.includes(track))
+				speakers.push(track);
+		return speakers;
+	}
+
 	/**
 	 * Add incoming track for speaker detection
 	 * @param {IncomingStreamTrack} track
@@ -166,6 +266,11 @@ export class ActiveSpeakerDetector extends Emitter<ActiveSpeakerDetectorEvents>
 	{
 		//Stop listening for events, as they might have been queued
 		this.onactivespeakerchanged = ()=>{};
+		this.onspeakersorderchanged = ()=>{};
+		//Drop any pending order event
+		if (this.orderTimer)
+			clearTimeout(this.orderTimer);
+		this.orderTimer = null;
 		//Stop listening on any track
 		for (const track of this.tracks.values()) {
 			//remove track
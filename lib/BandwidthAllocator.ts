@@ -0,0 +1,238 @@
+import Emitter from "medooze-event-emitter";
+import {Transport} from "./Transport";
+import {OutgoingStreamTrack} from "./OutgoingStreamTrack";
+import {Transponder, SetTargetBitrateOptions} from "./Transponder";
+
+export interface BandwidthAllocatorOptions {
+	/** Bitrate reserved for each active audio track in bps [Default: 64000] */
+	audioReserve?: number;
+	/** Extra bitrate ratio required over the next layer bitrate before switching up to it [Default: 0.15] */
+	hysteresis?: number;
+	/** Options passed to {@link Transponder.setTargetBitrate} */
+	targetBitrate?: SetTargetBitrateOptions;
+}
+
+/** Allocation priority of an outgoing video track */
+export interface BandwidthPriority {
+	/** Higher priority tracks are served first [Default: 0] */
+	priority: number;
+	/** Share of the bitrate relative to other tracks with same priority [Default: 1] */
+	weight: number;
+}
+
+/** Bitrate and layer allocated to an outgoing video track */
+export interface BandwidthAllocation {
+	track: OutgoingStreamTrack;
+	priority: number;
+	weight: number;
+	/** Bitrate offered to the track */
+	target: number;
+	/** Bitrate of the selected layer */
+	bitrate: number;
+	encodingId?: string;
+	spatialLayerId?: number;
+	temporalLayerId?: number;
+	/** Index of the selected layer, -1 if no layer is selected */
+	layerIndex: number;
+}
+
+interface BandwidthAllocatorEvents {
+	stopped: (self: BandwidthAllocator) => void;
+	/** New allocation done (`available` is the transport available bitrate and `audio` the bitrate reserved for audio tracks) */
+	allocation: (allocations: BandwidthAllocation[], available: number, audio: number, self: BandwidthAllocator) => void;
+}
+
+/**
+ * BandwidthAllocator distributes the available outgoing bitrate of a transport across the video transponders of its outgoing tracks.
+ * Maximum layers and dimensions set on each transponder are respected, any bitrate not used by a track is offered to the next ones.
+ */
+export class BandwidthAllocator extends Emitter<BandwidthAllocatorEvents>
+{
+	transport: Transport;
+	options: BandwidthAllocatorOptions;
+	priorities: WeakMap<OutgoingStreamTrack, BandwidthPriority>;
+	/** Bitrate of the last selected layer for each track */
+	bitrates: WeakMap<OutgoingStreamTrack, number>;
+
+	constructor(
+		transport: Transport,
+		options: BandwidthAllocatorOptions = {})
+	{
+		//Init emitter
+		super();
+
+		//Store stuff
+		this.transport = transport;
+		this.options = options;
+		this.priorities = new WeakMap();
+		this.bitrates = new WeakMap();
+
+		// bind `this` since this function will be called by event handler
+		this.onTargetBitrate = this.onTargetBitrate.bind(this);
+		this.onTransportStopped = this.onTransportStopped.bind(this);
+
+		//Allocate on each new estimation
+		this.transport.on("targetbitrate", this.onTargetBitrate);
+		//Stop when transport stop
+		this.transport.once("stopped", this.onTransportStopped);
+	}
+
+	private onTargetBitrate(): void {
+		this.allocate();
+	}
+
+	private onTransportStopped(): void {
+		this.stop();
+	}
+
+	/**
+	 * Set allocation priority for an outgoing video track
+	 * @param {OutgoingStreamTrack} track
+	 * @param {Number} priority	- Higher priority tracks are served first
+	 * @param {Number} [weight]	- Share of the bitrate relative to other tracks with same priority
+	 */
+	setPriority(track: OutgoingStreamTrack, priority: number, weight: number = 1): void
+	{
+		//Check weight
+		if (weight <= 0)
+			throw new Error("Weight must be positive");
+		//Store it
+		this.priorities.set(track, { priority, weight });
+	}
+
+	/**
+	 * Get allocation priority of an outgoing video track
+	 * @param {OutgoingStreamTrack} track
+	 */
+	getPriority(track: OutgoingStreamTrack): BandwidthPriority
+	{
+		return this.priorities.get(track) ?? { priority: 0, weight: 1 };
+	}
+
+	/**
+	 * Distribute the transport available bitrate now, it is done automatically on each new bandwidth estimation
+	 * @returns {BandwidthAllocation[]} the allocation for each video track
+	 */
+	allocate(): BandwidthAllocation[]
+	{
+		//Check not stopped
+		if (!this.transport)
+			return [];
+
+		//Get available bitrate
+		const available = this.transport.getAvailableOutgoingBitrate();
+
+		//Get options
+		const audioReserve = this.options.audioReserve ?? 64000;
+		const hysteresis = this.options.hysteresis ?? 0.15;
+
+		//Audio reserve and video transponders
+		let audio = 0;
+		const video: Array<{ track: OutgoingStreamTrack, transponder: Transponder } & BandwidthPriority> = [];
+
+		//For each outgoing track
+		for (const stream of this.transport.getOutgoingStreams())
+			for (const track of stream.getTracks())
+			{
+				//Get transponder
+				const transponder = track.getTransponder();
+				//Skip tracks not being sent
+				if (!transponder || !transponder.getIncomingTrack() || transponder.isMuted())
+					continue;
+				//If it is audio
+				if (track.getMedia() === "audio")
+					//Reserve it
+					audio += audioReserve;
+				else
+					//Allocate it later
+					video.push({ track, transponder, ...this.getPriority(track) });
+			}
+
+		//Remaining bitrate for video
+		let remaining = Math.max(available - audio, 0);
+
+		//Serve higher priorities first, keep order inside same priority
+		video.sort((a, b) => b.priority - a.priority);
+
+		const allocations: BandwidthAllocation[] = [];
+
+		//For each priority group
+		for (let i = 0; i < video.length;)
+		{
+			//Get all tracks with same priority
+			let j = i;
+			while (j < video.length && video[j].priority === video[i].priority)
+				j++;
+			const group = video.slice(i, j);
+			i = j;
+
+			//Total weight pending to be served in the group
+			let weights = group.reduce((sum, entry) => sum + entry.weight, 0);
+
+			//For each track
+			for (const entry of group)
+			{
+				//Get its share of what is remaining
+				const target = remaining * entry.weight / weights;
+				weights -= entry.weight;
+
+				//Get previous layer bitrate
+				const prev = this.bitrates.get(entry.track) ?? 0;
+				//Require some headroom before going up
+				let effective = target / (1 + hysteresis);
+				//But keep current layer while it fits
+				if (effective < prev && prev <= target)
+					effective = prev;
+
+				//Select layer
+				const selected = entry.transponder.setTargetBitrate(effective, this.options.targetBitrate);
+				//Get used bitrate
+				const bitrate = selected ? selected.valueOf() : 0;
+
+				//Store it
+				this.bitrates.set(entry.track, bitrate);
+				//Give unused bitrate to the next ones
+				remaining = Math.max(remaining - bitrate, 0);
+
+				allocations.push({
+					track		: entry.track,
+					priority	: entry.priority,
+					weight		: entry.weight,
+					target		: target,
+					bitrate		: bitrate,
+					encodingId	: selected?.encodingId,
+					spatialLayerId	: selected?.spatialLayerId,
+					temporalLayerId	: selected?.temporalLayerId,
+					layerIndex	: selected?.layerIndex ?? -1,
+				});
+			}
+		}
+
+		//Emit event
+		this.emit("allocation", allocations, available, audio, this);
+
+		return allocations;
+	}
+
+	/**
+	 * Stop allocating bitrate, transponders keep their last selected layers
+	 */
+	stop(): void
+	{
+		//Don't call it twice
+		if (!this.transport) return;
+
+		//Stop listening
+		this.transport.off("targetbitrate", this.onTargetBitrate);
+		this.transport.off("stopped", this.onTransportStopped);
+
+		this.emit("stopped", this);
+
+		//Stop emitter
+		super.stop();
+
+		//Remove transport reference, so destructor is called on GC
+		//@ts-expect-error
+		this.transport = null;
+	}
+}
@@ -1,19 +1,45 @@
 import * as Native from "./Native";
+import * as SharedPointer from "./SharedPointer";
 import Emitter from "medooze-event-emitter";
 import LFSR from 'lfsr';
 import {IncomingStream} from "./IncomingStream";
+import {IncomingStreamTrack, NativeSourceMap} from "./IncomingStreamTrack";
 import * as Utils from "./Utils";
-import {
+import SemanticSDP, {
     SDPInfo,
+    MediaInfo,
     StreamInfo,
+    TrackInfo,
+    TrackInfoLike,
+    TrackType,
 } from "semantic-sdp";
 
-interface PlayParams {
-    start?: number;
+let maxId = 0;
+
+export interface EmulatedTransportOptions {
+	/** Remote SDP of the captured transport, its RTP properties are set and its incoming streams are created */
+	remote?: SDPInfo;
+	/** Interval in ms of the progress events while playing [Default: 1000] */
+	progressInterval?: number;
+}
+
+export interface EmulatedTransportPlayParams {
+	/** Start time in ms from the beginning of the capture */
+	start?: number;
+	/** Playback rate, i.e. 10 for replaying ten times faster than real time [Default: 1] */
+	rate?: number;
 }
 
 interface EmulatedTransportEvents {
 	stopped: (self: EmulatedTransport) => void;
+	/** New incoming track has been created */
+	incomingtrack: (track: IncomingStreamTrack, stream: IncomingStream | undefined) => void;
+	/** Periodic playback position while playing (`position` in ms from the beginning of the capture) */
+	progress: (position: number, self: EmulatedTransport) => void;
+	/** All packets of the capture have been played */
+	ended: (self: EmulatedTransport) => void;
+	/** Checkpoint reached on the capture (`position` in ms from the beginning of the capture). Playback waits until all listeners have run, so all the packets before it and none after it have been played */
+	checkpoint: (position: number, self: EmulatedTransport) => void;
 }
 
 /**
@@ -22,114 +48,391 @@ interface EmulatedTransportEvents {
  */
 export class EmulatedTransport extends Emitter<EmulatedTransportEvents>
 {
-	transport: Native.PCAPTransportEmulator;
+	transport: Native.PCAPTransportEmulatorFacade;
     incomingStreams: Map<string, IncomingStream>;
+	incomingStreamTracks: Map<string, IncomingStreamTrack>;
+	remoteProperties?: Utils.RTPProperties;
     lfsr: LFSR;
+	progressInterval: number;
+	progressTimer: ReturnType<typeof setInterval> | null;
+
+	// native callbacks
+	private onended: () => void;
+	private oncheckpoint: (position: number) => void;
 
-	constructor(pcap: string | Native.UDPReader)
+	constructor(pcap: string | Native.UDPReader, options: EmulatedTransportOptions = {})
 	{
 		//Init emitter
 		super();
 
 		//Create native emulator
-		this.transport = new Native.PCAPTransportEmulator();
-		
+		this.transport = new Native.PCAPTransportEmulatorFacade(this);
+
 		//Check if it is a path or a reader
 		if (typeof pcap === "string") {
 			//Open file
-			this.transport.Open(pcap);
+			if (!this.transport.Open(pcap))
+				//Error
+				throw new Error("PCAP file could not be opened");
 		} else {
 			//Set reader
 			this.transport.SetReader(pcap);
 		}
-		//List of streams
+		//List of streams and tracks
 		this.incomingStreams = new Map();
-		
+		this.incomingStreamTracks = new Map();
+
 		//Create new sequence generator
 		this.lfsr = new LFSR();
+
+		this.progressInterval = options.progressInterval ?? 1000;
+		this.progressTimer = null;
+
+		//Listener for native events
+		this.onended = () => {
+			//If already stopped
+			if (!this.transport)
+				//Done
+				return;
+			//No more progress
+			this.stopProgress();
+
+			this.emit("ended", this);
+		};
+		this.oncheckpoint = (position: number) => {
+			//If already stopped
+			if (!this.transport)
+				//Done
+				return;
+			this.emit("checkpoint", position, this);
+		};
+
+		//If we have the remote SDP
+		if (options.remote)
+			//Create everything from it
+			this.createIncomingStreams(options.remote);
 	}
-	
+
+	private startProgress(): void
+	{
+		//Check not already started
+		if (this.progressTimer)
+			return;
+		//Emit position periodically
+		this.progressTimer = setInterval(() => this.emit("progress", this.getPosition(), this), this.progressInterval);
+	}
+
+	private stopProgress(): void
+	{
+		//Check it was started
+		if (!this.progressTimer)
+			return;
+		//Stop timer
+		clearInterval(this.progressTimer);
+		this.progressTimer = null;
+	}
+
 	/**
-	 * Set remote RTP properties 
+	 * Set remote RTP properties
 	 * @param {Utils.RTPProperties | SDPInfo} rtp
 	 */
 	setRemoteProperties(rtp: Utils.RTPProperties | SDPInfo)
 	{
+		//Parse them
+		const parsed = this.remoteProperties = Utils.parseRTPProperties(rtp);
 		//Get native properties
-		let properties = Utils.convertRTPProperties(Utils.parseRTPProperties(rtp));
+		let properties = Utils.convertRTPProperties(parsed);
 		//Set it
 		this.transport.SetRemoteProperties(properties);
 	}
-	
+
+	/**
+	 * Set the remote RTP properties and create all the incoming streams and tracks signaled on the remote SDP
+	 * @param {SDPInfo} sdp - Remote SDP of the captured transport
+	 * @returns {IncomingStream[]} The newly created incoming streams
+	 */
+	createIncomingStreams(sdp: SDPInfo): IncomingStream[]
+	{
+		//Set RTP properties
+		this.setRemoteProperties(sdp);
+
+		const incomingStreams: IncomingStream[] = [];
+		//For each stream signaled
+		for (const info of sdp.getStreams().values())
+			//If not already created
+			if (!this.incomingStreams.has(info.getId()))
+				//Create it
+				incomingStreams.push(this.createIncomingStream(info));
+
+		return incomingStreams;
+	}
+
 	/**
 	 * Create an incoming stream object from the media stream info objet
-	 * @param {StreamInfo} info Contains the ids and ssrcs of the stream to be created
+	 * @param {StreamInfo | SemanticSDP.StreamInfoPlain | String} params Contains the ids and ssrcs of the stream to be created
 	 * @returns {IncomingStream} The newly created incoming stream object
 	 */
-	createIncomingStream(info: StreamInfo): IncomingStream
+	createIncomingStream(params: StreamInfo | SemanticSDP.StreamInfoPlain | string): IncomingStream
 	{
-		//We have to add the incmoing source for this stream
-		// todo: figure out what this is actually supposed to pass
-		// @ts-expect-error
-		let incomingStream = new IncomingStream(info.id, this.transport);
-		
+		const info: StreamInfo = typeof params == "string"
+			? new StreamInfo(params)
+			: StreamInfo.clone(params);
+
+		//IF we already have that id
+		if (this.incomingStreams.has(info.getId()))
+			//Launch exception
+			throw new Error("Duplicated stream id");
+
+		//Tracks are created by us, not by the stream
+		let incomingStream = new IncomingStream(info.getId(), null);
+
 		//Add to list
 		this.incomingStreams.set(incomingStream.getId(),incomingStream);
-		
+
 		//Add listener
 		incomingStream.once("stopped",() => {
 			//Remove it
 			this.incomingStreams.delete(incomingStream.getId());
 		});
-			
+
+		//For each tracks
+		for (let trackInfo of info.getTracks().values())
+			//Create new track from info
+			this.createIncomingStreamTrack(trackInfo.getMedia(), trackInfo, incomingStream);
+
 		//Return it
 		return incomingStream;
 	}
-	
+
 	/**
-	 * Starts playback
-	 * @param {Object} params	
-	 * @param {number} params.start - Set start time
+	 * Create new incoming track in this transport
+	 * @param {TrackType} media	- Track media type
+	 * @param {TrackInfoLike} [params] - Track parameters
+	 * @param {IncomingStream} [incomingStream] - Stream to add the track to
+	 * @returns {IncomingStreamTrack}
 	 */
-	play(params?: PlayParams)
+	createIncomingStreamTrack(media: TrackType, params?: TrackInfoLike, incomingStream?: IncomingStream): IncomingStreamTrack
 	{
-		//If we need to seek
-		if (params && params.start) {
-			//Seek
-			return this.transport.Seek(params.start);
+		const trackInfo: TrackInfo = params
+			? TrackInfo.expand(params)
+			: new TrackInfo(media, String(media + (maxId++)));
+
+		//Create uuid
+		const uuid = (incomingStream?.getId() ?? "") + "@" + trackInfo.getId();
+
+		//IF we already have that id
+		if (this.incomingStreamTracks.has(uuid))
+			//Launch exception
+			throw new Error("Duplicated track id");
+
+		//Create source map
+		const sources: NativeSourceMap = {};
+
+		try
+		{
+			//For each encoding source found on track info
+			for (const encodingSource of trackInfo.getEncodingSources())
+			{
+				//Create native source
+				const source = SharedPointer.SharedPointer(new Native.RTPIncomingSourceGroupShared(
+					Utils.mediaToFrameType(media),
+					this.transport.GetTimeService())
+				);
+
+				//Set ids
+				source.mid	= trackInfo.getMediaId() ?? "";
+				source.rid	= encodingSource.rid	 ?? "";
+
+				//Set source ssrcs
+				source.media.ssrc	= encodingSource.media ?? this.lfsr.seq(31);
+				//Only allow rtx for video
+				if (media == "video")
+					source.rtx.ssrc	= encodingSource.rtx ?? this.lfsr.seq(31);
+
+				if (!this.transport.AddIncomingSourceGroup(source))
+					//Launch exception
+					throw new Error("Could not add incoming source group to emulated transport");
+
+				//Add to sources
+				sources[encodingSource.id!] = source;
+			}
+		} catch (e) {
+			//For each source
+			for (const id of Object.keys(sources))
+				//Remove source group
+				this.transport.RemoveIncomingSourceGroup(sources[id]);
+			//Rethrow exception
+			throw e;
 		}
 
+		//Create new track
+		const incomingStreamTrack = new IncomingStreamTrack(
+			media,
+			trackInfo.getId(),
+			trackInfo.getMediaId(),
+			this.transport.GetTimeService(),
+			SharedPointer.SharedPointer(this.transport.GetRTPReceiver()),
+			sources
+		);
+
+		//Get remote media info
+		const remote = this.remoteProperties?.[media];
+		//If we have it
+		if (remote)
+			//Get out of band codec parameters from it
+			incomingStreamTrack.setOutOfBandParameters(MediaInfo.expand(remote));
+
+		//Add listener
+		incomingStreamTrack.once("stopped",()=>{
+			//If not stopped already
+			if (this.transport)
+				//For each source
+				for (const id of Object.keys(sources))
+					//Remove source group
+					this.transport.RemoveIncomingSourceGroup(sources[id]);
+			//Remove from tracks
+			this.incomingStreamTracks.delete(uuid);
+		});
+
+		//Add to the track list
+		this.incomingStreamTracks.set(uuid,incomingStreamTrack);
+
+		//Add it to the stream
+		if (incomingStream) incomingStream.addTrack(incomingStreamTrack);
+
+		//Emit new track event
+		this.emit("incomingtrack", incomingStreamTrack, incomingStream);
+
+		//Return it
+		return incomingStreamTrack;
+	}
+
+	/**
+	 * Get all the incoming streams in the transport
+	 * @returns {IncomingStream[]}
+	 */
+	getIncomingStreams(): IncomingStream[]
+	{
+		return Array.from(this.incomingStreams.values());
+	}
+
+	/**
+	 * Get incoming stream
+	 * @param {String} streamId the stream ID
+	 * @returns {IncomingStream | undefined}
+	 */
+	getIncomingStream(streamId: string): IncomingStream | undefined
+	{
+		//Return it
+		return this.incomingStreams.get(streamId);
+	}
+
+	/**
+	 * Starts playback
+	 * @param {Object} params
+	 * @param {number} params.start - Set start time in ms from the beginning of the capture
+	 * @param {number} params.rate - Playback rate, i.e. 10 for replaying ten times faster than real time
+	 */
+	play(params?: EmulatedTransportPlayParams)
+	{
+		//If rate is set
+		if (params && params.rate !== undefined)
+			//Set it
+			this.setPlaybackRate(params.rate);
+
+		//Emit progress
+		this.startProgress();
+
+		//Seek, from the beginning if not set
+		this.transport.Seek(params?.start ?? 0);
+
 		//Start playback
 		return this.transport.Play();
 	}
-	
+
 	/**
-	 * Resume playback
+	 * Resume playback from current position
 	 */
 	resume(): boolean
 	{
+		//Emit progress
+		this.startProgress();
+
+		//Continue from last packet played
+		this.transport.Seek(this.transport.Tell());
+
 		return this.transport.Play();
 	}
-	
+
 	/**
 	 * Pause playback
 	 */
 	pause(): boolean
 	{
+		//No progress while paused
+		this.stopProgress();
 		return this.transport.Stop();
 	}
-	
+
 	/**
 	 * Start playback from given time
-	 * @param {Number} time - in miliseconds
+	 * @param {Number} time - in miliseconds from the beginning of the capture
 	 */
 	seek(time: number): boolean
 	{
+		//Emit progress
+		this.startProgress();
+
 		this.transport.Seek(time);
-		
+
 		return this.transport.Play();
 	}
-	
+
+	/**
+	 * Get current playback position
+	 * @returns {Number} - in miliseconds from the beginning of the capture
+	 */
+	getPosition(): number
+	{
+		return this.transport ? this.transport.Tell() : 0;
+	}
+
+	/**
+	 * Get the capture position of a packet or frame played by this transport, as its time is scaled by the playback rate
+	 * @param {Number} time - Packet or frame time in ms
+	 * @returns {Number} - in miliseconds from the beginning of the capture
+	 */
+	getCapturePosition(time: number): number
+	{
+		return this.transport ? this.transport.GetCapturePosition(time) : 0;
+	}
+
+	/**
+	 * Set the interval of the checkpoint events on capture time
+	 * @param {Number} interval - in miliseconds, 0 to disable them
+	 */
+	setCheckpointInterval(interval: number): void
+	{
+		//Check it is valid
+		if (!Number.isInteger(interval) || interval < 0)
+			throw new Error("Invalid checkpoint interval");
+		//Set it
+		this.transport.SetCheckpointInterval(interval);
+	}
+
+	/**
+	 * Set playback rate, it can be changed while playing
+	 * @param {Number} rate - i.e. 10 for replaying ten times faster than real time
+	 */
+	setPlaybackRate(rate: number): void
+	{
+		//Check it is valid
+		if (!(rate > 0))
+			throw new Error("Invalid playback rate");
+		//Set it
+		this.transport.SetPlaybackSpeed(rate);
+	}
+
 	/**
 	 * Stop transport and all the associated incoming and outgoing streams
 	 */
@@ -137,23 +440,32 @@ export class EmulatedTransport extends Emitter<EmulatedTransportEvents>
 	{
 		//Don't call it twice
 		if (!this.transport) return;
-		
+
+		//No more progress
+		this.stopProgress();
+
 		//Stop all streams
 		for (let stream of this.incomingStreams.values())
 			//stop
 			stream.stop();
-		
+
+		//Stop tracks not belonging to any stream
+		for (let track of this.incomingStreamTracks.values())
+			//stop
+			track.stop();
+
 		//Clear maps jic
 		this.incomingStreams.clear();
-		
+		this.incomingStreamTracks.clear();
+
 		//Stop transort
 		this.transport.Stop();
-		
+
 		this.emit("stopped",this);
 
 		//Stop emitter
 		super.stop();
-		
+
 		//Remove transport reference, so destructor is called on GC
 		//@ts-expect-error
 		this.transport = null;
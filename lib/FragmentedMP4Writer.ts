@@ -0,0 +1,1093 @@
+import * as fs from "fs";
+import Emitter from "medooze-event-emitter";
+import {Frame} from "./IncomingStreamTrackReader";
+import {H265ParameterSets, AV1Config} from "./IncomingStreamTrack";
+
+export interface FragmentedMP4WriterOptions {
+	/** Fragment duration in ms [Default: 1000] */
+	fragmentDuration?: number;
+	/** Max time in ms to wait for all the tracks to have configured samples before writing the moov box, tracks not ready by then are not recorded [Default: 5000] */
+	moovTimeout?: number;
+}
+
+/** Out of band codec configuration of a track */
+export interface FragmentedMP4TrackConfig {
+	/** H264 sprop-parameter-sets */
+	h264ParameterSets?: string;
+	h265ParameterSets?: H265ParameterSets;
+	av1Config?: AV1Config;
+}
+
+/** Position of a fragment in the file */
+export interface FragmentInfo {
+	/** Byte offset of the fragment in the file */
+	offset: number;
+	/** Fragment size in bytes */
+	size: number;
+	/** True for the initialization segment (ftyp and moov boxes) */
+	init: boolean;
+	/** Sequence number of the fragment, 0 for the initialization segment */
+	sequenceNumber: number;
+	/** Start time of the fragment in ms from the start of the recording */
+	start: number;
+	/** Duration of the fragment in ms */
+	duration: number;
+}
+
+/** Media sample pending to be written */
+interface Sample {
+	data: Buffer;
+	/** Decode time in track timescale */
+	dts: number;
+	duration: number;
+	isIntra: boolean;
+}
+
+/** Track being written */
+interface Track {
+	id: number;
+	type: "audio" | "video";
+	codec: string;
+	timescale: number;
+	width: number;
+	height: number;
+	vps?: Buffer;
+	sps?: Buffer;
+	pps?: Buffer;
+	/** Parsed h265 sps */
+	h265SPS?: H265SPSInfo;
+	/** AV1 sequence header obu */
+	av1SequenceHeader?: Buffer;
+	av1Config?: AV1Config;
+	/** Timestamp of first frame */
+	firstTimestamp?: number;
+	/** Decode time of first frame, so tracks are aligned by reception time */
+	firstDts: number;
+	/** Last sample, waiting for next one to know its duration */
+	pending?: Sample;
+	/** Samples ready for next fragment */
+	samples: Sample[];
+	/** Decode time of the first sample of next fragment */
+	nextDts?: number;
+	lastDuration: number;
+	/** If the track was present when the moov box was written */
+	inMoov: boolean;
+}
+
+interface FragmentedMP4WriterEvents {
+	stopped: (self: FragmentedMP4Writer) => void;
+	/** First media frame received (`time` is the reception time in ms) */
+	started: (time: number, self: FragmentedMP4Writer) => void;
+	/** Fragment or initialization segment has been written to the file */
+	fragment: (info: FragmentInfo, self: FragmentedMP4Writer) => void;
+	/** File could not be written, no more frames will be accepted */
+	error: (error: Error, self: FragmentedMP4Writer) => void;
+	/** Initialization segment written without the tracks not ready before the moov timeout, they won't be recorded */
+	missingtracks: (trackIds: number[], self: FragmentedMP4Writer) => void;
+}
+
+/** H265 sps fields needed for the hvcC box */
+interface H265SPSInfo {
+	maxSubLayersMinus1: number;
+	temporalIdNested: number;
+	profileSpace: number;
+	tierFlag: number;
+	profileIdc: number;
+	compatibilityFlags: number;
+	constraintFlags: number[];
+	levelIdc: number;
+	chromaFormat: number;
+	bitDepthLumaMinus8: number;
+	bitDepthChromaMinus8: number;
+}
+
+/** AV1 sequence header fields needed for the av1C box */
+interface AV1SequenceHeaderInfo {
+	profile: number;
+	levelIdx: number;
+	tier: number;
+}
+
+//Supported codecs
+const supportedCodecs = ["h264", "h265", "vp8", "vp9", "av1", "opus"];
+
+//AV1 obu types
+const ObuSequenceHeader = 1;
+const ObuTemporalDelimiter = 2;
+
+/**
+ * Read bits from a buffer
+ */
+class BitReader
+{
+	buffer: Uint8Array;
+	pos: number;
+
+	constructor(buffer: Uint8Array)
+	{
+		this.buffer = buffer;
+		this.pos = 0;
+	}
+
+	read(bits: number): number
+	{
+		let value = 0;
+		for (let i = 0; i < bits; ++i)
+		{
+			//Get byte
+			const byte = this.buffer[this.pos >> 3];
+			//Check we have enough data
+			if (byte === undefined)
+				throw new Error("Not enough data");
+			//Get bit
+			value = value * 2 + ((byte >> (7 - (this.pos & 7))) & 1);
+			this.pos++;
+		}
+		return value;
+	}
+
+	skip(bits: number): void
+	{
+		this.pos += bits;
+	}
+
+	/** Read exp golomb (or AV1 uvlc) value */
+	readUE(): number
+	{
+		//Count leading zeros
+		let zeros = 0;
+		while (!this.read(1))
+			//Check it is not too big
+			if (++zeros > 31)
+				throw new Error("Invalid exp golomb value");
+		return 2 ** zeros - 1 + this.read(zeros);
+	}
+}
+
+/**
+ * Remove emulation prevention bytes from a h26x nal
+ * @param {Buffer} nal
+ */
+function unescapeRbsp(nal: Buffer): Buffer
+{
+	const bytes: number[] = [];
+	for (let i = 0; i < nal.length; ++i)
+	{
+		//Skip 0x03 after two zeros
+		if (nal[i] === 3 && i >= 2 && nal[i - 1] === 0 && nal[i - 2] === 0)
+			continue;
+		bytes.push(nal[i]);
+	}
+	return Buffer.from(bytes);
+}
+
+/**
+ * Parse h265 sps
+ * @param {Buffer} nal
+ */
+function parseH265SPS(nal: Buffer): H265SPSInfo
+{
+	//Skip nal header
+	const reader = new BitReader(unescapeRbsp(nal.subarray(2)));
+	//VPS id
+	reader.skip(4);
+	const maxSubLayersMinus1 = reader.read(3);
+	const temporalIdNested = reader.read(1);
+	//General profile, tier and level
+	const profileSpace = reader.read(2);
+	const tierFlag = reader.read(1);
+	const profileIdc = reader.read(5);
+	const compatibilityFlags = reader.read(32);
+	const constraintFlags = [0, 0, 0, 0, 0, 0].map(() => reader.read(8));
+	const levelIdc = reader.read(8);
+	//Sub layers profile and level flags
+	const subLayers = [];
+	for (let i = 0; i < maxSubLayersMinus1; ++i)
+		subLayers.push({ profile: reader.read(1), level: reader.read(1) });
+	if (maxSubLayersMinus1 > 0)
+		reader.skip(2 * (8 - maxSubLayersMinus1));
+	//Skip sub layers profile and level
+	for (const subLayer of subLayers)
+		reader.skip(subLayer.profile * 88 + subLayer.level * 8);
+	//SPS id
+	reader.readUE();
+	const chromaFormat = reader.readUE();
+	//Separate colour plane
+	if (chromaFormat === 3)
+		reader.skip(1);
+	//Width and height
+	reader.readUE();
+	reader.readUE();
+	//Conformance window
+	if (reader.read(1))
+		for (let i = 0; i < 4; ++i)
+			reader.readUE();
+	const bitDepthLumaMinus8 = reader.readUE();
+	const bitDepthChromaMinus8 = reader.readUE();
+	return {
+		maxSubLayersMinus1,
+		temporalIdNested,
+		profileSpace,
+		tierFlag,
+		profileIdc,
+		compatibilityFlags,
+		constraintFlags,
+		levelIdc,
+		chromaFormat,
+		bitDepthLumaMinus8,
+		bitDepthChromaMinus8,
+	};
+}
+
+/**
+ * Read leb128 value
+ * @param {Uint8Array} buffer
+ * @param {Number} pos
+ * @returns {[Number, Number]} value and position after it
+ */
+function readLeb128(buffer: Uint8Array, pos: number): [number, number]
+{
+	let value = 0;
+	for (let i = 0; i < 8 && pos < buffer.length; ++i)
+	{
+		const byte = buffer[pos++];
+		value += (byte & 0x7f) * 2 ** (i * 7);
+		//If it is last byte
+		if (!(byte & 0x80))
+			break;
+	}
+	return [value, pos];
+}
+
+/**
+ * Serialize leb128 value
+ * @param {Number} value
+ */
+function writeLeb128(value: number): Buffer
+{
+	const bytes: number[] = [];
+	do {
+		//Get 7 bits
+		let byte = value % 128;
+		value = Math.floor(value / 128);
+		//Mark if more bytes follow
+		if (value)
+			byte |= 0x80;
+		bytes.push(byte);
+	} while (value);
+	return Buffer.from(bytes);
+}
+
+/**
+ * Split an AV1 temporal unit in obus, obus are returned with size field as required on mp4 samples
+ * @param {Uint8Array} buffer
+ */
+function splitObus(buffer: Uint8Array): Array<{ type: number, obu: Buffer }>
+{
+	const obus: Array<{ type: number, obu: Buffer }> = [];
+	let i = 0;
+	while (i < buffer.length)
+	{
+		//Parse header
+		const header = buffer[i];
+		const type = (header >> 3) & 0x0f;
+		const hasExtension = !!(header & 0x04);
+		const hasSize = !!(header & 0x02);
+		//Get payload start
+		let pos = i + (hasExtension ? 2 : 1);
+		let size = 0;
+		//Get size from header or use rest of data
+		if (hasSize)
+			[size, pos] = readLeb128(buffer, pos);
+		else
+			size = buffer.length - pos;
+		//Check we have enough data
+		if (pos + size > buffer.length)
+			break;
+		//Serialize with size field
+		obus.push({
+			type	: type,
+			obu	: Buffer.concat([
+				Buffer.from(hasExtension ? [header | 0x02, buffer[i + 1]] : [header | 0x02]),
+				writeLeb128(size),
+				buffer.subarray(pos, pos + size),
+			]),
+		});
+		//Next
+		i = pos + size;
+	}
+	return obus;
+}
+
+/**
+ * Parse AV1 sequence header obu
+ * @param {Buffer} obu
+ */
+function parseAV1SequenceHeader(obu: Buffer): AV1SequenceHeaderInfo
+{
+	//Skip obu header and size
+	const [, pos] = readLeb128(obu, obu[0] & 0x04 ? 2 : 1);
+	const reader = new BitReader(obu.subarray(pos));
+	const profile = reader.read(3);
+	//Still picture
+	reader.skip(1);
+	//Reduced still picture header
+	if (reader.read(1))
+		return { profile, levelIdx: reader.read(5), tier: 0 };
+	//Timing info
+	if (reader.read(1))
+	{
+		//Display tick and time scale
+		reader.skip(64);
+		//Equal picture interval
+		if (reader.read(1))
+			reader.readUE();
+		//Decoder model info
+		if (reader.read(1))
+			reader.skip(5 + 32 + 5 + 5);
+	}
+	//Initial display delay present, operating points count and first operating point idc
+	reader.skip(1 + 5 + 12);
+	//Level and tier of first operating point
+	const levelIdx = reader.read(5);
+	const tier = levelIdx > 7 ? reader.read(1) : 0;
+	return { profile, levelIdx, tier };
+}
+
+//Identity matrix used in mvhd and tkhd boxes
+const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+/**
+ * Serialize unsigned integers
+ * @param {Number} bytes	- Size of each value
+ * @param {Number[]} values
+ */
+function uint(bytes: 1 | 2 | 4 | 8, ...values: number[]): Buffer
+{
+	const buffer = Buffer.alloc(bytes * values.length);
+	values.forEach((value, i) => {
+		if (bytes === 8)
+			buffer.writeBigUInt64BE(BigInt(Math.max(Math.floor(value), 0)), i * 8);
+		else
+			buffer.writeUIntBE(value, i * bytes, bytes);
+	});
+	return buffer;
+}
+
+/**
+ * Create an ISO BMFF box
+ * @param {String} type
+ * @param {Buffer[]} payload
+ */
+function box(type: string, ...payload: Buffer[]): Buffer
+{
+	const size = payload.reduce((sum, buffer) => sum + buffer.length, 8);
+	return Buffer.concat([uint(4, size), Buffer.from(type, "ascii"), ...payload]);
+}
+
+/**
+ * Create an ISO BMFF full box
+ * @param {String} type
+ * @param {Number} version
+ * @param {Number} flags
+ * @param {Buffer[]} payload
+ */
+function fullBox(type: string, version: number, flags: number, ...payload: Buffer[]): Buffer
+{
+	return box(type, uint(1, version), uint(4, flags).subarray(1), ...payload);
+}
+
+/**
+ * Split an annex B h264 frame in nal units
+ * @param {Uint8Array} buffer
+ */
+function splitAnnexB(buffer: Uint8Array): Buffer[]
+{
+	const nals: Buffer[] = [];
+	let start = -1;
+	let i = 0;
+	while (i + 2 < buffer.length)
+	{
+		//Look for start code
+		if (buffer[i] === 0 && buffer[i + 1] === 0 && buffer[i + 2] === 1)
+		{
+			//End previous one, removing trailing zero of 4 byte start codes
+			if (start >= 0)
+				nals.push(Buffer.from(buffer.subarray(start, buffer[i - 1] === 0 ? i - 1 : i)));
+			//Next one starts after start code
+			start = i = i + 3;
+		} else {
+			i++;
+		}
+	}
+	//Add last one
+	if (start >= 0 && start < buffer.length)
+		nals.push(Buffer.from(buffer.subarray(start)));
+	return nals;
+}
+
+/**
+ * Writes media frames to a fragmented MP4 file, so the file is playable while being written
+ * The moov box is written with the first fragment, once all the tracks have received media with their codec configuration.
+ * Tracks not ready after the moov timeout, or added after the moov box has been written, are not recorded.
+ * Supported codecs are H264, H265, VP8, VP9, AV1 and Opus.
+ */
+export class FragmentedMP4Writer extends Emitter<FragmentedMP4WriterEvents>
+{
+	filename: string;
+	fragmentDuration: number;
+	tracks: Map<number, Track>;
+	/** Out of band codec config of the tracks */
+	configs: Map<number, FragmentedMP4TrackConfig>;
+	stream: fs.WriteStream;
+	/** Bytes written or queued to the file */
+	offset: number;
+	sequenceNumber: number;
+	/** Reception time of first frame */
+	startTime?: number;
+	/** Start of next fragment in ms */
+	fragmentStart: number;
+	timer?: ReturnType<typeof setInterval>;
+	moovTimeout: number;
+	/** Time when the moov box is written even if not all tracks are ready */
+	moovDeadline?: number;
+	closed: boolean;
+	/** Write error, if any */
+	error?: Error;
+
+	constructor(
+		filename: string,
+		options: FragmentedMP4WriterOptions = {})
+	{
+		//Init emitter
+		super();
+
+		//Store params
+		this.filename = filename;
+		this.fragmentDuration = options.fragmentDuration ?? 1000;
+		this.moovTimeout = options.moovTimeout ?? 5000;
+
+		//No tracks yet
+		this.tracks = new Map();
+		this.configs = new Map();
+		this.offset = 0;
+		this.sequenceNumber = 0;
+		this.fragmentStart = 0;
+		this.closed = false;
+
+		//Create file
+		this.stream = fs.createWriteStream(filename);
+		//Errors are reported asynchronously, even the open ones
+		this.stream.on("error", (error) => this.onError(error));
+	}
+
+	private onError(error: Error): void
+	{
+		//Only first one
+		if (this.error)
+			return;
+		//Store it
+		this.error = error;
+		//Stop writing fragments
+		clearInterval(this.timer);
+		//Emit event
+		this.emit("error", error, this);
+	}
+
+	/**
+	 * Set out of band codec configuration of a track, must be called before its first frame is added
+	 * @param {Number} trackId	- Track id on the mp4 file
+	 * @param {FragmentedMP4TrackConfig} config
+	 */
+	setTrackConfig(trackId: number, config: FragmentedMP4TrackConfig): void
+	{
+		this.configs.set(trackId, config);
+	}
+
+	/**
+	 * Add a media frame to the file
+	 * @param {Number} trackId	- Track id on the mp4 file, must be positive
+	 * @param {Frame} frame
+	 * @returns {boolean} if the frame has been accepted
+	 */
+	addFrame(trackId: number, frame: Frame): boolean
+	{
+		//Check we are still writing
+		if (this.closed || this.error)
+			return false;
+
+		//Get codec
+		const codec = frame.codec.toLowerCase();
+
+		//Get track
+		let track = this.tracks.get(trackId);
+
+		//If new
+		if (!track)
+		{
+			//Tracks can't be added once moov is written or with unsupported codecs
+			if (this.sequenceNumber || !supportedCodecs.includes(codec) || (frame.type !== "Audio" && frame.type !== "Video"))
+				return false;
+			//Create new one
+			track = {
+				id		: trackId,
+				type		: frame.type === "Audio" ? "audio" : "video",
+				codec		: codec,
+				timescale	: frame.clockRate || (frame.type === "Audio" ? 48000 : 90000),
+				width		: frame.width,
+				height		: frame.height,
+				firstDts	: 0,
+				samples		: [],
+				lastDuration	: 0,
+				inMoov		: false,
+			};
+			this.tracks.set(trackId, track);
+			//Get out of band config
+			const config = this.configs.get(trackId);
+			//If any
+			if (config)
+				//Set it
+				this.setOutOfBandConfig(track, config);
+		}
+
+		//Check it was on the moov box
+		if (this.sequenceNumber && !track.inMoov)
+			return false;
+
+		//Codec can't change
+		if (codec !== track.codec)
+			return false;
+
+		//Video tracks start on intra frame
+		if (track.firstTimestamp === undefined && track.type === "video" && !frame.isIntra)
+			return false;
+
+		//Get sample data
+		let data: Buffer;
+		if (codec === "h264" || codec === "h265")
+		{
+			const nals: Buffer[] = [];
+			//For each nal
+			for (const nal of splitAnnexB(frame.buffer))
+				//Keep parameter sets and skip access unit delimiters
+				if (nal.length && this.processNal(track, nal))
+					//Length prefixed
+					nals.push(uint(4, nal.length), nal);
+			data = Buffer.concat(nals);
+		} else if (codec === "av1") {
+			const obus: Buffer[] = [];
+			//For each obu
+			for (const { type, obu } of splitObus(frame.buffer))
+			{
+				//Temporal delimiters are not stored on mp4 samples
+				if (type === ObuTemporalDelimiter)
+					continue;
+				//Keep sequence header for the av1C box
+				if (type === ObuSequenceHeader)
+					track.av1SequenceHeader = obu;
+				obus.push(obu);
+			}
+			data = Buffer.concat(obus);
+		} else {
+			data = Buffer.from(frame.buffer);
+		}
+
+		//Skip empty frames
+		if (!data.length)
+			return false;
+
+		//Update dimensions
+		if (frame.width && frame.height && !track.inMoov)
+		{
+			track.width = frame.width;
+			track.height = frame.height;
+		}
+
+		//If it is the first frame
+		if (this.startTime === undefined)
+		{
+			//Start now
+			this.startTime = frame.time;
+			//Don't wait forever for the rest of tracks
+			this.moovDeadline = Date.now() + this.moovTimeout;
+			//Write fragments periodically
+			this.timer = setInterval(() => this.writeFragment(), this.fragmentDuration);
+			//Emit event
+			this.emit("started", frame.time, this);
+		}
+
+		//If it is the first frame of the track
+		if (track.firstTimestamp === undefined)
+		{
+			track.firstTimestamp = frame.timestamp;
+			//Align with other tracks
+			track.firstDts = Math.max(Math.round((frame.time - this.startTime) * track.timescale / 1000), 0);
+		}
+
+		//Get decode time
+		const dts = frame.timestamp - track.firstTimestamp + track.firstDts;
+
+		//If we had a pending sample
+		if (track.pending)
+		{
+			//Drop out of order frames
+			if (dts < track.pending.dts)
+				return false;
+			//Now we know its duration
+			track.pending.duration = track.lastDuration = dts - track.pending.dts;
+			//Ready to be written
+			track.samples.push(track.pending);
+		}
+
+		//Wait for next one
+		track.pending = {
+			data	: data,
+			dts	: dts,
+			duration: 0,
+			//All audio frames are sync samples
+			isIntra	: track.type === "audio" || frame.isIntra,
+		};
+
+		return true;
+	}
+
+	/**
+	 * Get parameter sets from the out of band config
+	 */
+	private setOutOfBandConfig(track: Track, config: FragmentedMP4TrackConfig): void
+	{
+		//Decode base64 encoded nals
+		const decode = (sprop: string) => sprop.split(",").filter(nal => nal.length).map(nal => Buffer.from(nal, "base64"));
+
+		//Get nals for the codec
+		const nals = track.codec === "h264" && config.h264ParameterSets
+			? decode(config.h264ParameterSets)
+			: track.codec === "h265" && config.h265ParameterSets
+			? [config.h265ParameterSets.vps, config.h265ParameterSets.sps, config.h265ParameterSets.pps].flatMap(decode)
+			: [];
+		//Keep them
+		for (const nal of nals)
+			if (nal.length)
+				this.processNal(track, nal);
+
+		//Store av1 config
+		if (track.codec === "av1")
+			track.av1Config = config.av1Config;
+	}
+
+	/**
+	 * Keep h264 and h265 parameter sets
+	 * @returns {Boolean} if the nal has to be written on the sample
+	 */
+	private processNal(track: Track, nal: Buffer): boolean
+	{
+		//If it is h264
+		if (track.codec === "h264")
+		{
+			switch (nal[0] & 0x1f)
+			{
+				case 7:
+					track.sps = nal;
+					break;
+				case 8:
+					track.pps = nal;
+					break;
+				//Access unit delimiter
+				case 9:
+					return false;
+			}
+		} else {
+			switch ((nal[0] >> 1) & 0x3f)
+			{
+				case 32:
+					track.vps = nal;
+					break;
+				case 33:
+					try {
+						//Parse it, as it is needed for the hvcC box
+						track.h265SPS = parseH265SPS(nal);
+						track.sps = nal;
+					} catch (e) {
+						//Invalid sps, keep previous one
+					}
+					break;
+				case 34:
+					track.pps = nal;
+					break;
+				//Access unit delimiter
+				case 35:
+					return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Check if we have the codec configuration required for the moov box
+	 */
+	private isConfigured(track: Track): boolean
+	{
+		switch (track.codec)
+		{
+			case "h264":
+				return !!(track.sps && track.pps);
+			case "h265":
+				return !!(track.vps && track.sps && track.pps);
+			case "av1":
+				return !!(track.av1SequenceHeader || track.av1Config);
+			default:
+				return true;
+		}
+	}
+
+	/**
+	 * Write all pending samples on a new fragment
+	 * @param {Boolean} [final]	- Write also last sample of each track
+	 */
+	private writeFragment(final: boolean = false): void
+	{
+		//If it is the first one
+		if (!this.sequenceNumber)
+		{
+			//Get tracks with samples that can be described on the moov box
+			const tracks = Array.from(this.tracks.values()).filter(track =>
+				(track.samples.length || (final && track.pending)) &&
+				this.isConfigured(track)
+			);
+			//Wait until we have any
+			if (!tracks.length)
+				return;
+			//Get expected tracks, the configured ones may have not received any frame yet
+			const expected = new Set([...this.configs.keys(), ...this.tracks.keys()]);
+			//If not all of them are ready
+			if (tracks.length < expected.size)
+			{
+				//Wait for them unless closing or timed out
+				if (!final && Date.now() < this.moovDeadline!)
+					return;
+				//Get the ones that won't be recorded
+				const missing = Array.from(expected).filter(id => !tracks.some(track => track.id === id));
+				//Emit event
+				this.emit("missingtracks", missing, this);
+			}
+			//Those are the tracks of the file, the others are kept but not written
+			for (const track of tracks)
+				track.inMoov = true;
+			//Write initialization segment
+			this.write(Buffer.concat([this.createFtyp(), this.createMoov(tracks)]), {
+				init		: true,
+				sequenceNumber	: 0,
+				start		: 0,
+				duration	: 0,
+			});
+		}
+
+		//Get tracks with samples
+		const tracks: Array<{ track: Track, samples: Sample[] }> = [];
+		for (const track of this.tracks.values())
+		{
+			//Skip tracks not present on the moov box
+			if (!track.inMoov)
+			{
+				//Discard its media
+				track.samples = [];
+				track.pending = undefined;
+				continue;
+			}
+			//If it is the final one
+			if (final && track.pending)
+			{
+				//Use last duration for last sample
+				track.pending.duration = track.lastDuration;
+				track.samples.push(track.pending);
+				track.pending = undefined;
+			}
+			//Skip empty
+			if (!track.samples.length)
+				continue;
+			//Get samples
+			tracks.push({ track, samples: track.samples });
+			track.samples = [];
+		}
+
+		//If nothing to write
+		if (!tracks.length)
+			return;
+
+		//Next fragment
+		const sequenceNumber = ++this.sequenceNumber;
+
+		//Create moof with zero data offsets to get its size
+		const size = this.createMoof(sequenceNumber, tracks, 0).length;
+		//Create it again with right offsets, data starts after mdat header
+		const moof = this.createMoof(sequenceNumber, tracks, size + 8);
+		//Create mdat
+		const mdat = box("mdat", ...tracks.flatMap(entry => entry.samples.map(sample => sample.data)));
+
+		//Get fragment time span in ms
+		const end = Math.max(...tracks.map(({ track, samples }) => {
+			const last = samples[samples.length - 1];
+			return (last.dts + last.duration) * 1000 / track.timescale;
+		}));
+		const start = this.fragmentStart;
+		this.fragmentStart = Math.max(end, start);
+
+		//Write it
+		this.write(Buffer.concat([moof, mdat]), {
+			init		: false,
+			sequenceNumber	: sequenceNumber,
+			start		: start,
+			duration	: this.fragmentStart - start,
+		});
+	}
+
+	/**
+	 * Write data to file and emit fragment event when done
+	 */
+	private write(data: Buffer, info: Omit<FragmentInfo, "offset" | "size">): void
+	{
+		//Get position
+		const fragment = { offset: this.offset, size: data.length, ...info };
+		//Update file position
+		this.offset += data.length;
+		//Write it
+		this.stream.write(data, (error) => {
+			//If written
+			if (!error)
+				this.emit("fragment", fragment, this);
+		});
+	}
+
+	private createFtyp(): Buffer
+	{
+		return box("ftyp",
+			Buffer.from("iso5", "ascii"),
+			uint(4, 512),
+			Buffer.from("iso5iso6mp41", "ascii"),
+		);
+	}
+
+	private createMoov(tracks: Track[]): Buffer
+	{
+		return box("moov",
+			fullBox("mvhd", 0, 0,
+				uint(4, 0, 0, 1000, 0),
+				uint(4, 0x00010000),
+				uint(2, 0x0100),
+				Buffer.alloc(10),
+				uint(4, ...matrix),
+				Buffer.alloc(24),
+				uint(4, Math.max(...tracks.map(track => track.id)) + 1),
+			),
+			...tracks.map(track => this.createTrak(track)),
+			box("mvex", ...tracks.map(track => fullBox("trex", 0, 0, uint(4, track.id, 1, 0, 0, 0)))),
+		);
+	}
+
+	private createTrak(track: Track): Buffer
+	{
+		const isVideo = track.type === "video";
+		return box("trak",
+			//Enabled and in movie
+			fullBox("tkhd", 0, 3,
+				uint(4, 0, 0, track.id, 0, 0),
+				Buffer.alloc(8),
+				uint(2, 0, 0, isVideo ? 0 : 0x0100, 0),
+				uint(4, ...matrix),
+				uint(4, track.width << 16, track.height << 16),
+			),
+			box("mdia",
+				//Undetermined language
+				fullBox("mdhd", 0, 0, uint(4, 0, 0, track.timescale, 0), uint(2, 0x55c4, 0)),
+				fullBox("hdlr", 0, 0,
+					uint(4, 0),
+					Buffer.from(isVideo ? "vide" : "soun", "ascii"),
+					Buffer.alloc(12),
+					Buffer.from(isVideo ? "VideoHandler\0" : "SoundHandler\0", "ascii"),
+				),
+				box("minf",
+					isVideo ? fullBox("vmhd", 0, 1, uint(2, 0, 0, 0, 0)) : fullBox("smhd", 0, 0, uint(2, 0, 0)),
+					box("dinf", fullBox("dref", 0, 0, uint(4, 1), fullBox("url ", 0, 1))),
+					box("stbl",
+						fullBox("stsd", 0, 0, uint(4, 1), this.createSampleEntry(track)),
+						fullBox("stts", 0, 0, uint(4, 0)),
+						fullBox("stsc", 0, 0, uint(4, 0)),
+						fullBox("stsz", 0, 0, uint(4, 0, 0)),
+						fullBox("stco", 0, 0, uint(4, 0)),
+					),
+				),
+			),
+		);
+	}
+
+	private createSampleEntry(track: Track): Buffer
+	{
+		//Audio
+		if (track.type === "audio")
+			return box("Opus",
+				Buffer.alloc(6),
+				uint(2, 1),
+				Buffer.alloc(8),
+				uint(2, 2, 16, 0, 0),
+				uint(4, 48000 << 16 >>> 0),
+				//Stereo, no pre skip, 48khz, no gain, mapping family 0
+				box("dOps", uint(1, 0, 2), uint(2, 0), uint(4, 48000), uint(2, 0), uint(1, 0)),
+			);
+
+		//Get codec config
+		let type: string, config: Buffer;
+		if (track.codec === "h264")
+		{
+			const sps = track.sps!;
+			const pps = track.pps!;
+			type = "avc1";
+			config = box("avcC",
+				//Version, profile, compatibility and level
+				uint(1, 1, sps[1], sps[2], sps[3]),
+				//4 bytes nal length, one sps
+				uint(1, 0xff, 0xe1),
+				uint(2, sps.length), sps,
+				//One pps
+				uint(1, 1),
+				uint(2, pps.length), pps,
+			);
+		} else if (track.codec === "h265") {
+			const sps = track.h265SPS!;
+			type = "hvc1";
+			config = box("hvcC",
+				//Version, profile, compatibility, constraints and level
+				uint(1, 1, (sps.profileSpace << 6) | (sps.tierFlag << 5) | sps.profileIdc),
+				uint(4, sps.compatibilityFlags),
+				uint(1, ...sps.constraintFlags, sps.levelIdc),
+				//No min spatial segmentation and unknown parallelism
+				uint(2, 0xf000),
+				uint(1, 0xfc),
+				//Chroma format and bit depths
+				uint(1, 0xfc | sps.chromaFormat, 0xf8 | sps.bitDepthLumaMinus8, 0xf8 | sps.bitDepthChromaMinus8),
+				//Unknown frame rate
+				uint(2, 0),
+				//Temporal layers and 4 bytes nal length
+				uint(1, ((sps.maxSubLayersMinus1 + 1) << 3) | (sps.temporalIdNested << 2) | 3),
+				//One complete array of each parameter set
+				uint(1, 3),
+				...([[32, track.vps!], [33, track.sps!], [34, track.pps!]] as Array<[number, Buffer]>).map(([type, nal]) => Buffer.concat([
+					uint(1, 0x80 | type),
+					uint(2, 1, nal.length),
+					nal,
+				])),
+			);
+		} else if (track.codec === "av1") {
+			let info: AV1SequenceHeaderInfo | undefined;
+			try {
+				//Get level and tier from sequence header
+				info = track.av1SequenceHeader && parseAV1SequenceHeader(track.av1SequenceHeader);
+			} catch (e) {
+				//Use the out of band config
+			}
+			//Get values, defaults are the ones of the AV1 RTP payload format
+			const profile = info?.profile ?? track.av1Config?.profile ?? 0;
+			const levelIdx = info?.levelIdx ?? track.av1Config?.levelIdx ?? 5;
+			const tier = info?.tier ?? track.av1Config?.tier ?? 0;
+			//Chroma subsampling x and y for each profile, 4:2:0 on main, 4:4:4 on high and 4:2:2 on professional
+			const subsampling = profile === 0 ? 3 : profile === 1 ? 0 : 2;
+			type = "av01";
+			config = box("av1C",
+				//Marker and version
+				uint(1, 0x81),
+				uint(1, (profile << 5) | levelIdx),
+				//8 bits depth, no monochrome and unknown chroma sample position
+				uint(1, (tier << 7) | (subsampling << 2)),
+				//No presentation delay
+				uint(1, 0),
+				//Sequence header obu if available
+				track.av1SequenceHeader ?? Buffer.alloc(0),
+			);
+		} else {
+			type = track.codec === "vp8" ? "vp08" : "vp09";
+			//Profile 0, level 1.0, 8 bits, 4:2:0 colocated, BT.709
+			config = fullBox("vpcC", 1, 0, uint(1, 0, 10, 0x82, 1, 1, 1), uint(2, 0));
+		}
+
+		return box(type,
+			Buffer.alloc(6),
+			uint(2, 1),
+			Buffer.alloc(16),
+			uint(2, track.width, track.height),
+			//72 dpi
+			uint(4, 0x00480000, 0x00480000, 0),
+			uint(2, 1),
+			Buffer.alloc(32),
+			uint(2, 0x0018, 0xffff),
+			config,
+		);
+	}
+
+	private createMoof(sequenceNumber: number, tracks: Array<{ track: Track, samples: Sample[] }>, dataOffset: number): Buffer
+	{
+		const trafs: Buffer[] = [];
+		//Offset from the start of moof
+		let offset = dataOffset;
+		for (const { track, samples } of tracks)
+		{
+			trafs.push(box("traf",
+				//Default base is moof
+				fullBox("tfhd", 0, 0x020000, uint(4, track.id)),
+				fullBox("tfdt", 1, 0, uint(8, samples[0].dts)),
+				//Data offset, sample duration, size and flags present
+				fullBox("trun", 0, 0x000701,
+					uint(4, samples.length, offset),
+					...samples.map(sample => uint(4,
+						sample.duration,
+						sample.data.length,
+						//Sync samples don't depend on others, non sync samples are marked as such
+						sample.isIntra ? 0x02000000 : 0x01010000,
+					)),
+				),
+			));
+			//Next track data
+			offset += samples.reduce((sum, sample) => sum + sample.data.length, 0);
+		}
+		return box("moof", fullBox("mfhd", 0, 0, uint(4, sequenceNumber)), ...trafs);
+	}
+
+	/**
+	 * Write pending samples and close file
+	 * @returns {Promise<void>} - Rejected if the file could not be written
+	 */
+	async close(): Promise<void>
+	{
+		//Don't call it twice
+		if (this.closed) return;
+
+		//Stop timer
+		clearInterval(this.timer);
+
+		//Write all remaining samples if file is still writable
+		if (!this.error)
+			this.writeFragment(true);
+
+		//Closed
+		this.closed = true;
+
+		try {
+			//Wait for file to be closed
+			await new Promise<void>((resolve, reject) => {
+				//If already failed
+				if (this.error)
+				{
+					//Release file
+					this.stream.destroy();
+					return reject(this.error);
+				}
+				//Fail if flushing pending data fails
+				this.stream.once("error", reject);
+				this.stream.end(() => this.error ? reject(this.error) : resolve());
+			});
+		} finally {
+			this.emit("stopped", this);
+
+			//Stop emitter
+			super.stop();
+		}
+	}
+}
@@ -0,0 +1,439 @@
+import * as http from "http";
+import Emitter from "medooze-event-emitter";
+import {
+	SDPInfo,
+	ICEInfo,
+	CandidateInfo,
+	Capabilities,
+} from "semantic-sdp";
+import {Endpoint, CreateTransportOptions} from "./Endpoint";
+import {Transport} from "./Transport";
+
+/** Content of a trickle ICE sdp fragment (RFC 8840) */
+interface TrickleICEFragment {
+	/** ICE credentials, only present on ICE restarts or when provided by the client */
+	ice?: ICEInfo;
+	/** Remote candidates */
+	candidates: CandidateInfo[];
+}
+
+/** Error with the HTTP status code to be returned to the client */
+class HttpSignalingError extends Error
+{
+	readonly status: number;
+
+	constructor(status: number, message: string)
+	{
+		super(message);
+		this.name = "HttpSignalingError";
+		this.status = status;
+	}
+}
+
+/**
+ * Read the full body of an HTTP request
+ * @param {http.IncomingMessage} request
+ * @param {Number} [maxSize]	- Max body size in bytes
+ */
+function readBody(request: http.IncomingMessage, maxSize: number = 1024*1024): Promise<string>
+{
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		request.on("data", (chunk: Buffer) => {
+			//Check size
+			size += chunk.length;
+			if (size > maxSize)
+			{
+				//Error
+				reject(new HttpSignalingError(413, "Request body too large"));
+				//Stop reading
+				request.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+		request.on("error", reject);
+	});
+}
+
+/**
+ * Check request content type
+ * @param {http.IncomingMessage} request
+ * @param {String} contentType	- Expected content type
+ */
+function checkContentType(request: http.IncomingMessage, contentType: string): void
+{
+	//Get mime type without parameters
+	const mime = (request.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+	//Check it
+	if (mime !== contentType)
+		throw new HttpSignalingError(415, "Unsupported content type, expected " + contentType);
+}
+
+/**
+ * Parse a candidate attribute value
+ * @param {String} candidate - Candidate line, with or without the "candidate:" prefix
+ */
+function parseCandidate(candidate: string): CandidateInfo
+{
+	//Split
+	const parts = candidate.replace(/^a=/,"").replace(/^candidate:/,"").trim().split(/\s+/);
+	//Check mandatory fields
+	if (parts.length < 8 || parts[6] !== "typ")
+		throw new HttpSignalingError(400, "Invalid candidate " + candidate);
+	//Get optional related address
+	let relAddr, relPort;
+	for (let i = 8; i + 1 < parts.length; i += 2)
+	{
+		if (parts[i] === "raddr")
+			relAddr = parts[i + 1];
+		else if (parts[i] === "rport")
+			relPort = parseInt(parts[i + 1]);
+	}
+	//Create candidate
+	return new CandidateInfo(parts[0], parseInt(parts[1]), parts[2], parseInt(parts[3]), parts[4], parseInt(parts[5]), parts[7], relAddr, relPort);
+}
+
+/**
+ * Parse a trickle ICE sdp fragment
+ * @param {String} fragment - application/trickle-ice-sdpfrag content
+ */
+function parseTrickleICEFragment(fragment: string): TrickleICEFragment
+{
+	let ufrag, pwd;
+	const candidates: CandidateInfo[] = [];
+	//For each line
+	for (const line of fragment.split(/\r?\n/))
+	{
+		if (line.startsWith("a=ice-ufrag:"))
+			ufrag = line.substring(12).trim();
+		else if (line.startsWith("a=ice-pwd:"))
+			pwd = line.substring(10).trim();
+		else if (line.startsWith("a=candidate:"))
+			candidates.push(parseCandidate(line));
+	}
+	return {
+		ice		: ufrag && pwd ? new ICEInfo(ufrag, pwd) : undefined,
+		candidates	: candidates,
+	};
+}
+
+/**
+ * Create a trickle ICE sdp fragment with local ICE info and candidates
+ * @param {ICEInfo} ice			- Local ICE credentials
+ * @param {CandidateInfo[]} candidates	- Local candidates
+ * @param {String[]} mids		- Media ids of the session
+ */
+function createTrickleICEFragment(ice: ICEInfo, candidates: CandidateInfo[], mids: string[]): string
+{
+	const lines = [
+		"a=ice-ufrag:" + ice.getUfrag(),
+		"a=ice-pwd:" + ice.getPwd(),
+	];
+	//For each media
+	for (const mid of mids)
+	{
+		lines.push("m=audio 9 RTP/AVP 0");
+		lines.push("a=mid:" + mid);
+		//Add all candidates
+		for (const candidate of candidates)
+			lines.push("a=candidate:" + [
+				candidate.getFoundation(),
+				candidate.getComponentId(),
+				candidate.getTransport(),
+				candidate.getPriority(),
+				candidate.getAddress(),
+				candidate.getPort(),
+				"typ",
+				candidate.getType()
+			].join(" "));
+	}
+	return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Process a trickle ICE or ICE restart PATCH request on a transport
+ * The If-Match header, if present, must match the ETag of the current ICE session
+ * @param {Transport} transport
+ * @param {CandidateInfo[]} localCandidates	- Local candidates to send on ICE restarts
+ * @param {String[]} mids			- Media ids of the session
+ * @param {http.IncomingMessage} request
+ * @param {http.ServerResponse} response
+ */
+async function patchTransport(transport: Transport, localCandidates: CandidateInfo[], mids: string[], request: http.IncomingMessage, response: http.ServerResponse): Promise<void>
+{
+	//Check content type
+	checkContentType(request, "application/trickle-ice-sdpfrag");
+
+	//Get entity tag of current ICE session
+	const etag = `"${transport.getLocalICEInfo().getUfrag()}"`;
+	//Get precondition, "*" is used by clients on ICE restarts
+	const ifMatch = request.headers["if-match"];
+	//If it was for a previous ICE session
+	if (ifMatch && ifMatch.trim() !== "*" && !ifMatch.split(",").some(tag => tag.trim() === etag))
+		throw new HttpSignalingError(412, "ICE session has changed");
+
+	//Parse fragment
+	const fragment = parseTrickleICEFragment(await readBody(request));
+
+	//If ICE is restarted
+	if (fragment.ice && fragment.ice.getUfrag() !== transport.getRemoteICEInfo().getUfrag())
+	{
+		//Restart ICE with new local credentials
+		const localICE = transport.restartICE(fragment.ice, ICEInfo.generate(true));
+		//Add new candidates
+		transport.addRemoteCandidates(fragment.candidates);
+		//Send new local credentials and candidates
+		response.writeHead(200, {
+			"Content-Type"	: "application/trickle-ice-sdpfrag",
+			"ETag"		: `"${localICE.getUfrag()}"`,
+		});
+		response.end(createTrickleICEFragment(localICE, localCandidates, mids));
+		return;
+	}
+
+	//Add trickled candidates
+	transport.addRemoteCandidates(fragment.candidates);
+
+	//Done
+	response.writeHead(204);
+	response.end();
+}
+
+/**
+ * Send an error response
+ * @param {http.ServerResponse} response
+ * @param {unknown} error
+ */
+function sendError(response: http.ServerResponse, error: unknown): void
+{
+	//Get status
+	const status = error instanceof HttpSignalingError ? error.status : 500;
+	//If already sent
+	if (response.headersSent)
+		//Just end it
+		return void response.end();
+	//Send it
+	response.writeHead(status, { "Content-Type": "text/plain" });
+	response.end(error instanceof Error ? error.message : String(error));
+}
+
+/** Session created by an HTTP signaling client */
+interface HttpSignalingResource {
+	id: string;
+	/** Resource url path, returned on the Location header */
+	location: string;
+	transport: Transport;
+	/** Media ids of the session, needed for trickle ICE fragments */
+	mids: string[];
+}
+
+interface HttpSignalingServerEvents<Self> {
+	/** Declared as a method so subclasses can narrow `self` to their own type */
+	stopped(self: Self): void;
+}
+
+/**
+ * Common base of the WHIP and WHEP servers, handles the attached http servers and the resource requests
+ */
+abstract class HttpSignalingServer<Resource extends HttpSignalingResource, Events extends HttpSignalingServerEvents<HttpSignalingServer<Resource, Events>> & Emitter.ListenerSignature<Events>> extends Emitter<Events>
+{
+	endpoint: Endpoint;
+	capabilities: Capabilities;
+	path: string;
+	resources: Map<string, Resource>;
+	servers: Set<http.Server>;
+
+	constructor(
+		endpoint: Endpoint,
+		capabilities: Capabilities,
+		path: string)
+	{
+		//Init emitter
+		super();
+
+		//Store stuff
+		this.endpoint = endpoint;
+		this.capabilities = capabilities;
+		//Remove trailing slash
+		this.path = path.replace(/\/+$/,"");
+
+		//The sessions
+		this.resources = new Map();
+		//The attached servers
+		this.servers = new Set();
+
+		// bind `this` since this function will be called by event handler
+		this.onEndpointStopped = this.onEndpointStopped.bind(this);
+		this.onRequest = this.onRequest.bind(this);
+
+		//Stop when endpoint stop
+		this.endpoint.once("stopped", this.onEndpointStopped);
+	}
+
+	private onEndpointStopped(): void {
+		this.stop();
+	}
+
+	private onRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+		this.handleRequest(request, response);
+	}
+
+	/**
+	 * Handle an http request
+	 * @param {http.IncomingMessage} request
+	 * @param {http.ServerResponse} response
+	 * @returns {boolean} true if the request was for this server and it will be responded
+	 */
+	abstract handleRequest(request: http.IncomingMessage, response: http.ServerResponse): boolean;
+
+	/**
+	 * Handle requests on an http server, requests for other paths are ignored
+	 * @param {http.Server} server
+	 */
+	attachTo(server: http.Server): void
+	{
+		//Add listener
+		server.on("request", this.onRequest);
+		//Store it
+		this.servers.add(server);
+	}
+
+	/**
+	 * Stop handling requests on an http server
+	 * @param {http.Server} server
+	 */
+	detachFrom(server: http.Server): void
+	{
+		//Remove listener
+		server.off("request", this.onRequest);
+		//Remove it
+		this.servers.delete(server);
+	}
+
+	/**
+	 * Get session by id
+	 * @param {String} id
+	 */
+	getResource(id: string): Resource | undefined
+	{
+		return this.resources.get(id);
+	}
+
+	/**
+	 * Create a transport for an offer and answer it
+	 * On failure the transport is stopped and a 400 error thrown
+	 * @param {SDPInfo} offer
+	 * @param {CreateTransportOptions} [options]	- Options for the created transport
+	 * @param {Function} [setup]			- Called with the transport and answer before responding, to create the streams
+	 */
+	protected createTransport(offer: SDPInfo, options?: CreateTransportOptions, setup?: (transport: Transport, answer: SDPInfo) => void): { transport: Transport, answer: SDPInfo }
+	{
+		let transport: Transport;
+		try {
+			//Create an DTLS ICE transport in that enpoint
+			transport = this.endpoint.createTransport(offer, undefined, options);
+		} catch (e) {
+			//Missing or wrong ICE/DTLS info
+			throw new HttpSignalingError(400, "Invalid SDP offer: " + (e instanceof Error ? e.message : String(e)));
+		}
+
+		try {
+			//Set RTP remote properties
+			transport.setRemoteProperties(offer);
+
+			//Create local SDP info
+			const answer = offer.answer({
+				dtls		: transport.getLocalDTLSInfo(),
+				ice		: transport.getLocalICEInfo(),
+				candidates	: this.endpoint.getLocalCandidates(),
+				capabilities	: this.capabilities
+			});
+
+			//Set RTP local  properties
+			transport.setLocalProperties(answer);
+
+			//Create streams
+			setup?.(transport, answer);
+
+			return { transport, answer };
+		} catch (e) {
+			//Don't leak the transport, it will stop the created streams too
+			transport.stop();
+			//The offer could not be applied
+			throw new HttpSignalingError(400, "Invalid SDP offer: " + (e instanceof Error ? e.message : String(e)));
+		}
+	}
+
+	/**
+	 * Process a trickle ICE, ICE restart or delete request on a session
+	 * @param {Resource} resource
+	 * @param {http.IncomingMessage} request
+	 * @param {http.ServerResponse} response
+	 */
+	protected async processResourceRequest(resource: Resource, request: http.IncomingMessage, response: http.ServerResponse): Promise<void>
+	{
+		switch (request.method)
+		{
+			case "PATCH":
+				return patchTransport(resource.transport, this.endpoint.getLocalCandidates(), resource.mids, request, response);
+			case "DELETE":
+				//Stop transport, resource will be removed on stopped event
+				resource.transport.stop();
+				response.writeHead(200);
+				response.end();
+				return;
+			default:
+				throw new HttpSignalingError(405, "Method not allowed");
+		}
+	}
+
+	/**
+	 * Stop the server and all the transports created by it
+	 */
+	stop(): void
+	{
+		//Chheck not stopped alrady
+		if (!this.endpoint)
+			//Do nothing
+			return;
+
+		//Don't listen for stopped event
+		this.endpoint.off("stopped", this.onEndpointStopped);
+
+		//Detach from all servers
+		for (const server of this.servers)
+			this.detachFrom(server);
+
+		//For all resources
+		for (const resource of this.resources.values())
+			//Stop transport
+			resource.transport.stop();
+
+		this.emit("stopped", ...[this] as Parameters<Events["stopped"]>);
+
+		//Stop emitter
+		super.stop();
+
+		//Null
+		//@ts-expect-error
+		this.endpoint = null;
+	}
+}
+
+export {
+	HttpSignalingError,
+	HttpSignalingResource,
+	HttpSignalingServerEvents,
+	HttpSignalingServer,
+	TrickleICEFragment,
+	readBody,
+	checkContentType,
+	parseCandidate,
+	parseTrickleICEFragment,
+	createTrickleICEFragment,
+	patchTransport,
+	sendError,
+};
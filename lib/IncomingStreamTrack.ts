@@ -6,10 +6,25 @@ import {
     TrackType, 
     TrackInfo, 
     TrackEncodingInfo, 
-    SourceGroupInfo 
+    SourceGroupInfo,
+    MediaInfo
 } from "semantic-sdp";
 import { SSRCs } from "./Transport";
 
+/** Out of band H265 parameter sets, base64 encoded as in the SDP sprop-vps, sprop-sps and sprop-pps parameters */
+export interface H265ParameterSets {
+    vps: string;
+    sps: string;
+    pps: string;
+}
+
+/** Out of band AV1 configuration from the SDP codec parameters */
+export interface AV1Config {
+    profile?: number;
+    levelIdx?: number;
+    tier?: number;
+}
+
 /** Information about each spatial/temporal layer (if present) */
 export interface LayerStats {
     active?: boolean;
@@ -585,6 +600,29 @@ export interface IncomingStreamTrackEvents<Self, Encoding> {
     detached: (self: Self) => void;
     muted: (muted: boolean) => void;
     stopped: (self: Self, stats?: IncomingTrackStats) => void;
+	/** An intra frame has been requested by a consumer (right now, this is only used by {@link IncomingStreamTrackFrameInjector}) */
+    refresh: (self: Self) => void;
+	/**
+	 * Audio level of the last interval (`level` is the loudest one from 0 to 1, `voiceActivity` is set if voice was detected on any packet).
+	 * Not emitted by default, {@link IncomingStreamTrack.setAudioLevelInterval} must be called to enable it
+	 */
+    audiolevel: (level: number, voiceActivity: boolean, self: Self) => void;
+}
+
+/** Audio level signaled by the sender on the ssrc-audio-level rtp header extension */
+export interface AudioLevel {
+	/** Linear audio level from 0 (silence) to 1 (0 dBov) */
+    level: number;
+	/** Audio level in -dBov from 0 (loudest) to 127 (silence) */
+    dBov: number;
+	/** Voice activity flag */
+    voiceActivity: boolean;
+}
+
+/** Convert -dBov to linear level, 127 is silence */
+function getLinearAudioLevel(dBov: number): number
+{
+	return dBov >= 127 ? 0 : Math.pow(10, -dBov / 20);
 }
 
 /**
@@ -605,6 +643,12 @@ export class IncomingStreamTrack extends Emitter<IncomingStreamTrackEvents<Incom
     depacketizer: SharedPointer.Proxy<Native.SimulcastMediaFrameListenerShared | Native.RTPIncomingMediaStreamDepacketizerShared>;
     private stopped?: boolean;
     private h264ParameterSets?: string;
+    private h265ParameterSets?: H265ParameterSets;
+    private av1Config?: AV1Config;
+    private audioLevelListener?: Native.AudioLevelListenerFacade;
+
+	// native callback
+	private onaudiolevel?: (dBov: number, vad: boolean) => void;
 
 	constructor(
         media: TrackType,
@@ -660,6 +704,19 @@ export class IncomingStreamTrack extends Emitter<IncomingStreamTrackEvents<Incom
 			//This is the single depaquetizer, so reause it
 			this.depacketizer = this.getDefaultEncoding().depacketizer;
 		}
+
+		//If it is audio
+		if (media === "audio" && num)
+		{
+			//Emit throttled audio level events
+			this.onaudiolevel = (dBov: number, vad: boolean) => {
+				this.emit("audiolevel", getLinearAudioLevel(dBov), vad, this);
+			};
+			//Create native listener
+			this.audioLevelListener = new Native.AudioLevelListenerFacade(this);
+			//Listen for audio levels on the default encoding
+			this.audioLevelListener.AttachTo(SharedPointer.getPointer(this.getDefaultEncoding().source));
+		}
 	}
 
 	addIncomingSource(id: string, source: SharedPointer.Proxy<Native.RTPIncomingSourceGroupShared>): void
@@ -952,6 +1009,37 @@ export class IncomingStreamTrack extends Emitter<IncomingStreamTrackEvents<Incom
 		}
 	}
 
+	/**
+	 * Get last audio level received on the audio track
+	 * @returns {AudioLevel | null} Audio level, or null if not audio or the sender does not signal it
+	 */
+	getAudioLevel(): AudioLevel | null
+	{
+		//Check we have received any
+		if (!this.audioLevelListener || !this.audioLevelListener.HasAudioLevel())
+			return null;
+		//Get it
+		const dBov = this.audioLevelListener.GetLevel();
+		return {
+			level		: getLinearAudioLevel(dBov),
+			dBov		: dBov,
+			voiceActivity	: this.audioLevelListener.GetVAD(),
+		};
+	}
+
+	/**
+	 * Set the interval of the `audiolevel` events of the audio track, they are disabled by default
+	 * @param {Number} interval - Minimum time in ms between events, 0 to disable them
+	 */
+	setAudioLevelInterval(interval: number): void
+	{
+		//Check it is audio
+		if (!this.audioLevelListener)
+			throw new Error("Audio level is only available on audio tracks");
+		//Set it
+		this.audioLevelListener.SetInterval(interval);
+	}
+
 	/**
 	 * Return if the track is attached or not
 	 */
@@ -1002,6 +1090,100 @@ export class IncomingStreamTrack extends Emitter<IncomingStreamTrackEvents<Incom
 		return this.h264ParameterSets;
 	}
 
+	/**
+	 * Store out of band h265 properties for this track
+	 * @param {H265ParameterSets} sprops Base64 encoded parameters from SDP
+	 */
+	setH265ParameterSets(sprops: H265ParameterSets): void
+	{
+		this.h265ParameterSets = sprops;
+	}
+	
+	/**
+	 * Check if track has out of band h265 properties
+	 * @returns {Boolean} 
+	 */
+	hasH265ParameterSets()
+	{
+		return !!this.h265ParameterSets;
+	}
+	
+	/**
+	 * Get out of band h265 parameters from this track
+	 * @returns {H265ParameterSets | undefined} 
+	 */
+	getH265ParameterSets()
+	{
+		return this.h265ParameterSets;
+	}
+
+	/**
+	 * Store out of band av1 configuration for this track
+	 * @param {AV1Config} config AV1 parameters from SDP
+	 */
+	setAV1Config(config: AV1Config): void
+	{
+		this.av1Config = config;
+	}
+	
+	/**
+	 * Check if track has out of band av1 configuration
+	 * @returns {Boolean} 
+	 */
+	hasAV1Config()
+	{
+		return !!this.av1Config;
+	}
+	
+	/**
+	 * Get out of band av1 configuration from this track
+	 * @returns {AV1Config | undefined} 
+	 */
+	getAV1Config()
+	{
+		return this.av1Config;
+	}
+
+	/**
+	 * Store the out of band codec configuration present on the SDP codec parameters
+	 * @param {MediaInfo} media Remote media info
+	 */
+	setOutOfBandParameters(media: MediaInfo): void
+	{
+		//Try to get h264 codec
+		const h264 = media.getCodec("h264");
+		//if it is h264 and has the sprop-parameter
+		if (h264 && h264.hasParam("sprop-parameter-sets"))
+			//Set h264 props
+			this.setH264ParameterSets(h264.getParam("sprop-parameter-sets"));
+
+		//Try to get h265 codec
+		const h265 = media.getCodec("h265");
+		//if it is h265 and has all the sprop parameters
+		if (h265 && h265.hasParam("sprop-vps") && h265.hasParam("sprop-sps") && h265.hasParam("sprop-pps"))
+			//Set h265 props
+			this.setH265ParameterSets({
+				vps : h265.getParam("sprop-vps"),
+				sps : h265.getParam("sprop-sps"),
+				pps : h265.getParam("sprop-pps"),
+			});
+
+		//Try to get av1 codec
+		const av1 = media.getCodec("av1");
+		//If it is av1
+		if (av1)
+		{
+			//Get numeric param if present
+			const getParam = (name: string) => av1.hasParam(name) ? parseInt(av1.getParam(name)) : undefined;
+			//Set av1 config
+			this.setAV1Config({
+				profile		: getParam("profile"),
+				levelIdx	: getParam("level-idx"),
+				tier		: getParam("tier"),
+			});
+		}
+	}
+
 	/**
 	 * Override the maximum period of time to wait for an out of order or rtx packet
 	 * @param {Number} maxWaitTime max wait time in ms (default: 0 if rtx is not supported or rtt based)
@@ -1035,6 +1217,9 @@ export class IncomingStreamTrack extends Emitter<IncomingStreamTrackEvents<Incom
 		//Stopped
 		this.stopped = true;
 		
+		//Stop listening for audio levels
+		this.audioLevelListener?.Detach();
+		
 		//for each encoding
 		for (let encoding of this.encodings.values())
 		{	
@@ -1066,6 +1251,8 @@ export class IncomingStreamTrack extends Emitter<IncomingStreamTrackEvents<Incom
 		//Remove transport reference, so destructor is called on GC
 		//@ts-expect-error
 		this.receiver = null;
+		//Remove native listener
+		this.audioLevelListener = undefined;
 	}
 
 	static sortByBitrateReverse = sortByBitrateReverse;
@@ -0,0 +1,240 @@
+import * as Native from "./Native";
+import * as SharedPointer from "./SharedPointer";
+import * as Utils from "./Utils";
+import {EncodingStats, IncomingStreamTrack} from "./IncomingStreamTrack";
+import {TrackType} from "semantic-sdp";
+
+/** Per frame type counters of the injected frames */
+export interface FrameTypeStats {
+	/** number of intra frames pushed */
+	iframes: number;
+	/** number of intra frames pushed during last second */
+	iframesDelta: number;
+	/** number of predicted frames pushed */
+	pframes: number;
+	/** number of predicted frames pushed during last second */
+	pframesDelta: number;
+	/** number of bidirectional frames pushed */
+	bframes: number;
+	/** number of bidirectional frames pushed during last second */
+	bframesDelta: number;
+}
+
+/** Stats for the injected encoding, including per frame type counters */
+export type FrameInjectionEncodingStats = EncodingStats & { frames: FrameTypeStats };
+
+/** Track stats for the frame injection track */
+export type FrameInjectionTrackStats = { [encodingId: string]: FrameInjectionEncodingStats };
+
+/** Options for {@link IncomingStreamTrackFrameInjector.pushFrame} */
+export interface PushFrameOptions {
+	/** frame timestamp in codec clock rate units (90khz for video, codec rate for audio) */
+	timestamp: number;
+	/** mark frame as intra, only needed if it can't be detected from the bitstream */
+	isIntra?: boolean;
+	/** codec of the frame, if different from the one used when creating the track */
+	codec?: string;
+}
+
+function getFrameTypeStats(bridge: Native.MediaFrameListenerBridge): FrameTypeStats
+{
+	return {
+		iframes		: bridge.iframes,
+		iframesDelta	: bridge.iframesDelta,
+		pframes		: bridge.pframes,
+		pframesDelta	: bridge.pframesDelta,
+		bframes		: bridge.bframes,
+		bframesDelta	: bridge.bframesDelta,
+	};
+}
+
+/**
+ * Incoming track fed with encoded frames pushed from the application (transcoder output, file demuxer, test generator...).
+ * It can be used everywhere an {@link IncomingStreamTrack} is accepted, intra frame requests from the consumers are
+ * signaled with the `refresh` event so the application can push a new intra frame.
+ */
+export class IncomingStreamTrackFrameInjector extends IncomingStreamTrack
+{
+	codec: string;
+	bridge: SharedPointer.Proxy<Native.MediaFrameListenerBridgeShared>;
+	injector: SharedPointer.Proxy<Native.MediaFrameInjectorShared>;
+
+	constructor(
+		id: string,
+		media: TrackType,
+		mediaId: string,
+		codec: string,
+		timeService: Native.TimeService)
+	{
+		//Random ssrc for the injected stream
+		const ssrc = Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+		//Create the frame bridge
+		const bridge = SharedPointer.SharedPointer(new Native.MediaFrameListenerBridgeShared(timeService, ssrc));
+
+		//Create the source the packetized frames are delivered to
+		const source = SharedPointer.SharedPointer(new Native.RTPIncomingSourceGroupShared(Utils.mediaToFrameType(media), timeService));
+		//Set ids
+		source.mid		= mediaId;
+		source.media.ssrc	= ssrc;
+
+		//Native callbacks, set once the track is created
+		const listener = { onrefresh: () => {} };
+
+		//Create native injector feeding the source from the bridge
+		const injector = SharedPointer.SharedPointer(new Native.MediaFrameInjectorShared(listener, bridge, source));
+
+		//Check codec is supported
+		if (!injector.SetCodec(codec))
+		{
+			//Release native objects
+			injector.Stop();
+			bridge.Stop();
+			source.Stop();
+			//Error
+			throw new Error("Unsupported codec for frame injection: " + codec);
+		}
+
+		//Init track with the injector as the receiver of the intra frame requests
+		super(media, id, mediaId, timeService, SharedPointer.SharedPointer(injector.toRTPReceiver()), {"" : source});
+
+		//Store native objects
+		this.codec	= codec;
+		this.bridge	= bridge;
+		this.injector	= injector;
+
+		//Emit intra frame requests, ignoring the ones already queued when stopped
+		listener.onrefresh = () => this.injector && this.emit("refresh", this);
+	}
+
+	/**
+	 * Push an encoded frame into the track.
+	 * Video frames must be full access units in Annex B format (H264/H265), a single frame (VP8/VP9) or a temporal unit
+	 * in low overhead bitstream format (AV1), audio frames must be a single codec frame.
+	 * @param {Uint8Array} buffer		- Encoded frame
+	 * @param {PushFrameOptions} options	- Frame options
+	 * @returns {boolean} If the frame has been delivered
+	 */
+	pushFrame(buffer: Uint8Array, options: PushFrameOptions): boolean
+	{
+		//Check we are not stopped
+		if (!this.injector)
+			//Error
+			throw new Error("Cannot push frame, track is stopped");
+
+		//If codec has changed
+		if (options.codec && options.codec.toLowerCase() !== this.codec.toLowerCase())
+		{
+			//Switch injector codec
+			if (!this.injector.SetCodec(options.codec))
+			{
+				//Restore previous one
+				this.injector.SetCodec(this.codec);
+				//Error
+				throw new Error("Unsupported codec for frame injection: " + options.codec);
+			}
+			//Store new one
+			this.codec = options.codec;
+		}
+
+		//If muted, drop it
+		if (this.muted)
+			return false;
+
+		//Deliver it
+		return this.injector.Push(buffer, options.timestamp, 0, !!options.isIntra);
+	}
+
+	/**
+	 * Set bitrate hint for the injected stream, used by the outgoing transports bandwidth estimation
+	 * @param {Number} bitrate - Target bitrate in bps
+	 */
+	setTargetBitrateHint(bitrate: number): void
+	{
+		this.bridge.SetTargetBitrateHint(bitrate);
+	}
+
+	/**
+	 * Set maximum delay for frames before being dispatched
+	 * @param {Number} maxDelay - Max delay in ms
+	 */
+	setMaxDelay(maxDelay: number): void
+	{
+		this.bridge.SetMaxDelayMs(maxDelay);
+	}
+
+	/**
+	 * Set frame dispatch coordinator for synchronizing frame delivery with other tracks
+	 * @param {SharedPointer.Proxy<Native.FrameDispatchCoordinatorShared>} coordinator
+	 */
+	setFrameDispatchCoordinator(coordinator: SharedPointer.Proxy<Native.FrameDispatchCoordinatorShared>): void
+	{
+		this.bridge.SetFrameDispatchCoordinator(coordinator);
+	}
+
+	/**
+	 * Get stats for the injected encoding, including the per frame type counters
+	 * @returns {FrameInjectionTrackStats}
+	 */
+	getStats(): FrameInjectionTrackStats
+	{
+		//Get encoding stats
+		const stats = super.getStats() as FrameInjectionTrackStats;
+
+		//If they have been refreshed
+		if (stats[""] && !stats[""].frames && this.bridge)
+		{
+			//Update bridge counters
+			this.bridge.Update();
+			//Add frame counters
+			stats[""].frames = getFrameTypeStats(this.bridge.get());
+		}
+
+		return stats;
+	}
+
+	/**
+	 * Get stats for the injected encoding, including the per frame type counters
+	 * @returns {Promise<FrameInjectionTrackStats>}
+	 */
+	async getStatsAsync(): Promise<FrameInjectionTrackStats>
+	{
+		//Get encoding stats
+		const stats = await super.getStatsAsync() as FrameInjectionTrackStats;
+
+		//If they have been refreshed
+		if (stats[""] && !stats[""].frames && this.bridge)
+		{
+			//Update bridge counters async
+			await new Promise(resolve=>this.bridge.UpdateAsync({resolve}));
+			//Add frame counters if not stopped while waiting
+			if (this.bridge)
+				stats[""].frames = getFrameTypeStats(this.bridge.get());
+		}
+
+		return stats;
+	}
+
+	/**
+	 * Removes the track from the incoming stream and also detaches any attached outgoing track or recorder
+	 */
+	stop(): void
+	{
+		//Don't call it twice
+		if (!this.injector) return;
+
+		//Stop bridge, flushing pending packets
+		this.bridge.Stop();
+		//Stop injecting frames
+		this.injector.Stop();
+
+		//Stop track
+		super.stop();
+
+		//Remove native refs
+		//@ts-expect-error
+		this.injector = null;
+		//@ts-expect-error
+		this.bridge = null;
+	}
+}
@@ -10,6 +10,17 @@ export interface Frame {
     type: FrameType;
     codec: string;
     buffer: Uint8Array;
+	/** Frame timestamp in clock rate units */
+    timestamp: number;
+    clockRate: number;
+	/** Reception time in ms */
+    time: number;
+	/** If it is a video intra frame, always true for audio */
+    isIntra: boolean;
+	/** Video width, 0 for audio */
+    width: number;
+	/** Video height, 0 for audio */
+    height: number;
 }
 
 interface IncomingStreamTrackReaderEvents {
@@ -27,7 +38,7 @@ export class IncomingStreamTrackReader extends Emitter<IncomingStreamTrackReader
     stopped: boolean = false;
 
 	// native callback
-	private onframe: (buffer: Uint8Array,type: FrameType,codec: string,) => void;
+	private onframe: (buffer: Uint8Array,type: FrameType,codec: string,timestamp: number,clockRate: number,time: number,isIntra: boolean,width: number,height: number) => void;
 
 	constructor(
 		intraOnly: boolean,
@@ -63,8 +74,16 @@ export class IncomingStreamTrackReader extends Emitter<IncomingStreamTrackReader
 			buffer: Uint8Array,
 			type: FrameType,
 			codec: string,
+			timestamp: number,
+			clockRate: number,
+			time: number,
+			isIntra: boolean,
+			width: number,
+			height: number,
 		) => {
-			this.emit("frame", {buffer,type,codec}, this);
+			//Frames already queued on the main thread may arrive after stopping
+			if (this.stopped) return;
+			this.emit("frame", {buffer,type,codec,timestamp,clockRate,time,isIntra,width,height}, this);
 			//Reset refresher interval
 			this.refresher?.restart(this.minPeriod);
 		}
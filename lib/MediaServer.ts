@@ -2,14 +2,21 @@ import * as Native from "./Native.js";
 import {Endpoint} from "./Endpoint";
 import {Streamer} from "./Streamer";
 import {Recorder, RecorderParams} from "./Recorder";
-import {Player} from "./Player";
+import {SessionRecorder, SessionRecorderOptions} from "./SessionRecorder";
+import {Player, PlayerOptions} from "./Player";
+import {PlaylistPlayer, PlaylistPlayerOptions} from "./PlaylistPlayer";
+import {PlayerGroup, PlayerGroupOptions} from "./PlayerGroup";
 import {ActiveSpeakerDetector} from "./ActiveSpeakerDetector";
+import {BandwidthAllocator, BandwidthAllocatorOptions} from "./BandwidthAllocator";
+import {MetricsCollector, MetricsCollectorOptions} from "./MetricsCollector";
 import {Refresher} from "./Refresher";
-import {EmulatedTransport} from "./EmulatedTransport";
+import {EmulatedTransport, EmulatedTransportOptions} from "./EmulatedTransport";
+import {Transport} from "./Transport";
 import {IncomingStreamTrackSimulcastAdapter} from "./IncomingStreamTrackSimulcastAdapter";
 import {IncomingStreamTrackReader} from "./IncomingStreamTrackReader";
+import {IncomingStreamTrackFrameInjector} from "./IncomingStreamTrackFrameInjector";
 import * as SharedPointer from "./SharedPointer.js";
-import { SDPInfo, MediaInfo, CandidateInfo, DTLSInfo, ICEInfo, StreamInfo, TrackInfo, Setup, Capabilities } from "semantic-sdp";
+import { SDPInfo, MediaInfo, CandidateInfo, DTLSInfo, ICEInfo, StreamInfo, TrackInfo, TrackType, Setup, Capabilities } from "semantic-sdp";
 //Sequence for init the other LFSR instances
 import LFSR from 'lfsr';
 import {IncomingStream} from "./IncomingStream.js";
@@ -200,16 +207,54 @@ export namespace MediaServer {
 		return new Recorder(filename,params);
 	};
 
+	/**
+	* Create a new session recorder, which records each track of several streams on its own mp4 file with a timeline manifest
+	* @memberof MediaServer
+	* @param {SessionRecorderOptions} options
+	* @returns {SessionRecorder}
+	*/
+	export const createSessionRecorder = function(options: SessionRecorderOptions): SessionRecorder
+	{
+		//Return session recorder
+		return new SessionRecorder(options);
+	};
+
 	/**
 	* Create a new MP4 player
 	* @memberof MediaServer
 	* @param {String} filename - Path and filename of the mp4 file
+	* @param {PlayerOptions} [options]
 	* @returns {Player}
 	*/
-	export const createPlayer = function(filename: string): Player
+	export const createPlayer = function(filename: string, options?: PlayerOptions): Player
+	{
+		//Return player
+		return new Player(filename, options);
+	};
+
+	/**
+	* Create a new player that plays several MP4 files back to back on the same tracks
+	* @memberof MediaServer
+	* @param {Array<String>} items - Path and filename of the mp4 files
+	* @param {PlaylistPlayerOptions} [options]
+	* @returns {PlaylistPlayer}
+	*/
+	export const createPlaylistPlayer = function(items: string[], options?: PlaylistPlayerOptions): PlaylistPlayer
 	{
 		//Return player
-		return new Player(filename);
+		return new PlaylistPlayer(items, options);
+	};
+
+	/**
+	* Create a new group for synchronized playback of several players
+	* @memberof MediaServer
+	* @param {PlayerGroupOptions} [options]
+	* @returns {PlayerGroup}
+	*/
+	export const createPlayerGroup = function(options?: PlayerGroupOptions): PlayerGroup
+	{
+		//Return group
+		return new PlayerGroup(options);
 	};
 
 	/**
@@ -231,6 +276,26 @@ export namespace MediaServer {
 		return new ActiveSpeakerDetector();
 	};
 
+	/**
+	 * Create a new bandwidth allocator for the outgoing tracks of a transport
+	 * @param {Transport} transport
+	 * @param {BandwidthAllocatorOptions} [options]
+	 */
+	export const createBandwidthAllocator = function(transport: Transport, options?: BandwidthAllocatorOptions): BandwidthAllocator
+	{
+		return new BandwidthAllocator(transport, options);
+	};
+
+	/**
+	 * Create a new metrics collector for all the endpoints of the media server
+	 * @param {MetricsCollectorOptions} [options]
+	 */
+	export const createMetricsCollector = function(options?: MetricsCollectorOptions): MetricsCollector
+	{
+		//Get only real endpoints, not emulated transports
+		return new MetricsCollector(() => Array.from(endpoints).filter((endpoint): endpoint is Endpoint => endpoint instanceof Endpoint), options);
+	};
+
 	/**
 	 * Create a new stream refresher
 	 * @param {number} period - Intra refresh period
@@ -255,11 +320,13 @@ export namespace MediaServer {
 	/**
 	 * Create a new emulated transport from pcap file
 	 * @param {String} pcap - PCAP filename and path
+	 * @param {EmulatedTransportOptions} [options]
+	 * @returns {EmulatedTransport}
 	*/
-	export const createEmulatedTransport = function(pcap: string)
+	export const createEmulatedTransport = function(pcap: string, options?: EmulatedTransportOptions): EmulatedTransport
 	{
 		//Return emulated transport
-		const endpoint =  new EmulatedTransport(pcap);
+		const endpoint =  new EmulatedTransport(pcap, options);
 		
 			//Add to endpoint set
 		endpoints.add(endpoint);
@@ -310,6 +377,45 @@ export namespace MediaServer {
 		return incomingStream;
 	}
 	
+	/**
+	 * Create an incoming track fed with encoded frames pushed by the application
+	 * @param {TrackType} media		- Media type ("audio" or "video")
+	 * @param {String} codec		- Codec name of the pushed frames
+	 * @param {String} [trackId]		- Track id, defaults to media type
+	 * @param {Native.TimeService} [timeService] - Time service to use, a new event loop is created if not provided
+	 */
+	export const createFrameInjectionTrack = function(media: TrackType, codec: string, trackId?: string, timeService?: Native.TimeService)
+	{
+		let loop: Native.EventLoop | null = null;
+		if (!timeService)
+		{
+			//Create one event loop for this
+			loop = new Native.EventLoop();
+			//Start it
+			loop.Start();
+			
+			timeService = loop;
+		}
+		
+		let incomingStreamTrack;
+		try {
+			//Create it
+			incomingStreamTrack = new IncomingStreamTrackFrameInjector(trackId ?? media, media, trackId ?? media, codec, timeService);
+		} catch (e) {
+			//Stop loop if codec was not supported
+			loop?.Stop();
+			throw e;
+		}
+		//Stop loop on track close if it is created here
+		if (loop)
+		{
+			//Wait until the other stopped listeners have detached from the track, as it is done on the loop
+			incomingStreamTrack.once("stopped",()=>setImmediate(()=>loop?.Stop()));
+		}
+		//Done
+		return incomingStreamTrack;
+	}
+
 	export const createFrameDispatchCoordinator = (updateRefsPacketLateThresholdMs: number, 
 		updateRefsStepPacketEarlyMs: number): SharedPointer.Proxy<Native.FrameDispatchCoordinatorShared> => 
 	{
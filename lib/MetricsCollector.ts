@@ -0,0 +1,317 @@
+import * as http from "http";
+import Emitter from "medooze-event-emitter";
+import {Endpoint} from "./Endpoint";
+import {Transport} from "./Transport";
+import {IncomingMediaStats} from "./IncomingStreamTrack";
+import {OutgoingMediaStats} from "./OutgoingStreamTrack";
+
+export interface MetricsCollectorOptions {
+	/** Collection period in ms [Default: 10000] */
+	interval?: number;
+	/** Metric names prefix [Default: "medooze"] */
+	prefix?: string;
+}
+
+/** Metric labels */
+export type MetricLabels = { [name: string]: string | number | undefined };
+
+type MetricType = "gauge" | "counter";
+
+interface MetricFamily {
+	type: MetricType;
+	help: string;
+	samples: Array<{ labels: MetricLabels, value: number }>;
+}
+
+interface MetricsCollectorEvents {
+	stopped: (self: MetricsCollector) => void;
+	/** Metrics have been collected (`metrics` is the OpenMetrics text) */
+	collected: (metrics: string, self: MetricsCollector) => void;
+}
+
+//OpenMetrics content type
+const contentType = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+/**
+ * Escape OpenMetrics label value
+ * @param {String} value
+ */
+function escapeLabelValue(value: string): string
+{
+	return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+
+/**
+ * Render OpenMetrics labels
+ * @param {MetricLabels} labels
+ */
+function renderLabels(labels: MetricLabels): string
+{
+	const rendered = Object.entries(labels)
+		.filter(([, value]) => value !== undefined && value !== "")
+		.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`);
+	return rendered.length ? "{" + rendered.join(",") + "}" : "";
+}
+
+/**
+ * MetricsCollector periodically walks all transports and tracks of a set of endpoints and renders their stats in OpenMetrics text format
+ */
+export class MetricsCollector extends Emitter<MetricsCollectorEvents>
+{
+	getEndpoints: () => Iterable<Endpoint>;
+	prefix: string;
+	interval: number;
+	timer: ReturnType<typeof setInterval> | null;
+	/** Last rendered metrics */
+	metrics: string | null;
+	/** Stable transport ids, as ICE username changes on ICE restarts */
+	transportIds: WeakMap<Transport, string>;
+
+	private families: Map<string, MetricFamily>;
+
+	constructor(
+		getEndpoints: () => Iterable<Endpoint>,
+		options: MetricsCollectorOptions = {})
+	{
+		//Init emitter
+		super();
+
+		//Store stuff
+		this.getEndpoints = getEndpoints;
+		this.prefix = options.prefix ?? "medooze";
+		this.interval = options.interval ?? 10000;
+		this.metrics = null;
+		this.transportIds = new WeakMap();
+		this.families = new Map();
+
+		//Collect periodically
+		this.timer = setInterval(() => this.collect(), this.interval);
+		//Don't keep process alive just for this
+		this.timer.unref();
+	}
+
+	/**
+	 * Get last collected metrics, collecting them if not done yet
+	 * @returns {String} OpenMetrics text
+	 */
+	getMetrics(): string
+	{
+		return this.metrics ?? this.collect();
+	}
+
+	/**
+	 * Serve last collected metrics on an http request
+	 * @param {http.IncomingMessage} request
+	 * @param {http.ServerResponse} response
+	 */
+	handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void
+	{
+		//Only GET/HEAD allowed
+		if (request.method !== "GET" && request.method !== "HEAD")
+		{
+			response.writeHead(405, { "Allow": "GET, HEAD" });
+			response.end();
+			return;
+		}
+		//Send metrics
+		response.writeHead(200, { "Content-Type": contentType });
+		response.end(request.method === "GET" ? this.getMetrics() : undefined);
+	}
+
+	/**
+	 * Collect metrics now
+	 * @returns {String} OpenMetrics text
+	 */
+	collect(): string
+	{
+		//Start clean
+		this.families = new Map();
+
+		let endpoints = 0;
+		//For each endpoint
+		for (const endpoint of this.getEndpoints())
+		{
+			endpoints++;
+			//For each transport
+			for (const transport of endpoint.transports)
+				this.collectTransport(transport);
+		}
+
+		this.add("endpoints", "gauge", "Number of endpoints", {}, endpoints);
+
+		//Render
+		const lines: string[] = [];
+		for (const [name, family] of this.families)
+		{
+			lines.push(`# TYPE ${name} ${family.type}`);
+			lines.push(`# HELP ${name} ${family.help}`);
+			for (const sample of family.samples)
+				lines.push(`${name}${family.type === "counter" ? "_total" : ""}${renderLabels(sample.labels)} ${sample.value}`);
+		}
+		lines.push("# EOF");
+
+		//Store it
+		this.metrics = lines.join("\n") + "\n";
+
+		//Don't keep stats around
+		this.families = new Map();
+
+		//Emit event
+		this.emit("collected", this.metrics, this);
+
+		return this.metrics;
+	}
+
+	/**
+	 * Add a metric sample
+	 */
+	private add(name: string, type: MetricType, help: string, labels: MetricLabels, value: number | undefined): void
+	{
+		//Skip unavailable values
+		if (value === undefined || !Number.isFinite(value))
+			return;
+		//Get full name
+		const fullname = this.prefix + "_" + name;
+		//Get family
+		let family = this.families.get(fullname);
+		//If not found
+		if (!family)
+			//Create it
+			this.families.set(fullname, family = { type, help, samples: [] });
+		//Add sample
+		family.samples.push({ labels, value });
+	}
+
+	private getTransportId(transport: Transport): string
+	{
+		//Get id
+		let id = this.transportIds.get(transport);
+		//If first time seen
+		if (!id)
+			//Use current ICE username
+			this.transportIds.set(transport, id = transport.getICEUsername());
+		return id;
+	}
+
+	private collectTransport(transport: Transport): void
+	{
+		const labels = { transport: this.getTransportId(transport) };
+
+		//Get transport stats
+		const stats = transport.getStats();
+
+		this.add("transport_estimated_bitrate_bps", "gauge", "Sender side estimated bitrate", labels, stats.senderSideEstimationBitrate);
+		this.add("transport_target_bitrate_bps", "gauge", "Sender side target bitrate", labels, stats.senderSideTargetBitrate);
+		this.add("transport_available_outgoing_bitrate_bps", "gauge", "Available outgoing bitrate", labels, transport.getAvailableOutgoingBitrate());
+		this.add("transport_ice_requests_sent", "counter", "ICE requests sent", labels, stats.ice?.requestsSent);
+		this.add("transport_ice_requests_received", "counter", "ICE requests received", labels, stats.ice?.requestsReceived);
+		this.add("transport_ice_responses_sent", "counter", "ICE responses sent", labels, stats.ice?.responsesSent);
+		this.add("transport_ice_responses_received", "counter", "ICE responses received", labels, stats.ice?.responsesReceived);
+
+		//For each incoming stream
+		for (const stream of transport.getIncomingStreams())
+			for (const track of stream.getTracks())
+				//For each encoding
+				for (const [encodingId, encoding] of Object.entries(track.getStats()))
+				{
+					const trackLabels = {
+						...labels,
+						stream		: stream.getId(),
+						track		: track.getId(),
+						media		: track.getMedia(),
+						encoding	: encodingId,
+					};
+					this.add("incoming_rtt_ms", "gauge", "Round trip time of incoming track", trackLabels, encoding.rtt);
+					this.add("incoming_bitrate_bps", "gauge", "Incoming media bitrate", trackLabels, encoding.bitrate);
+					this.add("incoming_total_bitrate_bps", "gauge", "Incoming bitrate including retransmissions", trackLabels, encoding.totalBitrate);
+					this.add("incoming_remb_bps", "gauge", "Estimated available bitrate for receiving", trackLabels, encoding.remb || undefined);
+					this.add("incoming_width", "gauge", "Incoming video width", trackLabels, encoding.width);
+					this.add("incoming_height", "gauge", "Incoming video height", trackLabels, encoding.height);
+					this.addIncomingMedia({ ...trackLabels, source: "media" }, encoding.media);
+					this.addIncomingMedia({ ...trackLabels, source: "rtx" }, encoding.rtx);
+					//For each layer
+					for (const layer of encoding.media.layers)
+						this.add("incoming_layer_bitrate_bps", "gauge", "Incoming media bitrate per layer", {
+							...trackLabels,
+							spatial_layer	: layer.spatialLayerId,
+							temporal_layer	: layer.temporalLayerId,
+						}, layer.bitrate);
+				}
+
+		//For each outgoing stream
+		for (const stream of transport.getOutgoingStreams())
+			for (const track of stream.getTracks())
+			{
+				//Get stats
+				const stats = track.getStats();
+				const trackLabels = {
+					...labels,
+					stream	: stream.getId(),
+					track	: track.getId(),
+					media	: track.getMedia(),
+				};
+				this.add("outgoing_rtt_ms", "gauge", "Round trip time of outgoing track", trackLabels, stats.rtt);
+				this.add("outgoing_bitrate_bps", "gauge", "Outgoing media bitrate", trackLabels, stats.bitrate);
+				this.add("outgoing_total_bitrate_bps", "gauge", "Outgoing bitrate including retransmissions and fec", trackLabels, stats.totalBitrate);
+				this.add("outgoing_remb_bps", "gauge", "Remote estimated bitrate", trackLabels, stats.remb || undefined);
+				this.addOutgoingMedia({ ...trackLabels, source: "media" }, stats.media);
+				this.addOutgoingMedia({ ...trackLabels, source: "rtx" }, stats.rtx);
+				this.addOutgoingMedia({ ...trackLabels, source: "fec" }, stats.fec);
+
+				//Get transponder
+				const transponder = track.getTransponder();
+				//If forwarding video layers
+				if (transponder && transponder.getIncomingTrack() && track.getMedia() === "video")
+				{
+					this.add("outgoing_selected_spatial_layer", "gauge", "Spatial layer selected on the transponder", trackLabels, transponder.getSelectedSpatialLayerId());
+					this.add("outgoing_selected_temporal_layer", "gauge", "Temporal layer selected on the transponder", trackLabels, transponder.getSelectedTemporalLayerId());
+				}
+			}
+	}
+
+	private addIncomingMedia(labels: MetricLabels, stats: IncomingMediaStats): void
+	{
+		this.add("incoming_packets", "counter", "RTP packets received", labels, stats.numPackets);
+		this.add("incoming_bytes", "counter", "RTP bytes received", labels, stats.totalBytes);
+		this.add("incoming_frames", "counter", "Frames received", labels, stats.numFrames);
+		this.add("incoming_lost_packets", "counter", "RTP packets lost", labels, stats.lostPackets);
+		this.add("incoming_dropped_packets", "counter", "RTP packets dropped by the media server", labels, stats.dropPackets);
+		this.add("incoming_rtcp_packets", "counter", "RTCP packets received", labels, stats.numRTCPPackets);
+		this.add("incoming_nacks", "counter", "NACK packets sent", labels, stats.totalNACKs);
+		this.add("incoming_plis", "counter", "PLI packets sent", labels, stats.totalPLIs);
+	}
+
+	private addOutgoingMedia(labels: MetricLabels, stats: OutgoingMediaStats): void
+	{
+		this.add("outgoing_packets", "counter", "RTP packets sent", labels, stats.numPackets);
+		this.add("outgoing_bytes", "counter", "RTP bytes sent", labels, stats.totalBytes);
+		this.add("outgoing_frames", "counter", "Frames sent", labels, stats.numFrames);
+		this.add("outgoing_rtcp_packets", "counter", "RTCP packets sent", labels, stats.numRTCPPackets);
+		this.add("outgoing_reports", "counter", "RTCP receiver reports received", labels, stats.reportCount);
+		//If we have got a receiver report
+		if (stats.reported)
+		{
+			this.add("outgoing_reported_lost_packets", "counter", "RTP packets lost reported by the remote peer", labels, stats.reported.lostCount);
+			this.add("outgoing_reported_fraction_lost", "gauge", "Fraction lost reported by the remote peer", labels, stats.reported.fractionLost);
+			this.add("outgoing_reported_jitter", "gauge", "Jitter reported by the remote peer", labels, stats.reported.jitter);
+		}
+	}
+
+	/**
+	 * Stop collecting metrics
+	 */
+	stop(): void
+	{
+		//Don't call it twice
+		if (!this.timer) return;
+
+		//Stop timer
+		clearInterval(this.timer);
+		this.timer = null;
+
+		this.emit("stopped", this);
+
+		//Stop emitter
+		super.stop();
+	}
+}
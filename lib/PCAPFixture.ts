@@ -0,0 +1,384 @@
+import * as Native from "./Native";
+import * as SharedPointer from "./SharedPointer";
+import Emitter from "medooze-event-emitter";
+import LFSR from 'lfsr';
+import {EmulatedTransport, EmulatedTransportPlayParams} from "./EmulatedTransport";
+import {IncomingStream} from "./IncomingStream";
+import {IncomingStreamTrack, IncomingTrackStats} from "./IncomingStreamTrack";
+import {IncomingStreamTrackReader, Frame} from "./IncomingStreamTrackReader";
+import {OutgoingStreamTrack, OutgoingTrackStats} from "./OutgoingStreamTrack";
+import {LayerSelection, Transponder} from "./Transponder";
+import * as Utils from "./Utils";
+import {SDPInfo, MediaInfo} from "semantic-sdp";
+
+export interface PCAPFixtureOptions {
+	/** Layer selection of the transponders when the tracks are routed */
+	layers?: LayerSelection;
+	/** Interval in ms of capture time between stats and layer snapshots [Default: 1000] */
+	snapshotInterval?: number;
+}
+
+export interface PCAPFixtureRunParams extends EmulatedTransportPlayParams {
+	/** Stop playback on the first snapshot at or after this position in ms from the beginning of the capture [Default: end of the capture] */
+	until?: number;
+}
+
+/** Frame forwarded to the loopback sink */
+export interface PCAPFixtureFrame extends Frame {
+	/** Capture position in ms of the packets of the frame */
+	position: number;
+}
+
+/** Selected layers and stats of a route at a capture position */
+export interface PCAPFixtureSnapshot {
+	/** Capture position in ms */
+	position: number;
+	encodingId: string | null;
+	spatialLayerId: number;
+	temporalLayerId: number;
+	/** Stats of the track read from the pcap */
+	incoming: IncomingTrackStats;
+	/** Stats of the track forwarded by the transponder */
+	outgoing: OutgoingTrackStats;
+	/** Stats of the track received by the loopback sink */
+	loopback: IncomingTrackStats;
+}
+
+/** Path of an emulated track through a transponder up to the loopback sink */
+export interface PCAPFixtureRoute {
+	/** Track read from the pcap */
+	incoming: IncomingStreamTrack;
+	/** Track fed by the transponder */
+	outgoing: OutgoingStreamTrack;
+	transponder: Transponder;
+	/** Track received by the loopback sink */
+	loopback: IncomingStreamTrack;
+	reader: IncomingStreamTrackReader;
+	frames: PCAPFixtureFrame[];
+	snapshots: PCAPFixtureSnapshot[];
+}
+
+interface PCAPFixtureEvents {
+	stopped: (self: PCAPFixture) => void;
+	/** Frame received by the loopback sink */
+	frame: (frame: PCAPFixtureFrame, route: PCAPFixtureRoute, self: PCAPFixture) => void;
+	/** Snapshot of all routes has been taken */
+	snapshot: (position: number, self: PCAPFixture) => void;
+}
+
+/**
+ * PCAPFixture replays a captured pcap and its SDP through an emulated transport, forwards each incoming track with a transponder
+ * to a loopback sink and records the forwarded frames, selected layers and stats against the capture position,
+ * so routing can be tested deterministically without network nor browsers.
+ */
+export class PCAPFixture extends Emitter<PCAPFixtureEvents>
+{
+	transport: EmulatedTransport;
+	loopback: SharedPointer.Proxy<Native.RTPLoopbackFacadeShared>;
+	routes: Map<string, PCAPFixtureRoute>;
+	options: PCAPFixtureOptions;
+	lfsr: LFSR;
+	stopped: boolean;
+
+	/**
+	 * @param {String|Native.UDPReader} pcap	- PCAP filename and path or reader
+	 * @param {SDPInfo|String} sdp			- Remote SDP of the captured transport
+	 * @param {PCAPFixtureOptions} [options]
+	 */
+	constructor(pcap: string | Native.UDPReader, sdp: SDPInfo | string, options: PCAPFixtureOptions = {})
+	{
+		//Init emitter
+		super();
+
+		//Store options
+		this.options = options;
+
+		this.routes = new Map();
+		this.lfsr = new LFSR();
+		this.stopped = false;
+
+		//Create loopback sink
+		this.loopback = SharedPointer.SharedPointer(new Native.RTPLoopbackFacadeShared());
+
+		//Create emulated transport
+		this.transport = new EmulatedTransport(pcap);
+
+		// bind `this` since these functions will be called by event handler
+		this.onIncomingTrack = this.onIncomingTrack.bind(this);
+		this.onCheckpoint = this.onCheckpoint.bind(this);
+
+		//Route all tracks
+		this.transport.on("incomingtrack", this.onIncomingTrack);
+
+		//Take snapshots on capture time, while playback waits for them
+		this.transport.setCheckpointInterval(options.snapshotInterval ?? 1000);
+		this.transport.on("checkpoint", this.onCheckpoint);
+
+		//Create incoming streams signaled on the capture
+		this.transport.createIncomingStreams(typeof sdp === "string" ? SDPInfo.process(sdp) : sdp);
+	}
+
+	private onIncomingTrack(incoming: IncomingStreamTrack, stream: IncomingStream | undefined): void
+	{
+		//Get route id
+		const id = (stream?.getId() ?? "") + "@" + incoming.getId();
+		//Get media
+		const media = incoming.getMedia();
+
+		//Create outgoing source
+		const source = SharedPointer.SharedPointer(new Native.RTPOutgoingSourceGroupShared(
+			incoming.getMediaId(),
+			Utils.mediaToFrameType(media),
+			this.loopback.GetTimeService())
+		);
+		//Set ssrc
+		source.media.ssrc = this.lfsr.seq(31);
+
+		//Create loopback source
+		const sink = SharedPointer.SharedPointer(new Native.RTPIncomingSourceGroupShared(
+			Utils.mediaToFrameType(media),
+			this.loopback.GetTimeService())
+		);
+		//Set ssrc
+		sink.media.ssrc = this.lfsr.seq(31);
+
+		//Send outgoing packets to the sink
+		if (!this.loopback.AddOutgoingSourceGroup(source, sink))
+			//Launch exception
+			throw new Error("Could not add outgoing source group to loopback");
+
+		//Create outgoing track
+		const outgoing = new OutgoingStreamTrack(media, incoming.getId(), incoming.getMediaId(), this.loopback.toRTPSender(), source);
+
+		//Create loopback track
+		const loopback = new IncomingStreamTrack(
+			media,
+			incoming.getId(),
+			incoming.getMediaId(),
+			this.loopback.GetTimeService(),
+			SharedPointer.SharedPointer(this.loopback.toRTPReceiver()),
+			{ '': sink }
+		);
+
+		//Get remote media info
+		const remote = this.transport.remoteProperties?.[media];
+		//If we have it
+		if (remote)
+			//Get out of band codec parameters from it
+			loopback.setOutOfBandParameters(MediaInfo.expand(remote));
+
+		//Forward incoming track
+		const transponder = outgoing.attachTo(incoming, this.options.layers);
+
+		//Read all frames of the loopback track
+		const reader = new IncomingStreamTrackReader(false, 0, false);
+
+		//Create route
+		const route: PCAPFixtureRoute = { incoming, outgoing, transponder, loopback, reader, frames: [], snapshots: [] };
+
+		//Record frames
+		reader.on("frame", (frame) => {
+			//Tag with capture position of its packets, as their time is scaled by the playback rate
+			const forwarded = { ...frame, position: this.transport.getCapturePosition(frame.time) };
+			//Store it
+			route.frames.push(forwarded);
+
+			this.emit("frame", forwarded, route, this);
+		});
+		reader.attachTo(loopback);
+
+		//Tear down the route when the incoming track is stopped
+		incoming.once("stopped", () => {
+			//Stop everything
+			reader.stop();
+			outgoing.stop();
+			loopback.stop();
+			//Remove from loopback
+			this.loopback?.RemoveOutgoingSourceGroup(source);
+		});
+
+		//Add it
+		this.routes.set(id, route);
+	}
+
+	private onCheckpoint(position: number): void
+	{
+		//Take snapshot at the checkpoint position
+		this.snapshot(position);
+	}
+
+	/**
+	 * Get underlying emulated transport
+	 * @returns {EmulatedTransport}
+	 */
+	getTransport(): EmulatedTransport
+	{
+		return this.transport;
+	}
+
+	/**
+	 * Get all routes
+	 * @returns {Array<PCAPFixtureRoute>}
+	 */
+	getRoutes(): PCAPFixtureRoute[]
+	{
+		return Array.from(this.routes.values());
+	}
+
+	/**
+	 * Get the route of an incoming track
+	 * @param {String} trackId	- Id of the track on the SDP
+	 * @param {String} [streamId]	- Id of the stream of the track [Default: any]
+	 * @returns {PCAPFixtureRoute | undefined}
+	 */
+	getRoute(trackId: string, streamId?: string): PCAPFixtureRoute | undefined
+	{
+		//If we have the stream id
+		if (streamId !== undefined)
+			return this.routes.get(streamId + "@" + trackId);
+		//Find first route with that track id
+		return this.getRoutes().find(route => route.incoming.getId() === trackId);
+	}
+
+	/**
+	 * Get the frames received by the loopback sink for a track
+	 * @param {String} trackId
+	 * @param {Number} [from]	- Capture position in ms of the first frame [Default: 0]
+	 * @param {Number} [to]		- Capture position in ms of the last frame [Default: end of the capture]
+	 * @returns {Array<PCAPFixtureFrame>}
+	 */
+	getFrames(trackId: string, from = 0, to = Infinity): PCAPFixtureFrame[]
+	{
+		//Get route
+		const route = this.getRoute(trackId);
+		//Filter by position
+		return route ? route.frames.filter(frame => frame.position >= from && frame.position <= to) : [];
+	}
+
+	/**
+	 * Get the last snapshot taken for a track at or before a capture position
+	 * @param {String} trackId
+	 * @param {Number} [position]	- Capture position in ms [Default: last one]
+	 * @returns {PCAPFixtureSnapshot | undefined}
+	 */
+	getSnapshot(trackId: string, position = Infinity): PCAPFixtureSnapshot | undefined
+	{
+		//Get route
+		const route = this.getRoute(trackId);
+		//If not found
+		if (!route)
+			return undefined;
+		//Find last one before position
+		let found: PCAPFixtureSnapshot | undefined;
+		for (const snapshot of route.snapshots)
+			if (snapshot.position <= position)
+				found = snapshot;
+		return found;
+	}
+
+	/**
+	 * Take a snapshot of the selected layers and stats of all the routes
+	 * @param {Number} [position]	- Capture position in ms [Default: position of the last packet played]
+	 * @returns {Number} - Capture position in ms
+	 */
+	snapshot(position = this.transport.getPosition()): number
+	{
+		//For each route
+		for (const route of this.routes.values())
+		{
+			//Skip stopped tracks
+			if (route.reader.stopped)
+				continue;
+			//Add snapshot
+			route.snapshots.push({
+				position,
+				encodingId	: route.transponder.getSelectedEncoding(),
+				spatialLayerId	: route.transponder.getSelectedSpatialLayerId(),
+				temporalLayerId	: route.transponder.getSelectedTemporalLayerId(),
+				incoming	: route.incoming.getStats(),
+				outgoing	: route.outgoing.getStats(),
+				loopback	: route.loopback.getStats(),
+			});
+		}
+
+		this.emit("snapshot", position, this);
+
+		return position;
+	}
+
+	/**
+	 * Replay the capture through all routes
+	 * @param {PCAPFixtureRunParams} [params]
+	 * @returns {Promise<Number>} - Resolved with the capture position in ms when the capture ends or the `until` position is reached
+	 */
+	run(params: PCAPFixtureRunParams = {}): Promise<number>
+	{
+		//Check not stopped
+		if (this.stopped)
+			return Promise.reject(new Error("Fixture is stopped"));
+
+		return new Promise((resolve) => {
+			const done = (position: number) => {
+				//Stop listening
+				this.transport.off("ended", onEnded);
+				this.off("snapshot", onSnapshot);
+				this.off("stopped", onStopped);
+				resolve(position);
+			};
+			const onEnded = () => {
+				//Stop playback
+				this.transport.pause();
+				//Take last snapshot at the last packet played
+				done(this.snapshot());
+			};
+			const onSnapshot = (position: number) => {
+				//If not reached
+				if (params.until === undefined || position < params.until)
+					return;
+				//Stop playback, no packet after the snapshot has been played yet
+				this.transport.pause();
+				done(position);
+			};
+			const onStopped = () => done(0);
+
+			//Wait until the end
+			this.transport.on("ended", onEnded);
+			this.on("snapshot", onSnapshot);
+			this.once("stopped", onStopped);
+
+			//Start playback
+			this.transport.play(params);
+		});
+	}
+
+	/**
+	 * Stop replay and all the routes
+	 */
+	stop(): void
+	{
+		//Don't call it twice
+		if (this.stopped) return;
+
+		//Stopped
+		this.stopped = true;
+
+		//Stop listening
+		this.transport.off("incomingtrack", this.onIncomingTrack);
+		this.transport.off("checkpoint", this.onCheckpoint);
+
+		//Stop transport, this will stop all the routes
+		this.transport.stop();
+
+		this.emit("stopped", this);
+
+		//Stop emitter
+		super.stop();
+
+		//Free
+		//@ts-expect-error
+		this.loopback = null;
+		//@ts-expect-error
+		this.transport = null;
+		this.routes.clear();
+	}
+}
@@ -1,28 +1,68 @@
 import * as Native from "./Native";
 import * as SharedPointer from "./SharedPointer";
 import Emitter from "medooze-event-emitter";
+import {TrackType} from "semantic-sdp";
 import {IncomingStreamTrack} from "./IncomingStreamTrack";
 
 interface PlayerEvents {
     stopped: (self: Player) => void;
 	/** Playback ended */
     ended: (self: Player) => void;
+	/** Periodic playback position while playing (`position` in ms) */
+	progress: (position: number, self: Player) => void;
 }
 
-interface PlayParams {
+export interface PlayerOptions {
+	/** Interval in ms of the progress events while playing [Default: 1000] */
+	progressInterval?: number;
+}
+
+export interface PlayParams {
     repeat?: boolean;
+	/** Playback rate, i.e. 2 for playing twice as fast [Default: 1] */
+	rate?: number;
+	/** Wallclock time (Date or ms since epoch) at which the beginning of the file is played, if it is in the past playback starts at the position corresponding to now */
+	at?: Date | number;
+}
+
+/** Media info of a track of the mp4 file */
+export interface PlayerTrackInfo {
+	/** MP4 track id */
+	id: string;
+	media: TrackType;
+	codec: string;
+	/** Average bitrate in bps */
+	bitrate: number;
+	width?: number;
+	height?: number;
+	framerate?: number;
+}
+
+/** Media info of the mp4 file */
+export interface PlayerInfo {
+	/** Duration in ms */
+	duration: number;
+	tracks: PlayerTrackInfo[];
 }
 
 export class Player extends Emitter<PlayerEvents>
 {
 	player: Native.PlayerFacade;
     tracks: Map<string, IncomingStreamTrack>;
+	/** Native sources already exposed as tracks */
+	sources: Set<number>;
+	info: PlayerInfo;
     repeat?: boolean;
+	progressInterval: number;
+	progressTimer: ReturnType<typeof setInterval> | null;
+	rate: number;
+	/** Pending scheduled playback start */
+	startTimer: ReturnType<typeof setTimeout> | null;
 
 	// native callback
 	private onended: () => void;
 
-	constructor(filename: string)
+	constructor(filename: string, options: PlayerOptions = {})
 	{
 		//Init emitter
 		super();
@@ -42,48 +82,14 @@ export class Player extends Emitter<PlayerEvents>
 		
 		//init track list
 		this.tracks = new Map();
-		
-		//Check if player has video track
-		if (this.player.HasVideoTrack())
-		{
-			//Fake track id
-			const trackId = "video";
-			
-			//Get audio source
-			const source = SharedPointer.SharedPointer(this.player.GetVideoSource());
-			
-			//Create new track
-			const incomingStreamTrack = new IncomingStreamTrack("video",trackId,null!,null!,null!, {'':source}); // todo: figure out what to set here instead of a bunch of nulls
-			
-			//Add listener
-			incomingStreamTrack.once("stopped",()=>{
-				//REmove from map
-				this.tracks.delete(trackId);
-			});
-			//Add it to map
-			this.tracks.set(trackId,incomingStreamTrack);
-		} 
-		
-		//If it has audio
-		if (this.player.HasAudioTrack())
-		{
-			//Fake track id
-			const trackId = "audio";
-			
-			//Get audio source
-			const source = SharedPointer.SharedPointer(this.player.GetAudioSource());
-			
-			//Create new track
-			const incomingStreamTrack = new IncomingStreamTrack("audio",trackId,null!,null!,null!, {'':source}); // todo: figure out what to set here instead of a bunch of nulls
-			
-			//Add listener
-			incomingStreamTrack.once("stopped",()=>{
-				//REmove from map
-				this.tracks.delete(trackId);
-			});
-			//Add it to map
-			this.tracks.set(trackId,incomingStreamTrack);
-		}
+		this.sources = new Set();
+		this.progressInterval = options.progressInterval ?? 1000;
+		this.progressTimer = null;
+		this.rate = 1;
+		this.startTimer = null;
+
+		//Get file info and tracks
+		this.info = this.openTracks();
 		
 		//Listener for player facade events
 		this.onended = () => {
@@ -102,10 +108,215 @@ export class Player extends Emitter<PlayerEvents>
 				return;
 			}
 			
+			//No more progress
+			this.stopProgress();
+
 			this.emit("ended",this);
 		};
 	}
 	
+	private openTracks(): PlayerInfo
+	{
+		//Get file info
+		const info: PlayerInfo = {
+			duration	: this.player.GetDuration(),
+			tracks		: []
+		};
+		
+		//For each playable track on the file
+		for (let i = 0; i < this.player.GetTrackCount(); ++i)
+		{
+			//Use mp4 track id
+			const mp4TrackId = String(this.player.GetTrackId(i));
+			//Get media type
+			const media = this.player.GetTrackMedia(i) as TrackType;
+			
+			//Get track info
+			const trackInfo: PlayerTrackInfo = {
+				id		: mp4TrackId,
+				media		: media,
+				codec		: this.player.GetTrackCodec(i).toLowerCase(),
+				bitrate		: this.player.GetTrackBitrate(i),
+			};
+			//If it is video
+			if (media === "video")
+			{
+				trackInfo.width		= this.player.GetTrackWidth(i);
+				trackInfo.height	= this.player.GetTrackHeight(i);
+				trackInfo.framerate	= this.player.GetTrackFramerate(i);
+			}
+			info.tracks.push(trackInfo);
+			
+			//Get native source index
+			const index = this.player.GetTrackSourceIndex(i);
+			//If the source is already exposed from a previous file
+			if (this.sources.has(index))
+				//Keep same track
+				continue;
+			this.sources.add(index);
+			
+			//Use mp4 track id unless already used by a previous file
+			const trackId = this.tracks.has(mp4TrackId) ? mp4TrackId + "-" + index : mp4TrackId;
+			
+			//Get track source
+			const source = SharedPointer.SharedPointer(this.player.GetTrackSource(i));
+			
+			//Create new track
+			const incomingStreamTrack = new IncomingStreamTrack(media,trackId,null!,null!,null!, {'':source}); // todo: figure out what to set here instead of a bunch of nulls
+			
+			//Add listener
+			incomingStreamTrack.once("stopped",()=>{
+				//REmove from map
+				this.tracks.delete(trackId);
+			});
+			//Add it to map
+			this.tracks.set(trackId,incomingStreamTrack);
+		}
+		
+		return info;
+	}
+	
+	/**
+	 * Start playback at a position when the wallclock time is reached
+	 */
+	private schedule(position: number, at: Date | number): number
+	{
+		//Cancel any previous one
+		this.cancelSchedule();
+
+		//Get start time
+		const time = at instanceof Date ? at.getTime() : at;
+		//Get how long we have to wait
+		const delay = time - Date.now();
+
+		//If it is already due
+		if (delay <= 0)
+			//Start now
+			return this.startAt(position, time);
+
+		//Not playing until then
+		this.stopProgress();
+		this.player.Stop();
+
+		//Wait
+		this.startTimer = setTimeout(() => {
+			this.startTimer = null;
+			this.startAt(position, time);
+		}, delay);
+
+		return 1;
+	}
+
+	private startAt(position: number, time: number): number
+	{
+		//Get how late we are, timers are never early
+		const late = Math.max(Date.now() - time, 0);
+		//Emit progress
+		this.startProgress();
+		//Start at the position that should be playing now
+		return this.player.Seek(Math.round(position + late * this.rate));
+	}
+
+	private cancelSchedule(): void
+	{
+		//Check it was scheduled
+		if (!this.startTimer)
+			return;
+		//Stop timer
+		clearTimeout(this.startTimer);
+		this.startTimer = null;
+	}
+
+	private startProgress(): void
+	{
+		//Check not already started
+		if (this.progressTimer)
+			return;
+		//Emit position periodically
+		this.progressTimer = setInterval(() => this.emit("progress", this.getPosition(), this), this.progressInterval);
+	}
+
+	private stopProgress(): void
+	{
+		//Check it was started
+		if (!this.progressTimer)
+			return;
+		//Stop timer
+		clearInterval(this.progressTimer);
+		this.progressTimer = null;
+	}
+
+	/**
+	 * Get media info of the file, only the tracks that can be played are included
+	 * @returns {PlayerInfo}
+	 */
+	getInfo(): PlayerInfo
+	{
+		return this.info;
+	}
+
+	/**
+	 * Replace the file being played, playback is stopped and can be started again with play().
+	 * Tracks of the new file are sent on the existing tracks with same media and codec in order, RTP timestamps and sequence numbers
+	 * continue from the last packets sent and video starts on a key frame. New tracks are created for any extra tracks of the file,
+	 * including the ones with a codec not used by the existing tracks, as the codec of a track can't be changed.
+	 * @param {String} filename - Path and filename of the mp4 file
+	 */
+	load(filename: string): void
+	{
+		//Check mp4 file name
+		if (!filename || !filename.length)
+			//Error
+			throw new Error("MP4 filename nos specified");
+		
+		//No progress while stopped
+		this.stopProgress();
+		this.cancelSchedule();
+		
+		//Open file
+		if (!this.player.Load(filename))
+			//Error
+			throw new Error("MP4 filename could not be opened");
+		
+		//Get file info and new tracks
+		this.info = this.openTracks();
+	}
+
+	/**
+	 * Get current playback position
+	 * @returns {Number} - in miliseconds
+	 */
+	getPosition(): number
+	{
+		return this.player ? this.player.Tell() : 0;
+	}
+
+	/**
+	 * Get position of the first video key frame at or after given one, playback starts on a key frame so seeking to it
+	 * plays from that exact position instead of the previous key frame
+	 * @param {Number} position - in miliseconds
+	 * @returns {Number} - in miliseconds, same position if there is no video or no key frame after it
+	 */
+	getNextKeyFramePosition(position: number): number
+	{
+		return this.player ? this.player.SearchNextSyncFrame(Math.round(position)) : position;
+	}
+
+	/**
+	 * Set playback rate, it can be changed while playing. RTP timestamps are scaled by the rate so video is rendered at
+	 * the new speed, but audio is not resampled so it is only suitable for muted previews at rates other than 1
+	 * @param {Number} rate - i.e. 2 for playing twice as fast
+	 */
+	setPlaybackRate(rate: number): void
+	{
+		//Check it is valid
+		if (!(rate > 0))
+			throw new Error("Invalid playback rate");
+		//Set it
+		this.player.SetPlaybackSpeed(rate);
+		this.rate = rate;
+	}
+
 	/**
 	 * Get all the tracks
 	* @returns {Array<IncomingStreamTrack>}	- Array of tracks
@@ -155,21 +366,45 @@ export class Player extends Emitter<PlayerEvents>
 	 * Starts playback
 	 * @param {Object} params	
 	 * @param {Object} params.repeat - Repeat playback when file is ended
+	 * @param {Number} params.rate - Playback rate, i.e. 2 for playing twice as fast
+	 * @param {Date|Number} params.at - Wallclock time at which the beginning of the file is played
 	 */
 	play(params?: PlayParams)
 	{
 		//Get params
 		this.repeat = params && params.repeat;
+		//If rate is set
+		if (params && params.rate !== undefined)
+			//Set it
+			this.setPlaybackRate(params.rate);
+		//If it has to be started at a given time
+		if (params && params.at !== undefined)
+			//Schedule it
+			return this.schedule(0, params.at);
+		//Cancel any scheduled start
+		this.cancelSchedule();
+		//Emit progress
+		this.startProgress();
 		//Start playback
 		return this.player.Play();
 	}
 	
 	/**
-	 * Resume playback
+	 * Resume playback from current position
+	 * @param {Date|Number} [at] - Wallclock time at which current position is played
 	 */
-	resume()
+	resume(at?: Date | number)
 	{
-		return this.player.Play();
+		//If it has to be resumed at a given time
+		if (at !== undefined)
+			//Schedule it
+			return this.schedule(this.player.Tell(), at);
+		//Cancel any scheduled start
+		this.cancelSchedule();
+		//Emit progress
+		this.startProgress();
+		//Continue from where it was paused
+		return this.player.Seek(this.player.Tell());
 	}
 	
 	/**
@@ -177,15 +412,27 @@ export class Player extends Emitter<PlayerEvents>
 	 */
 	pause()
 	{
+		//No progress while paused
+		this.stopProgress();
+		this.cancelSchedule();
 		return this.player.Stop();
 	}
 	
 	/**
 	 * Start playback from given time
 	 * @param {Number} time - in miliseconds
+	 * @param {Date|Number} [at] - Wallclock time at which the given time is played
 	 */
-	seek(time: number)
+	seek(time: number, at?: Date | number)
 	{
+		//If it has to be started at a given time
+		if (at !== undefined)
+			//Schedule it
+			return this.schedule(time, at);
+		//Cancel any scheduled start
+		this.cancelSchedule();
+		//Emit progress
+		this.startProgress();
 		return this.player.Seek(time);
 	}
 	
@@ -197,6 +444,10 @@ export class Player extends Emitter<PlayerEvents>
 		//Don't call it twice
 		if (!this.player) return;
 		
+		//No more progress
+		this.stopProgress();
+		this.cancelSchedule();
+		
 		//Stop all streams it will detach them
 		for (let track of this.tracks.values())
 			//Stop track
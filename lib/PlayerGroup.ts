@@ -0,0 +1,398 @@
+import Emitter from "medooze-event-emitter";
+import {Player} from "./Player";
+
+export interface PlayerGroupOptions {
+	/** Delay in ms from the play, seek or resume call to the shared start time, so all players have time to start together [Default: 100] */
+	startDelay?: number;
+	/** Interval in ms of the drift reports while playing [Default: 1000] */
+	driftInterval?: number;
+	/** Players drifting more than this ms from the shared clock are seeked back to it on the next video key frame, disabled if not set */
+	maxDrift?: number;
+}
+
+export interface PlayerGroupPlayParams {
+	repeat?: boolean;
+	/** Playback rate of all players [Default: 1] */
+	rate?: number;
+	/** Wallclock time (Date or ms since epoch) at which the beginning of the file is played [Default: now + startDelay] */
+	at?: Date | number;
+}
+
+/** Drift of a player against the shared clock */
+export interface PlayerDrift {
+	player: Player;
+	/** Playback position of the player in ms */
+	position: number;
+	/** Difference in ms against the expected position, positive if the player is ahead */
+	drift: number;
+}
+
+interface PlayerGroupEvents {
+	stopped: (self: PlayerGroup) => void;
+	/** Periodic drift report while playing */
+	drift: (drifts: PlayerDrift[], self: PlayerGroup) => void;
+	/** All players have ended */
+	ended: (self: PlayerGroup) => void;
+}
+
+/** Shared clock, position (in ms) of the files that is played at given wallclock time */
+interface PlayerGroupClock {
+	position: number;
+	time: number;
+}
+
+/**
+ * PlayerGroup starts, pauses and seeks several players playing the same file against a shared wallclock, so all of them play the same frame at the same time
+ */
+export class PlayerGroup extends Emitter<PlayerGroupEvents>
+{
+	players: Map<Player, { onEnded: () => void, onStopped: () => void }>;
+	options: PlayerGroupOptions;
+	/** Shared clock, null if not playing */
+	clock: PlayerGroupClock | null;
+	/** Position when paused */
+	position: number;
+	rate: number;
+	repeat: boolean;
+	ended: Set<Player>;
+	/** Wallclock time at which the players being seeked back to the shared clock start playing again */
+	syncing: Map<Player, number>;
+	driftTimer: ReturnType<typeof setInterval> | null;
+	stopped: boolean;
+
+	constructor(options: PlayerGroupOptions = {})
+	{
+		//Init emitter
+		super();
+
+		//Store options
+		this.options = options;
+
+		this.players = new Map();
+		this.clock = null;
+		this.position = 0;
+		this.rate = 1;
+		this.repeat = false;
+		this.ended = new Set();
+		this.syncing = new Map();
+		this.driftTimer = null;
+		this.stopped = false;
+	}
+
+	/**
+	 * Add a player to the group, if the group is playing the player will join at the current shared position
+	 * @param {Player} player
+	 */
+	add(player: Player): void
+	{
+		//Check not stopped and not already added
+		if (this.stopped || this.players.has(player))
+			return;
+
+		//Listen player events
+		const onEnded = () => this.onPlayerEnded(player);
+		const onStopped = () => this.remove(player);
+		player.on("ended", onEnded);
+		player.once("stopped", onStopped);
+
+		//Store it
+		this.players.set(player, { onEnded, onStopped });
+
+		//If playing
+		if (this.clock)
+		{
+			//Use same rate
+			player.setPlaybackRate(this.rate);
+			player.repeat = this.repeat;
+			//Join
+			this.sync(player);
+		}
+	}
+
+	/**
+	 * Remove a player from the group, it will not be stopped
+	 * @param {Player} player
+	 */
+	remove(player: Player): void
+	{
+		//Get it
+		const listeners = this.players.get(player);
+		//If not found
+		if (!listeners)
+			return;
+
+		//Remove listeners
+		player.off("ended", listeners.onEnded);
+		player.off("stopped", listeners.onStopped);
+
+		//Remove
+		this.players.delete(player);
+		this.ended.delete(player);
+		this.syncing.delete(player);
+
+		//The rest may have ended already
+		this.checkEnded();
+	}
+
+	/**
+	 * Get all the players of the group
+	 * @returns {Array<Player>}
+	 */
+	getPlayers(): Player[]
+	{
+		return Array.from(this.players.keys());
+	}
+
+	private getStartTime(at?: Date | number): number
+	{
+		//If not set
+		if (at === undefined)
+			//Give some time to start all the players
+			return Date.now() + (this.options.startDelay ?? 100);
+		//Get ms since epoch
+		return at instanceof Date ? at.getTime() : at;
+	}
+
+	/**
+	 * Get expected playback position at a wallclock time
+	 * @param {Number} [time] - ms since epoch [Default: now]
+	 * @returns {Number} - in miliseconds
+	 */
+	getPosition(time: number = Date.now()): number
+	{
+		//If not playing
+		if (!this.clock)
+			return this.position;
+
+		//Get position, not started yet if before start time
+		let position = this.clock.position + Math.max(time - this.clock.time, 0) * this.rate;
+
+		//Get file duration
+		const duration = this.players.size ? this.getPlayers()[0].getInfo().duration : 0;
+
+		//If we are repeating
+		if (this.repeat && duration > 0)
+			//Loop
+			position %= duration;
+
+		return position;
+	}
+
+	/**
+	 * Start playback of all players at the same time
+	 * @param {PlayerGroupPlayParams} [params]
+	 * @returns {Date} - Wallclock time at which the beginning of the file is played
+	 */
+	play(params: PlayerGroupPlayParams = {}): Date
+	{
+		//Get start time
+		const time = this.getStartTime(params.at);
+
+		//Store params
+		this.rate = params.rate ?? 1;
+		this.repeat = !!params.repeat;
+
+		//Start shared clock
+		this.clock = { position: 0, time };
+		this.ended.clear();
+		this.syncing.clear();
+
+		//Start all players
+		for (const player of this.players.keys())
+			player.play({ repeat: this.repeat, rate: this.rate, at: time });
+
+		//Report drift
+		this.startDriftReports();
+
+		return new Date(time);
+	}
+
+	/**
+	 * Pause all players
+	 */
+	pause(): void
+	{
+		//Check we are playing
+		if (!this.clock)
+			return;
+
+		//Store position
+		this.position = this.getPosition();
+		//Stop clock
+		this.clock = null;
+
+		//Pause all players
+		for (const player of this.players.keys())
+			player.pause();
+
+		//No more drift reports
+		this.stopDriftReports();
+	}
+
+	/**
+	 * Resume playback of all players from the position they were paused
+	 * @param {Date|Number} [at] - Wallclock time at which playback is resumed [Default: now + startDelay]
+	 * @returns {Date} - Wallclock time at which playback is resumed
+	 */
+	resume(at?: Date | number): Date
+	{
+		return this.seek(this.position, at);
+	}
+
+	/**
+	 * Start playback of all players from given position
+	 * @param {Number} position - in miliseconds
+	 * @param {Date|Number} [at] - Wallclock time at which given position is played [Default: now + startDelay]
+	 * @returns {Date} - Wallclock time at which given position is played
+	 */
+	seek(position: number, at?: Date | number): Date
+	{
+		//Get start time
+		const time = this.getStartTime(at);
+
+		//Restart shared clock
+		this.clock = { position, time };
+		this.ended.clear();
+		this.syncing.clear();
+
+		//Seek all players
+		for (const player of this.players.keys())
+			player.seek(position, time);
+
+		//Report drift
+		this.startDriftReports();
+
+		return new Date(time);
+	}
+
+	/**
+	 * Get the drift of each player against the shared clock
+	 * @returns {Array<PlayerDrift>}
+	 */
+	getDrifts(): PlayerDrift[]
+	{
+		//Get expected position
+		const expected = this.getPosition();
+
+		const drifts: PlayerDrift[] = [];
+		//For each player still playing
+		for (const player of this.players.keys())
+		{
+			//Skip ended ones
+			if (this.ended.has(player))
+				continue;
+			//Get actual position
+			const position = player.getPosition();
+			//Add it
+			drifts.push({ player, position, drift: position - expected });
+		}
+		return drifts;
+	}
+
+	private sync(player: Player): void
+	{
+		//Get start time
+		const time = this.getStartTime();
+		//Get position expected on that time
+		const expected = this.getPosition(time);
+		//Playback starts on the key frame before the seeked position, so wait for the next one to be due instead
+		const position = player.getNextKeyFramePosition(expected);
+		const at = time + (position - expected) / this.rate;
+		//Don't correct it again until it has started
+		this.syncing.set(player, at);
+		//Start playing at that position when expected
+		player.seek(position, at);
+	}
+
+	private onPlayerEnded(player: Player): void {
+		//Mark it
+		this.ended.add(player);
+
+		//Check if it was the last one
+		this.checkEnded();
+	}
+
+	private checkEnded(): void
+	{
+		//If playing and all have ended
+		if (this.clock && !this.stopped && this.ended.size === this.players.size)
+		{
+			//Not playing anymore
+			this.position = this.getPosition();
+			this.clock = null;
+			this.stopDriftReports();
+
+			this.emit("ended", this);
+		}
+	}
+
+	private startDriftReports(): void
+	{
+		//Check not already started
+		if (this.driftTimer)
+			return;
+		//Report periodically
+		this.driftTimer = setInterval(() => this.checkDrift(), this.options.driftInterval ?? 1000);
+	}
+
+	private stopDriftReports(): void
+	{
+		//Check it was started
+		if (!this.driftTimer)
+			return;
+		//Stop timer
+		clearInterval(this.driftTimer);
+		this.driftTimer = null;
+	}
+
+	private checkDrift(): void
+	{
+		//Check we are playing and started already
+		if (!this.clock || Date.now() < this.clock.time)
+			return;
+
+		//Get drifts
+		const drifts = this.getDrifts();
+
+		//If correction is enabled
+		if (this.options.maxDrift !== undefined)
+			//For each drifting player
+			for (const { player, drift } of drifts)
+			{
+				//Skip it if still waiting for a previous correction to start
+				if ((this.syncing.get(player) ?? 0) > Date.now())
+					continue;
+				this.syncing.delete(player);
+				//If drifting too much
+				if (Math.abs(drift) > this.options.maxDrift)
+					//Seek it back to the shared clock
+					this.sync(player);
+			}
+
+		this.emit("drift", drifts, this);
+	}
+
+	/**
+	 * Stop synchronizing the players, they are not stopped
+	 */
+	stop(): void
+	{
+		//Don't call it twice
+		if (this.stopped) return;
+
+		//Stopped
+		this.stopped = true;
+
+		//No more drift reports
+		this.stopDriftReports();
+
+		//Remove all players
+		for (const player of this.getPlayers())
+			this.remove(player);
+
+		this.emit("stopped", this);
+
+		//Stop emitter
+		super.stop();
+	}
+}
@@ -0,0 +1,250 @@
+import Emitter from "medooze-event-emitter";
+import {Player, PlayerOptions} from "./Player";
+import {IncomingStreamTrack} from "./IncomingStreamTrack";
+
+export interface PlaylistPlayerOptions extends PlayerOptions {
+	/** Start again from the first item when the playlist ends [Default: false] */
+	repeat?: boolean;
+	/** Playback rate of all the items [Default: 1] */
+	rate?: number;
+}
+
+interface PlaylistPlayerEvents {
+	stopped: (self: PlaylistPlayer) => void;
+	/** Playback of an item has started */
+	itemstarted: (filename: string, index: number, self: PlaylistPlayer) => void;
+	/** Playback of an item has ended */
+	itemended: (filename: string, index: number, self: PlaylistPlayer) => void;
+	/** Last item of the playlist has ended */
+	ended: (self: PlaylistPlayer) => void;
+}
+
+/**
+ * PlaylistPlayer plays several MP4 files back to back on the same tracks, so the outgoing tracks attached to them
+ * see a single stream with no SSRC change nor timestamp or sequence number jumps, and video starts on a key frame on each transition.
+ */
+export class PlaylistPlayer extends Emitter<PlaylistPlayerEvents>
+{
+	player: Player;
+	items: string[];
+	index: number;
+	options: PlaylistPlayerOptions;
+
+	constructor(items: string[], options: PlaylistPlayerOptions = {})
+	{
+		//Init emitter
+		super();
+
+		//Check items
+		if (!items || !items.length)
+			//Error
+			throw new Error("Playlist is empty");
+
+		//Store items
+		this.items = [...items];
+		this.index = 0;
+		this.options = options;
+
+		//Create player with first item
+		this.player = new Player(this.items[0], options);
+
+		// bind `this` since this function will be called by event handler
+		this.onPlayerEnded = this.onPlayerEnded.bind(this);
+
+		//Listen for end of each item
+		this.player.on("ended", this.onPlayerEnded);
+	}
+
+	private onPlayerEnded(): void {
+		//Get ended item
+		const filename = this.items[this.index];
+		const index = this.index;
+
+		this.emit("itemended", filename, index, this);
+
+		//If stopped on event
+		if (!this.player)
+			return;
+
+		//Find next item that can be opened
+		for (let next = index + 1; ; ++next)
+		{
+			//If at the end of the playlist
+			if (next >= this.items.length)
+			{
+				//If not repeating
+				if (!this.options.repeat)
+					break;
+				//Start again
+				next = 0;
+			}
+			try {
+				//Open it
+				this.load(next);
+				//Play it
+				return this.playCurrent();
+			} catch (e) {
+				//If no item can be opened
+				if (next === index)
+					break;
+			}
+		}
+
+		this.emit("ended", this);
+	}
+
+	private load(index: number): void
+	{
+		//Load file
+		this.player.load(this.items[index]);
+		//Set current
+		this.index = index;
+	}
+
+	private playCurrent(): void
+	{
+		//Start playback
+		this.player.play({ rate: this.options.rate });
+
+		this.emit("itemstarted", this.items[this.index], this.index, this);
+	}
+
+	/**
+	 * Get all the tracks, they are kept across all items of the playlist
+	 * @returns {Array<IncomingStreamTrack>}	- Array of tracks
+	 */
+	getTracks(): IncomingStreamTrack[]
+	{
+		return this.player.getTracks();
+	}
+
+	/**
+	 * Get an array of the audio tracks
+	 * @returns {Array<IncomingStreamTrack>}	- Array of tracks
+	 */
+	getAudioTracks(): IncomingStreamTrack[]
+	{
+		return this.player.getAudioTracks();
+	}
+
+	/**
+	 * Get an array of the video tracks
+	 * @returns {Array<IncomingStreamTrack>}	- Array of tracks
+	 */
+	getVideoTracks(): IncomingStreamTrack[]
+	{
+		return this.player.getVideoTracks();
+	}
+
+	/**
+	 * Get underlying player, to get media info and position of current item
+	 * @returns {Player}
+	 */
+	getPlayer(): Player
+	{
+		return this.player;
+	}
+
+	/**
+	 * Get playlist items
+	 * @returns {Array<String>}
+	 */
+	getItems(): string[]
+	{
+		return this.items;
+	}
+
+	/**
+	 * Get index of the current item
+	 * @returns {Number}
+	 */
+	getCurrentIndex(): number
+	{
+		return this.index;
+	}
+
+	/**
+	 * Append an item to the end of the playlist
+	 * @param {String} filename - Path and filename of the mp4 file
+	 */
+	add(filename: string): void
+	{
+		this.items.push(filename);
+	}
+
+	/**
+	 * Start playback of an item of the playlist
+	 * @param {Number} [index] - Item to play [Default: current one]
+	 */
+	play(index?: number): void
+	{
+		//Check index
+		if (index !== undefined && (index < 0 || index >= this.items.length))
+			throw new Error("Invalid playlist index");
+
+		//If it is not the current item
+		if (index !== undefined && index !== this.index)
+			//Load it
+			this.load(index);
+
+		//Start playback
+		this.playCurrent();
+	}
+
+	/**
+	 * Skip to the next item of the playlist
+	 */
+	next(): void
+	{
+		//If at the end
+		if (this.index + 1 >= this.items.length && !this.options.repeat)
+		{
+			//Stop playback
+			this.player.pause();
+			this.emit("ended", this);
+			return;
+		}
+		//Play next one
+		this.play((this.index + 1) % this.items.length);
+	}
+
+	/**
+	 * Pause playback
+	 */
+	pause(): void
+	{
+		this.player.pause();
+	}
+
+	/**
+	 * Resume playback
+	 */
+	resume(): void
+	{
+		this.player.resume();
+	}
+
+	/**
+	 * Stop playing and close current file
+	 */
+	stop(): void
+	{
+		//Don't call it twice
+		if (!this.player) return;
+
+		//Stop listening
+		this.player.off("ended", this.onPlayerEnded);
+
+		//Stop player, this will stop the tracks
+		this.player.stop();
+
+		this.emit("stopped", this);
+
+		//Stop emitter
+		super.stop();
+
+		//Free
+		//@ts-expect-error
+		this.player = null;
+	}
+}
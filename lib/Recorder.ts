@@ -1,26 +1,96 @@
 import * as Native from "./Native";
+import * as fs from "fs";
 import Emitter from "medooze-event-emitter";
 import {IncomingStream} from "./IncomingStream";
-import {RecorderTrack} from "./RecorderTrack";
+import {RecorderTrack, RecorderTrackSink} from "./RecorderTrack";
 import {Refresher} from "./Refresher";
 import * as SharedPointer from "./SharedPointer";
-import {IncomingStreamTrack} from "./IncomingStreamTrack";
+import {IncomingStreamTrack, AV1Config} from "./IncomingStreamTrack";
+import {IncomingStreamTrackReader, FrameType} from "./IncomingStreamTrackReader";
+import {FragmentedMP4Writer, FragmentInfo} from "./FragmentedMP4Writer";
+
+export interface RecorderSegmentParams {
+	/** Close current segment on next video intra frame after this duration in ms */
+    duration?: number;
+	/** Close current segment on next video intra frame after the file grows over this size in bytes */
+    maxBytes?: number;
+	/** Segment filename, "%d" is replaced by the segment index (printf like padding as "%03d" is supported) and "%t" by the segment start time in ms */
+    filenamePattern: string;
+}
 
 export interface RecorderParams {
 	/** Periodically refresh an itnra on all video tracks (in ms) */
     refresh?: number;
 	/** Wait until the first video iframe is received to start recording media */
     waitForIntra?: boolean;
-	/** Buffer time in ms. Recording must be explicitly started with flush() call */
+	/** Buffer time in ms. Recording must be explicitly started with flush() call, clips of the buffer can be exported with exportClip() */
     timeShift?: number;
 	/** Disable recording hint tracks. Note that this file won't be playable with the Player object */
     disableHints?: boolean;
+	/** Split recording in several files. The filename provided to the recorder is ignored */
+    segment?: RecorderSegmentParams;
+	/** Write a fragmented mp4 file that is playable while being written. Only H264, H265, VP8, VP9, AV1 and Opus are supported and it can't be used with time shift or segments. H265 can only be recorded on this mode */
+    fragmented?: boolean;
+	/** Fragment duration in ms when writing fragmented mp4 files [Default: 1000] */
+    fragmentDuration?: number;
+	/** Align tracks by their capture time, calculated from the RTCP sender reports, instead of by reception time. Media of each track is dropped until its first sender report is received. Not supported on fragmented mode */
+    alignToSenderTime?: boolean;
+	/** Time in ms to wait for media of all tracks before starting an aligned recording [Default: 500] */
+    alignmentWindow?: number;
+}
+
+/** Range of the time shift buffer to export on a clip */
+export interface RecorderClipOptions {
+	/** Clip start, as date or ms since epoch. The clip will start on the last video intra before it [Default: start of the buffer] */
+    from?: Date | number;
+	/** Clip end, as date or ms since epoch [Default: now] */
+    to?: Date | number;
+}
+
+/** Native recorder of a segment and its listener callbacks */
+interface RecorderSegment {
+    filename: string;
+    recorder: SharedPointer.Proxy<Native.MP4RecorderFacadeShared>;
+    startTime: Date;
+    endTime?: Date;
+    onstarted: (timestamp: number) => void;
+    onclosed: () => void;
+}
+
+//Interval for checking segment thresholds
+const SegmentCheckInterval = 1000;
+
+/**
+ * Check if a track is sending H265, from its out of band parameters or the codec already received
+ * @param {IncomingStreamTrack} incomingStreamTrack - Track to check
+ */
+function isH265Track(incomingStreamTrack: IncomingStreamTrack): boolean
+{
+	return incomingStreamTrack.hasH265ParameterSets() || Array.from(incomingStreamTrack.encodings.values()).some(encoding => encoding.source.codec === "H265");
+}
+
+/**
+ * Set the out of band av1 config on a native recorder, using the SDP defaults for the missing params
+ * @param {Native.MP4RecorderFacade} recorder - Native recorder
+ * @param {AV1Config} config - AV1 config of the track
+ */
+function setAV1Config(recorder: Native.MP4RecorderFacade, config: AV1Config): void
+{
+	recorder.SetAV1Config(config.profile ?? 0, config.levelIdx ?? 5, config.tier ?? 0);
 }
 
 interface RecorderEvents {
     stopped: (self: Recorder) => void;
-	/** Recorder started event. This event will be trigered when the first media frame is being recorded. ('timestamp' is the timestamp of the first frame in milliseconds) */
+	/** Recorder started event. This event will be trigered when the first media frame is being recorded. ('timestamp' is the time of the first frame in milliseconds since epoch, its capture time when aligning to sender time) */
     started: (self: Recorder, timestamp: number) => void;
+	/** Segment file has been closed and can be processed */
+    segmentclosed: (filename: string, startTime: Date, endTime: Date, self: Recorder) => void;
+	/** Fragment written to the file, only on fragmented mode */
+    fragment: (info: FragmentInfo, self: Recorder) => void;
+	/** File could not be written, only on fragmented mode. The recording is not stopped, but no more media will be written */
+    error: (error: Error, self: Recorder) => void;
+	/** Tracks not ready before the moov box was written won't be recorded, only on fragmented mode ('trackIds' are the mp4 track ids) */
+    missingtracks: (trackIds: number[], self: Recorder) => void;
 }
 
 /**
@@ -36,6 +106,12 @@ export class Recorder extends Emitter<RecorderEvents>
     tracks: Set<RecorderTrack> = new Set();
     maxTrackId: number = 1;
     refresher?: Refresher;
+    segment?: RecorderSegment;
+    nextSegment?: RecorderSegment;
+    segmentIndex: number = 0;
+    segmentTimer?: ReturnType<typeof setInterval>;
+    segmentReaders: Map<RecorderTrack, IncomingStreamTrackReader> = new Map();
+    writer?: FragmentedMP4Writer;
 
 	// native callbacks
 	private onstarted: (timestamp: number) => void;
@@ -51,28 +127,57 @@ export class Recorder extends Emitter<RecorderEvents>
 		//Store params
 		this.params = { ...params } 
 		
+		//Check segment params
+		if (this.params.segment && !/%(0\d+)?d|%t/.test(this.params.segment.filenamePattern ?? ""))
+			//Error
+			throw new Error("Segment filename pattern must contain %d or %t");
+
+		//Check fragmented mode params
+		if (this.params.fragmented && (this.params.timeShift || this.params.segment || this.params.alignToSenderTime))
+			//Error
+			throw new Error("Fragmented recording can't be time shifted, segmented or aligned to sender time");
+
 		//Check mp4 file name
-		if ((!filename || !filename.length) && !this.params.timeShift)
+		if ((!filename || !filename.length) && !this.params.timeShift && !this.params.segment)
 			//Error
 			throw new Error("MP4 filename nos specified");
 		
 		//Store filename
 		this.filename = filename;
 	
-		//Create native recorder
-		this.recorder = SharedPointer.SharedPointer(new Native.MP4RecorderFacadeShared(this));
+		//If doing fragmented mp4
+		if (this.params.fragmented)
+		{
+			//Create writer
+			this.writer = new FragmentedMP4Writer(this.filename, { fragmentDuration: this.params.fragmentDuration });
+			//Forward events
+			this.writer.on("started", (time) => this.emit("started", this, time));
+			this.writer.on("fragment", (info) => this.emit("fragment", info, this));
+			this.writer.on("error", (error) => this.emit("error", error, this));
+			this.writer.on("missingtracks", (trackIds) => this.emit("missingtracks", trackIds, this));
+			//Not using native recorder
+			//@ts-expect-error
+			this.recorder = null;
+		}
+		//If doing segments
+		else if (this.params.segment)
+		{
+			//Create first segment
+			this.segment = this.createSegment();
+			//Use its native recorder
+			this.recorder = this.segment.recorder;
+		} else {
+			//Create native recorder
+			this.recorder = SharedPointer.SharedPointer(new Native.MP4RecorderFacadeShared(this));
+			//Set track alignment
+			this.recorder.SetAlignToSenderTime(!!this.params.alignToSenderTime, this.params.alignmentWindow ?? 500);
+		}
 		
 		//Check if not doing a time shifted recording
 		if (!this.params.timeShift)
 		{
-			//Create file
-			this.recorder.Create(this.filename);
-			//Start recording it now
-			this.recorder.Record(!!this.params.waitForIntra,!!this.params.disableHints);
-			//Recording
-			this.recording = true;
-			//recording start time
-			this.startTime = new Date();
+			//Start recording now
+			this.startRecording();
 		} else {
 			//Set timeshift
 			this.recorder.SetTimeShiftDuration(this.params.timeShift);
@@ -94,6 +199,231 @@ export class Recorder extends Emitter<RecorderEvents>
 		};
 	}
 	
+	/**
+	 * Create a native recorder for next segment
+	 */
+	private createSegment(): RecorderSegment
+	{
+		//Get pattern
+		const pattern = this.params.segment!.filenamePattern;
+		//Segment start
+		const startTime = new Date();
+		//Get segment index
+		const index = this.segmentIndex++;
+		//Create filename
+		const filename = pattern
+			.replace(/%(0\d+)?d/g, (match, padding) => String(index).padStart(padding ? parseInt(padding) : 0, "0"))
+			.replace(/%t/g, String(startTime.getTime()));
+
+		//Create listener object for native callbacks
+		const segment: RecorderSegment = {
+			filename	: filename,
+			startTime	: startTime,
+			onstarted	: (timestamp: number) => {
+				//Only first segment starts the recording
+				if (index === 0)
+					this.emit("started", this, timestamp);
+			},
+			onclosed	: () => {
+				this.emit("segmentclosed", segment.filename, segment.startTime, segment.endTime ?? new Date(), this);
+			},
+			//@ts-expect-error
+			recorder	: null,
+		};
+		//Create native recorder
+		segment.recorder = SharedPointer.SharedPointer(new Native.MP4RecorderFacadeShared(segment));
+		//Set track alignment
+		segment.recorder.SetAlignToSenderTime(!!this.params.alignToSenderTime, this.params.alignmentWindow ?? 500);
+
+		return segment;
+	}
+
+	/**
+	 * Create current file and start writing to it
+	 */
+	private startRecording(): void
+	{
+		//If doing segments
+		if (this.segment)
+		{
+			//Use segment filename
+			this.filename = this.segment.filename;
+			//Start checking thresholds
+			this.segmentTimer = setInterval(() => this.checkSegment(), SegmentCheckInterval);
+		}
+		//If not writing fragmented mp4, which file is already created
+		if (!this.writer)
+		{
+			//Create file
+			this.recorder.Create(this.filename);
+			//Start recording it now
+			this.recorder.Record(!!this.params.waitForIntra,!!this.params.disableHints);
+		}
+		//Recording
+		this.recording = true;
+		//recording start time
+		this.startTime = new Date();
+		//Segment starts now too
+		if (this.segment)
+			this.segment.startTime = this.startTime;
+	}
+
+	/**
+	 * Check if current segment has to be closed
+	 */
+	private async checkSegment(): Promise<void>
+	{
+		//If we are already rotating or stopped
+		if (this.nextSegment || !this.segment || !this.params.segment)
+			return;
+
+		//Get thresholds
+		const { duration, maxBytes } = this.params.segment;
+
+		//Check duration
+		let rotate = !!duration && Date.now() - this.segment.startTime.getTime() >= duration;
+
+		//Check size
+		if (!rotate && maxBytes)
+		{
+			//Keep current segment
+			const segment = this.segment;
+			try {
+				//Get file size
+				const stat = await fs.promises.stat(segment.filename);
+				//Check we are still in the same segment
+				rotate = segment === this.segment && stat.size >= maxBytes;
+			} catch (e) {
+				//File may not be created yet
+			}
+		}
+
+		//Start rotation if needed
+		if (rotate && !this.nextSegment && this.segment)
+			this.startSegmentRotation();
+	}
+
+	/**
+	 * Start writing to next segment and close current one on next video intra frame
+	 */
+	private startSegmentRotation(): void
+	{
+		//Create next segment
+		const next = this.nextSegment = this.createSegment();
+
+		//Get video tracks
+		const video = Array.from(this.tracks).filter(track => track.getTrack().getMedia() === "video");
+
+		//Out of band h264 parameters and av1 config are set per native recorder
+		for (const track of this.tracks)
+		{
+			//Get incoming track
+			const incomingStreamTrack = track.getTrack();
+			//Check if it has out of band h264 parameters
+			if (incomingStreamTrack.hasH264ParameterSets && incomingStreamTrack.hasH264ParameterSets())
+				next.recorder.SetH264ParameterSets(incomingStreamTrack.getH264ParameterSets()!);
+			//Check if it has out of band av1 config
+			if (incomingStreamTrack.hasAV1Config && incomingStreamTrack.hasAV1Config())
+				setAV1Config(next.recorder, incomingStreamTrack.getAV1Config()!);
+		}
+
+		//Create file
+		next.recorder.Create(next.filename);
+		//Keep time shift buffer for exporting clips
+		if (this.params.timeShift)
+			next.recorder.SetTimeShiftDuration(this.params.timeShift);
+		//Start recording when intra is received if we have video
+		next.recorder.Record(video.length > 0, !!this.params.disableHints);
+
+		//Write to both segments
+		for (const track of this.tracks)
+			track.setNextRecorder(next.recorder);
+
+		//If there is no video
+		if (!video.length)
+			//Switch now
+			return this.switchSegment();
+
+		//For each video track
+		for (const track of video)
+		{
+			//Create reader to get notified when its next intra is received
+			const reader = new IncomingStreamTrackReader(true, 0, false);
+			//When intra is received
+			reader.once("frame", () => {
+				//Next segment starts with this intra for this track
+				track.switchRecorder();
+				//Switch the rest of media along with the first video track
+				for (const other of this.tracks)
+					if (other.getTrack().getMedia() !== "video")
+						other.switchRecorder();
+				//Done with it
+				this.stopSegmentReader(track);
+			});
+			//Attach to track
+			reader.attachTo(track.getTrack());
+			//Store it
+			this.segmentReaders.set(track, reader);
+		}
+
+		//Request intra on all video tracks
+		for (const track of video)
+			track.getTrack().refresh();
+	}
+
+	/**
+	 * Stop waiting for the intra of a video track, switching segments when all of them have been received
+	 * @param {RecorderTrack} track
+	 */
+	private stopSegmentReader(track: RecorderTrack): void
+	{
+		//Get reader
+		const reader = this.segmentReaders.get(track);
+		//If not waiting for it
+		if (!reader)
+			return;
+		//Stop it
+		reader.stop();
+		this.segmentReaders.delete(track);
+		//If all video tracks have switched
+		if (!this.segmentReaders.size)
+			//Close current segment
+			this.switchSegment();
+	}
+
+	/**
+	 * Close current segment and continue on next one
+	 */
+	private switchSegment(): void
+	{
+		//Check we are rotating
+		if (!this.nextSegment || !this.segment)
+			return;
+
+		//Stop readers
+		for (const reader of this.segmentReaders.values())
+			reader.stop();
+		this.segmentReaders.clear();
+
+		//Get current one
+		const prev = this.segment;
+		//Segments are switched now
+		prev.endTime = this.nextSegment.startTime = new Date();
+
+		//Switch all tracks to next one
+		for (const track of this.tracks)
+			track.switchRecorder();
+
+		//Use next segment
+		this.segment = this.nextSegment;
+		this.nextSegment = undefined;
+		this.recorder = this.segment.recorder;
+		this.filename = this.segment.filename;
+
+		//Close previous one, segmentclosed event will be fired when done
+		prev.recorder.Close();
+	}
+
 	/**
 	 * Get recording filename
 	 * @returns {String} 
@@ -136,16 +466,78 @@ export class Recorder extends Emitter<RecorderEvents>
 			//store new one
 			this.filename = filename;
 		
-		//Create file
-		this.recorder.Create(this.filename);
 		//Start recording it now
-		this.recorder.Record(!!this.params.waitForIntra,!!this.params.disableHints);
-		//Recording
-		this.recording = true;
-		//recording start time
-		this.startTime = new Date();
+		this.startRecording();
 	}
 	
+	/**
+	 * Export a range of the time shift buffer to a standalone mp4 file. The buffer keeps running, so it can be called several times.
+	 * When doing segments, only the media received since the current segment started is available.
+	 * @param {String} filename - Clip mp4 filename
+	 * @param {RecorderClipOptions} [options] - Range of the buffer to export
+	 * @returns {Promise<void>} - Resolved when the clip file is closed
+	 */
+	async exportClip(filename: string, options: RecorderClipOptions = {}): Promise<void>
+	{
+		//Check we are doing time shift
+		if (!this.params.timeShift)
+			throw new Error("Clips can only be exported on time shifted recordings");
+
+		//Check we are not stopped
+		if (!this.recorder)
+			throw new Error("Recorder is stopped");
+
+		//Check mp4 file name
+		if (!filename || !filename.length)
+			throw new Error("MP4 filename nos specified");
+
+		//Get range
+		const to = options.to !== undefined ? Number(options.to) : Date.now();
+		const from = options.from !== undefined ? Number(options.from) : to - this.params.timeShift;
+
+		//Check it
+		if (isNaN(from) || isNaN(to) || from > to)
+			throw new Error("Invalid clip range");
+
+		//Export it and wait until clip is closed
+		await new Promise<void>((resolve, reject) => {
+			//Copy buffered frames to the clip
+			if (!this.recorder.ExportClip(filename, from, to, !!this.params.disableHints, { resolve }))
+				reject(new Error("Could not export clip, no media on range or file could not be created"));
+		});
+	}
+
+	/**
+	 * Get the native object where the frames of a recorder track are written
+	 * @param {Number} id - Recorder track id
+	 * @param {IncomingStreamTrack} incomingStreamTrack - Track being recorded
+	 */
+	private createTrackSink(id: number, incomingStreamTrack: IncomingStreamTrack): RecorderTrackSink
+	{
+		//If not writing fragmented mp4
+		if (!this.writer)
+			//Write to native recorder
+			return this.recorder;
+
+		//Get writer
+		const writer = this.writer;
+
+		//Set out of band codec config
+		writer.setTrackConfig(id, {
+			h264ParameterSets	: incomingStreamTrack.getH264ParameterSets?.(),
+			h265ParameterSets	: incomingStreamTrack.getH265ParameterSets?.(),
+			av1Config		: incomingStreamTrack.getAV1Config?.(),
+		});
+
+		//Create reader to get the frames of the track
+		return SharedPointer.SharedPointer(new Native.MediaFrameReaderShared({
+			onframe: (buffer: Uint8Array, type: FrameType, codec: string, timestamp: number, clockRate: number, time: number, isIntra: boolean, width: number, height: number) => {
+				//Write it
+				writer.addFrame(id, {buffer,type,codec,timestamp,clockRate,time,isIntra,width,height});
+			}
+		}, false, 0, false));
+	}
+
 	/**
 	 * Start recording and incoming
 	 * @param {IncomingStream|IncomingStreamTrack} incomingStreamOrTrack - Incomining stream or track to be recordeds
@@ -170,28 +562,40 @@ export class Recorder extends Emitter<RecorderEvents>
 			//Nothing
 			return tracks;
 		
+		//The native recorder does not support H265, check it before recording any track
+		if (!this.writer && incomingStreamTracks.some(isH265Track))
+			//Error
+			throw new Error("H265 tracks can only be recorded on fragmented mode");
+
 		//Try to match each ones
 		for (let i=0;i<incomingStreamTracks.length;++i)
 		{
 			//Get incoming stream track
 			const incomingStreamTrack = incomingStreamTracks[i];
 			//Check if it has out of band h264 parameters
-			if (incomingStreamTrack.hasH264ParameterSets && incomingStreamTrack.hasH264ParameterSets())
+			if (!this.writer && incomingStreamTrack.hasH264ParameterSets && incomingStreamTrack.hasH264ParameterSets())
 				//TODO: Support H264 parameter sets per track instead of per recorder
 				this.recorder.SetH264ParameterSets(incomingStreamTrack.getH264ParameterSets()!);
+			//Check if it has out of band av1 config
+			if (!this.writer && incomingStreamTrack.hasAV1Config && incomingStreamTrack.hasAV1Config())
+				setAV1Config(this.recorder, incomingStreamTrack.getAV1Config()!);
 			//If doing multitrack
 			if (options.multitrack)
 			{
 				//For each encoding
 				for (let encoding of incomingStreamTracks[i].encodings.values())
 				{
+					//Get new track id
+					const id = this.maxTrackId++;
 					//Create new track in recorder
-					const recorderTrack = new RecorderTrack(this.maxTrackId++, incomingStreamTrack, encoding.depacketizer, this.recorder);
+					const recorderTrack = new RecorderTrack(id, incomingStreamTrack, encoding.depacketizer, this.createTrackSink(id, incomingStreamTrack));
 					//Listen for stop event
 					recorderTrack.once("stopped", () =>
 					{
 						//remove it
 						this.tracks.delete(recorderTrack);
+						//Don't wait for its intra to switch segments
+						this.stopSegmentReader(recorderTrack);
 					});
 					//Push to recorder tracks
 					this.tracks.add(recorderTrack);
@@ -201,13 +605,17 @@ export class Recorder extends Emitter<RecorderEvents>
 			}
 			else
 			{
+				//Get new track id
+				const id = this.maxTrackId++;
 				//Create new track in recorder
-				const recorderTrack = new RecorderTrack(this.maxTrackId++, incomingStreamTrack, incomingStreamTrack.depacketizer, this.recorder);
+				const recorderTrack = new RecorderTrack(id, incomingStreamTrack, incomingStreamTrack.depacketizer, this.createTrackSink(id, incomingStreamTrack));
 				//Listen for stop event
 				recorderTrack.once("stopped", () =>
 				{
 					//remove it
 					this.tracks.delete(recorderTrack);
+					//Don't wait for its intra to switch segments
+					this.stopSegmentReader(recorderTrack);
 				});
 				//Push to recorder tracks
 				this.tracks.add(recorderTrack);
@@ -250,8 +658,14 @@ export class Recorder extends Emitter<RecorderEvents>
 	async stop(): Promise<void>
 	{
 		//Don't call it twice
-		if (!this.recorder) return;
+		if (!this.recorder && !this.writer) return;
 		
+		//Stop segment rotation, before stopping the tracks so it is not completed
+		clearInterval(this.segmentTimer);
+		for (const reader of this.segmentReaders.values())
+			reader.stop();
+		this.segmentReaders.clear();
+
 		//Stop all streams it will detach them
 		for (let track of this.tracks.values())
 			//Stop track
@@ -262,14 +676,44 @@ export class Recorder extends Emitter<RecorderEvents>
 		
 		//Clear tracks jic
 		this.tracks.clear();
+
+		//If we were rotating
+		if (this.nextSegment)
+		{
+			//Not a complete segment, don't fire event for it
+			this.nextSegment.onclosed = () => {};
+			//Close next one
+			this.nextSegment.recorder.Close();
+			this.nextSegment = undefined;
+		}
+
+		//Get current segment
+		const segment = this.segment;
 		
-		//Call async
-		await new Promise((resolve)=>{
-			//Create close handler that resolves the promise
-			this.onclosed = resolve;
-			//Close it
-			this.recorder.Close();
-		});
+		//If writing fragmented mp4
+		if (this.writer)
+			//Flush last fragment and close file, write errors are reported by the error event
+			await this.writer.close().catch(() => {});
+		else
+			//Call async
+			await new Promise((resolve)=>{
+				//If doing segments
+				if (segment)
+				{
+					//Get segment close handler
+					const onclosed = segment.onclosed;
+					//Resolve the promise after firing segmentclosed event
+					segment.onclosed = () => {
+						onclosed();
+						resolve(undefined);
+					};
+				} else {
+					//Create close handler that resolves the promise
+					this.onclosed = resolve;
+				}
+				//Close it
+				this.recorder.Close();
+			});
 		
 		this.emit("stopped",this);
 
@@ -281,9 +725,9 @@ export class Recorder extends Emitter<RecorderEvents>
 		this.refresher = null;
 		//@ts-expect-error
 		this.recorder = null;
+		this.writer = undefined;
+		this.segment = undefined;
 	}
 	
 	
 }
-
-module.exports = Recorder;
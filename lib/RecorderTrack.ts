@@ -3,6 +3,11 @@ import Emitter from 'medooze-event-emitter';
 import * as SharedPointer from './SharedPointer';
 import {IncomingStreamTrack} from './IncomingStreamTrack';
 
+/** Native object where the track frames are written */
+export interface RecorderTrackSink {
+    toMediaFrameListener(): Native.MediaFrameListenerShared;
+}
+
 interface RecorderTrackEvents {
     stopped: (self: RecorderTrack) => void;
     muted: (muted: boolean) => void;
@@ -16,14 +21,16 @@ export class RecorderTrack extends Emitter<RecorderTrackEvents>
 	id: number;
     track: IncomingStreamTrack;
     depacketizer: SharedPointer.Proxy<Native.RTPIncomingMediaStreamDepacketizerShared>;
-    recorder: Native.MP4RecorderFacadeShared;
+    recorder: RecorderTrackSink;
+	/** Recorder of the next segment, frames are written to both until switching to it */
+    nextRecorder: RecorderTrackSink | null;
     muted: boolean;
 
 	constructor(
 		id: number,
 		track: IncomingStreamTrack,
 		depacketizer: SharedPointer.Proxy<Native.RTPIncomingMediaStreamDepacketizerShared>,
-		recorder: Native.MP4RecorderFacadeShared)
+		recorder: RecorderTrackSink)
 	{
 		//Init emitter
 		super();
@@ -33,6 +40,7 @@ export class RecorderTrack extends Emitter<RecorderTrackEvents>
 		this.track		= track;
 		this.depacketizer	= depacketizer;
 		this.recorder		= recorder;
+		this.nextRecorder	= null;
 		//Not muted
 		this.muted = false;
 		
@@ -91,10 +99,12 @@ export class RecorderTrack extends Emitter<RecorderTrackEvents>
 			//Check what are we doing
 			if (muting) {
 				//Stop listening for frames
-				this.depacketizer.RemoveMediaListener(this.recorder);
+				this.depacketizer.RemoveMediaListener(this.recorder.toMediaFrameListener());
+				this.nextRecorder && this.depacketizer.RemoveMediaListener(this.nextRecorder.toMediaFrameListener());
 			}else {
 				//Start listening for frames
-				this.depacketizer.AddMediaListener(this.recorder);
+				this.depacketizer.AddMediaListener(this.recorder.toMediaFrameListener());
+				this.nextRecorder && this.depacketizer.AddMediaListener(this.nextRecorder.toMediaFrameListener());
 				//Request a refresh on the track
 				this.track.refresh();
 			}
@@ -106,6 +116,47 @@ export class RecorderTrack extends Emitter<RecorderTrackEvents>
 		}
 	}
 	
+	/**
+	 * Start writing frames also to the recorder of the next segment
+	 * Internal use, see {@link switchRecorder}
+	 * @param {RecorderTrackSink} recorder
+	 */
+	setNextRecorder(recorder: RecorderTrackSink): void
+	{
+		//Check not stopped
+		if (!this.track) return;
+
+		//If we were already writing to other one
+		if (this.nextRecorder && !this.muted)
+			//Stop it
+			this.depacketizer.RemoveMediaListener(this.nextRecorder.toMediaFrameListener());
+
+		//Store it
+		this.nextRecorder = recorder;
+
+		//Start listening for frames if not muted
+		if (!this.muted)
+			this.depacketizer.AddMediaListener(this.nextRecorder.toMediaFrameListener());
+	}
+
+	/**
+	 * Stop writing frames to current recorder and use the next segment one
+	 * Internal use
+	 */
+	switchRecorder(): void
+	{
+		//Check not stopped and that we have a next one
+		if (!this.track || !this.nextRecorder) return;
+
+		//Stop writing to current one
+		if (!this.muted)
+			this.depacketizer.RemoveMediaListener(this.recorder.toMediaFrameListener());
+
+		//Use next
+		this.recorder = this.nextRecorder;
+		this.nextRecorder = null;
+	}
+
 	/**
 	 * Stop recording this track
 	 */
@@ -116,6 +167,7 @@ export class RecorderTrack extends Emitter<RecorderTrackEvents>
 		
 		//Stop listening for frames
 		this.depacketizer.RemoveMediaListener(this.recorder.toMediaFrameListener());
+		this.nextRecorder && this.depacketizer.RemoveMediaListener(this.nextRecorder.toMediaFrameListener());
 		
 		//Remove listener
 		this.track.off("stopped",this.onTrackStopped);
@@ -132,5 +184,6 @@ export class RecorderTrack extends Emitter<RecorderTrackEvents>
 		this.depacketizer = null;
 		//@ts-expect-error
 		this.recorder = null;
+		this.nextRecorder = null;
 	}
 }
@@ -1,19 +1,85 @@
 import Emitter from "medooze-event-emitter";
 import { Transport } from "./Transport";
 
-export type SDPState = "initial" | "local-offer" | "remote-offer" | "stable";
+export type SDPState = "initial" | "local-offer" | "remote-offer" | "local-pranswer" | "remote-pranswer" | "stable" | "closed";
+
+/** JSEP signaling state, as in RTCPeerConnection.signalingState */
+export type SignalingState = "stable" | "have-local-offer" | "have-remote-offer" | "have-local-pranswer" | "have-remote-pranswer" | "closed";
+
+/** Session description type, as in RTCSessionDescription.type */
+export type SDPType = "offer" | "pranswer" | "answer" | "rollback";
+
+/** Which side a session description is applied to */
+export type SDPSource = "local" | "remote";
 
 interface SDPManagerEvents {
     stopped: (self: SDPManager) => void;
     transport: (transport: Transport) => void;
     renegotiationneeded: (transport: Transport) => void;
+    signalingstatechange: (state: SignalingState, self: SDPManager) => void;
+}
+
+/**
+ * Error thrown when a session description is applied on a state that does not allow it
+ */
+export class SDPManagerInvalidStateError extends Error
+{
+	readonly state: SDPState;
+	readonly source: SDPSource | null;
+	readonly type: SDPType;
+
+	constructor(state: SDPState, source: SDPSource | null, type: SDPType, message?: string)
+	{
+		super(message ?? (source ? `Cannot set ${source} ${type} in ${state} state` : `Cannot ${type} in ${state} state`));
+		this.name = "InvalidStateError";
+		this.state = state;
+		this.source = source;
+		this.type = type;
+	}
+}
+
+/**
+ * Error thrown when a remote offer is received while a local offer is pending and the manager is not polite
+ */
+export class SDPManagerGlareError extends SDPManagerInvalidStateError
+{
+	constructor(state: SDPState)
+	{
+		super(state, "remote", "offer", "Glare detected, remote offer received while local offer is pending");
+		this.name = "GlareError";
+	}
 }
 
+//Allowed transitions for each state and description source/type
+const transitions: { [state in SDPState]: { [source in SDPSource]: { [type in SDPType]?: SDPState } } } = {
+	"initial"		: { local : { offer : "local-offer" },			remote : { offer : "remote-offer" } },
+	"stable"		: { local : { offer : "local-offer" },			remote : { offer : "remote-offer" } },
+	"local-offer"		: { local : { offer : "local-offer" },			remote : { answer : "stable", pranswer : "remote-pranswer" } },
+	"remote-offer"		: { local : { answer : "stable", pranswer : "local-pranswer" },	remote : { offer : "remote-offer" } },
+	"local-pranswer"	: { local : { answer : "stable", pranswer : "local-pranswer" },	remote : { } },
+	"remote-pranswer"	: { local : { },					remote : { answer : "stable", pranswer : "remote-pranswer" } },
+	"closed"		: { local : { },					remote : { } },
+};
+
+//Description type used when not provided for each state and description source
+const defaultTypes: { [state in SDPState]: { [source in SDPSource]?: SDPType } } = {
+	"initial"		: { local : "offer",	remote : "offer" },
+	"stable"		: { local : "offer",	remote : "offer" },
+	"local-offer"		: { local : "offer",	remote : "answer" },
+	"remote-offer"		: { local : "answer",	remote : "offer" },
+	"local-pranswer"	: { local : "answer" },
+	"remote-pranswer"	: { remote : "answer" },
+	"closed"		: { },
+};
+
 export class SDPManager extends Emitter<SDPManagerEvents>
 {
 	state: SDPState;
     transport: Transport | null;
-	
+	/** If polite, remote offers received while a local one is pending roll back the local one instead of failing */
+	polite: boolean;
+	private negotiated: boolean;
+
 	constructor()
 	{
 		//Init emitter
@@ -22,16 +88,45 @@ export class SDPManager extends Emitter<SDPManagerEvents>
 		//SDP O/A state
 		this.state = "initial";
 		this.transport = null;
+		this.polite = false;
+		//Not completed any offer/answer yet
+		this.negotiated = false;
 	}
-	
+
 	/**
-	 * Get current SDP offer/answer state 
+	 * Get current SDP offer/answer state
 	 */
 	getState(): SDPState
 	{
 		return this.state;
 	}
-	
+
+	/**
+	 * Get current JSEP signaling state
+	 */
+	getSignalingState(): SignalingState
+	{
+		switch (this.state)
+		{
+			case "initial":
+			case "stable":
+				return "stable";
+			case "closed":
+				return "closed";
+			default:
+				return `have-${this.state}` as SignalingState;
+		}
+	}
+
+	/**
+	 * Set if the manager is the polite peer on glare resolution
+	 * @param {Boolean} polite
+	 */
+	setPolite(polite: boolean): void
+	{
+		this.polite = polite;
+	}
+
 	/**
 	 * Returns the Transport object created by the SDP O/A
 	 */
@@ -39,31 +134,156 @@ export class SDPManager extends Emitter<SDPManagerEvents>
 	{
 		return this.transport;
 	}
-	
+
 	/**
 	 * Create local description
+	 * @param {SDPType} [type]	- Description type, inferred from current state if not provided
 	 */
-	createLocalDescription(): string {
+	createLocalDescription(type?: SDPType): string {
 		throw new Error('not implemented');
 	}
-	
+
 	/**
 	 * Process remote offer
-	 * @param {String} sdp	- Remote session description
+	 * @param {String} sdp		- Remote session description
+	 * @param {SDPType} [type]	- Description type, inferred from current state if not provided
 	 */
-	processRemoteDescription(sdp: string){
+	processRemoteDescription(sdp: string, type?: SDPType){
 		throw new Error('not implemented');
 	}
-	
+
+	/**
+	 * Roll back the pending local or remote offer and return to stable state
+	 */
+	rollback(): void
+	{
+		//Only offers can be rolled back
+		if (this.state!=="local-offer" && this.state!=="remote-offer")
+			throw new SDPManagerInvalidStateError(this.state, null, "rollback");
+
+		//Restore previous descriptions
+		this.restoreDescriptions();
+
+		//Back to last stable state
+		this.setState(this.negotiated ? "stable" : "initial");
+	}
+
+	/**
+	 * Check that a description can be applied on current state, resolving glare if needed
+	 * Internal use, to be called by subclasses before processing the description
+	 * @param {SDPSource} source	- If it is a local or remote description
+	 * @param {SDPType} [type]	- Description type, inferred from current state if not provided
+	 * @returns {SDPType} the description type to apply
+	 */
+	protected checkTransition(source: SDPSource, type?: SDPType): SDPType
+	{
+		//Get type
+		const resolved = type ?? defaultTypes[this.state][source];
+
+		//If we are not able to infer it
+		if (!resolved)
+			throw new SDPManagerInvalidStateError(this.state, source, "offer", `Cannot set ${source} description in ${this.state} state`);
+
+		//Rollbacks are handled separately
+		if (resolved==="rollback")
+		{
+			//Only the pending offer of the same side can be rolled back
+			if (this.state!==`${source}-offer`)
+				throw new SDPManagerInvalidStateError(this.state, source, resolved);
+			return resolved;
+		}
+
+		//Glare
+		if (source==="remote" && resolved==="offer" && this.state==="local-offer")
+		{
+			//If we are not polite
+			if (!this.polite)
+				throw new SDPManagerGlareError(this.state);
+			//Discard our offer
+			this.rollback();
+		}
+
+		//Check it is allowed
+		if (!transitions[this.state][source][resolved])
+			throw new SDPManagerInvalidStateError(this.state, source, resolved);
+
+		//If starting a new offer/answer exchange
+		if (this.state==="initial" || this.state==="stable")
+			//Keep current descriptions in case of rollback
+			this.saveDescriptions();
+
+		return resolved;
+	}
+
+	/**
+	 * Move to the next state after a description has been applied
+	 * Internal use, to be called by subclasses after processing the description
+	 * @param {SDPSource} source	- If it is a local or remote description
+	 * @param {SDPType} type	- Description type applied
+	 */
+	protected applyTransition(source: SDPSource, type: SDPType): void
+	{
+		//Get next state
+		const next = transitions[this.state][source][type];
+
+		//Check it is allowed
+		if (!next)
+			throw new SDPManagerInvalidStateError(this.state, source, type);
+
+		//Set it
+		this.setState(next);
+	}
+
+	/**
+	 * Save current descriptions so they can be restored on rollback
+	 */
+	protected saveDescriptions(): void
+	{
+	}
+
+	/**
+	 * Restore descriptions saved before the offer being rolled back
+	 */
+	protected restoreDescriptions(): void
+	{
+	}
+
+	protected setState(state: SDPState): void
+	{
+		//Get previous signaling state
+		const prev = this.getSignalingState();
+
+		//Set new state
+		this.state = state;
+
+		//If we have completed an offer/answer
+		if (state==="stable")
+			this.negotiated = true;
+
+		//Get new signaling state
+		const signalingState = this.getSignalingState();
+
+		//If it has changed
+		if (prev!==signalingState)
+			//Emit event
+			this.emit("signalingstatechange", signalingState, this);
+	}
+
 	/**
 	 * Stop manager and associated tranports
 	 */
 	stop(): void
 	{
+		//Don't call it twice
+		if (this.state==="closed") return;
+
+		//Closed
+		this.setState("closed");
+
 		this.emit("stopped",this);
-	
+
 		//Stop emitter
 		super.stop();
 	}
-	
+
 }
@@ -1,4 +1,5 @@
-import {SDPManager} from './SDPManager';
+import {SDPManager, SDPType} from './SDPManager';
+import {Transport} from './Transport';
 import {
     SDPInfo,
     Setup,
@@ -20,6 +21,7 @@ export class SDPManagerPlanB extends SDPManager
     renegotiationNeeded: boolean;
     localInfo?: SDPInfo;
     remoteInfo?: SDPInfo;
+    saved?: { localInfo?: SDPInfo; remoteInfo?: SDPInfo; transport: Transport | null };
 
 	constructor(
 		endpoint: Endpoint,
@@ -37,8 +39,20 @@ export class SDPManagerPlanB extends SDPManager
 	}
 
 	/** @override */
-	createLocalDescription(): string
+	createLocalDescription(type?: SDPType): string
 	{
+		//Check we can set the local description on current state
+		const resolved = this.checkTransition("local", type);
+
+		//If rolling back
+		if (resolved==="rollback")
+		{
+			//Discard pending offer
+			this.rollback();
+			//Return restored sdp
+			return this.localInfo ? this.localInfo.toString() : "";
+		}
+
 		//If there is no local info
 		if (!this.localInfo)
 		{
@@ -62,24 +76,22 @@ export class SDPManagerPlanB extends SDPManager
 				this.localInfo.addStream(stream.getStreamInfo())
 		
 		//Modify status
-		switch (this.state)
-		{
-			case "initial":
-			case "stable":
-				//This is an offer
-				this.state = "local-offer";
-				break;
-			case "remote-offer":
-				this.state = "stable";
-				break;
-		}
+		this.applyTransition("local", resolved);
 		//Return sdp
 		return this.localInfo.toString();
 	}
 	
 	/** @override */
-	processRemoteDescription(sdp: string): void
+	processRemoteDescription(sdp: string, type?: SDPType): void
 	{
+		//Check we can set the remote description on current state
+		const resolved = this.checkTransition("remote", type);
+
+		//If rolling back
+		if (resolved==="rollback")
+			//Discard pending offer
+			return this.rollback();
+
 		//Renegotiate
 		const renegotiate = () => {
 			//Check if we already need to renegotiate
@@ -135,7 +147,7 @@ export class SDPManagerPlanB extends SDPManager
 		}
 		
 		//If we need to anwser
-		if (this.state!="local-offer")
+		if (resolved==="offer")
 			//Answer it
 			this.localInfo = this.remoteInfo.answer({
 				dtls		: this.transport.getLocalDTLSInfo(),
@@ -144,30 +156,8 @@ export class SDPManagerPlanB extends SDPManager
 				capabilities	: this.capabilities
 			});
 		
-		//For each ougoing stream
-		for (const stream of this.transport.getIncomingStreams())
-		{
-			//Get info
-			const streamInfo = this.remoteInfo.getStream(stream.getId());
-			//If it was removed
-			if (!streamInfo)
-			{
-				//Stop stream
-				stream.stop();
-				//Next
-				continue;
-			}
-			//Check all tracks
-			for (const track of stream.getTracks())
-			{
-				//Get info
-				const trackInfo = streamInfo.getTrack(track.getId());
-				//If it was removed
-				if (!trackInfo)
-					//Stop
-					track.stop();
-			}
-		}
+		//Remove incoming streams and tracks not present anymore
+		this.removeIncomingStreams();
 		
 		//For each stream in remote sdp
 		for (const [streamId,streamInfo] of this.remoteInfo.getStreams())
@@ -197,18 +187,75 @@ export class SDPManagerPlanB extends SDPManager
 		}
 		
 		//Modify status
-		switch (this.state)
+		this.applyTransition("remote", resolved);
+	}
+
+	private removeIncomingStreams(): void
+	{
+		//Nothing to remove if no transport
+		if (!this.transport)
+			return;
+
+		//For each ougoing stream
+		for (const stream of this.transport.getIncomingStreams())
 		{
-			case "initial":
-			case "stable":
-				//This is an offer
-				this.state = "remote-offer";
-				break;
-			case "local-offer":
-				this.state = "stable";
-				break;
+			//Get info
+			const streamInfo = this.remoteInfo?.getStream(stream.getId());
+			//If it was removed
+			if (!streamInfo)
+			{
+				//Stop stream
+				stream.stop();
+				//Next
+				continue;
+			}
+			//Check all tracks
+			for (const track of stream.getTracks())
+			{
+				//Get info
+				const trackInfo = streamInfo.getTrack(track.getId());
+				//If it was removed
+				if (!trackInfo)
+					//Stop
+					track.stop();
+			}
 		}
 	}
+
+	/** @override */
+	protected saveDescriptions(): void
+	{
+		this.saved = {
+			localInfo	: this.localInfo?.clone(),
+			remoteInfo	: this.remoteInfo?.clone(),
+			transport	: this.transport,
+		};
+	}
+
+	/** @override */
+	protected restoreDescriptions(): void
+	{
+		const saved = this.saved;
+
+		//Nothing to restore
+		if (!saved) return;
+
+		//If the transport was created by the rolled back offer
+		if (this.transport && !saved.transport)
+			//Stop it
+			this.transport.stop();
+
+		//Restore
+		this.localInfo	= saved.localInfo;
+		this.remoteInfo	= saved.remoteInfo;
+		this.transport	= saved.transport;
+
+		//Remove incoming streams and tracks created by the rolled back offer
+		this.removeIncomingStreams();
+
+		//Done
+		this.saved = undefined;
+	}
 	
 	
 	/** @override */
@@ -227,5 +274,3 @@ export class SDPManagerPlanB extends SDPManager
 		this.endpoint = null;
 	}
 }
-
-module.exports = SDPManagerPlanB;
@@ -12,6 +12,8 @@ import {
 	TrackType,
 	Capabilities,
 	MediaType,
+	SupportedMedia,
+	CodecInfo,
 } from 'semantic-sdp';
 
 import {Endpoint} from './Endpoint';
@@ -19,13 +21,22 @@ import {OutgoingStream} from './OutgoingStream';
 import {OutgoingStreamTrack} from './OutgoingStreamTrack';
 import {IncomingStream} from './IncomingStream';
 import {IncomingStreamTrack} from './IncomingStreamTrack';
-import { SDPManager } from './SDPManager';
+import { SDPManager, SDPType } from './SDPManager';
+import { Transport } from './Transport';
+
+export type TransceiverDirection = "sendrecv" | "sendonly" | "recvonly" | "inactive";
 
 interface Transceiver {
     mid: string;
     media: MediaType;
     local: TransceiverLocal;
     remote: TransceiverRemote;
+    /** Preferred direction set by the application */
+    direction?: TransceiverDirection;
+    /** Narrowed capabilities from codec preferences */
+    capabilities?: SupportedMedia;
+    /** Stopped transceivers are kept inactive until recycled by a new track */
+    stopped?: boolean;
 }
 
 interface TransceiverLocal {
@@ -42,6 +53,35 @@ interface TransceiverRemote {
     info?: MediaInfo;
 }
 
+/** Descriptions and transceivers before an offer, restored on rollback */
+interface SavedDescriptions {
+    localInfo?: SDPInfo;
+    remoteInfo?: SDPInfo;
+    transceivers: Transceiver[];
+    pending: Set<{ stream: OutgoingStream; track: OutgoingStreamTrack }>;
+    removed: Set<OutgoingStreamTrack>;
+    transport: Transport | null;
+    localICE?: ICEInfo;
+    remoteICE?: ICEInfo;
+    iceRestart: ICEInfo | null;
+}
+
+function isSending(direction: TransceiverDirection): boolean
+{
+	return direction==="sendrecv" || direction==="sendonly";
+}
+
+function isReceiving(direction: TransceiverDirection): boolean
+{
+	return direction==="sendrecv" || direction==="recvonly";
+}
+
+function getCodecName(codec: string): string
+{
+	//Remove any parameter (i.e. "h264;packetization-mode=1")
+	return codec.split(";")[0].trim().toLowerCase();
+}
+
 export class SDPManagerUnified extends SDPManager
 {
 	endpoint: Endpoint;
@@ -53,6 +93,9 @@ export class SDPManagerUnified extends SDPManager
     localInfo?: SDPInfo;
     remoteInfo?: SDPInfo;
 	processing: boolean;
+    saved?: SavedDescriptions;
+    iceRestart: ICEInfo | null;
+    transceiversChanged: boolean;
 
 	constructor(
 		endpoint: Endpoint,
@@ -74,12 +117,45 @@ export class SDPManagerUnified extends SDPManager
 		//Renegotiation needed flag
 		this.renegotiationNeeded = false;
 		this.processing = false;
+		//Pending local ICE credentials for restarting ICE
+		this.iceRestart = null;
+		//Transceiver direction or codecs changed since last offer
+		this.transceiversChanged = false;
+	}
+
+	/**
+	 * Restart ICE on next offer. New local ICE credentials are generated and
+	 * set on the transport once the remote answer is received.
+	 */
+	restartIce(): void
+	{
+		//Nothing to restart if not connected yet
+		if (!this.transport)
+			return;
+
+		//Generate new local credentials
+		this.iceRestart = ICEInfo.generate(true);
+
+		//Renegotiate
+		this.renegotiate();
 	}
 	
 	
 	/** @override */
-	createLocalDescription(): string
+	createLocalDescription(type?: SDPType): string
 	{
+		//Check we can set the local description on current state
+		const resolved = this.checkTransition("local", type);
+
+		//If rolling back
+		if (resolved==="rollback")
+		{
+			//Discard pending offer
+			this.rollback();
+			//Return restored sdp
+			return this.localInfo ? this.localInfo.toString() : "";
+		}
+
 		//If there is no local info
 		if (!this.localInfo)
 		{
@@ -112,6 +188,15 @@ export class SDPManagerUnified extends SDPManager
 			}
 		}
 		
+		//If we are restarting ICE
+		if (this.iceRestart && resolved==="offer")
+			//Offer new credentials
+			this.localInfo.setICE(this.iceRestart);
+
+		//Transceiver changes are included on this offer
+		if (resolved==="offer")
+			this.transceiversChanged = false;
+
 		//First process all removed tracks
 		for (const track of this.removed)
 			//Check the transceivers
@@ -122,9 +207,9 @@ export class SDPManagerUnified extends SDPManager
 					//Clean transceiver
 					delete(transceiver.local.track);
 					delete(transceiver.local.stream);
-					//Clean from removed
-					this.removed.delete(track);
 				}
+		//All removed, even the ones already detached from its transceiver
+		this.removed.clear();
 		
 		//Check if we can add new transceicers
 		if (this.state === 'initial' || this.state === 'stable')
@@ -132,47 +217,33 @@ export class SDPManagerUnified extends SDPManager
 			//For all pending transceivers
 			for (const pending of this.pending)
 			{
-				//TODO: Check if we can reuse any empty 
-				/*
-				 let found = false;
-				 
-				for (const transceiver of this.transceivers)
+				//Get media type
+				const media = pending.track.getMedia();
+				//Check if we can reuse any stopped transceiver already negotiated as inactive
+				const recycled = this.transceivers.find(transceiver => 
+					transceiver.stopped &&
+					transceiver.media === media &&
+					!transceiver.local.track &&
+					!transceiver.remote.track &&
+					transceiver.local.info?.getDirection() === Direction.INACTIVE
+				);
+				//If found
+				if (recycled)
 				{
-					 //Check new direction for local stuff
-					switch(mediaInfo.getDirection())
-					{
-						case Direction.INACTIVE:
-						case Direction.SENDONLY:
-							//If we had one track on this
-							if (transceiver.local.track)
-								//Stop it
-								transceiver.local.track.stop();
-							//Delete it from transceiver
-							delete (transceiver.local.track);
-							break;
-						case Direction.SENDRECV:
-						case Direction.RECVONLY:
-							//if we don't have a track and we had pending for adding
-							if (!transceiver.local.track && this.pending.size)
-							{
-								//Get first one and remove it
-								const first = this.pending.values().next();
-								//Add it to the localInfo
-								transceiver.local.track  = first.track;
-								transceiver.local.stream = first.stream;
-								//Remove from set
-								this.pending.delete(first);
-							}
-							break;
-					}
+					//Not stopped anymore
+					delete(recycled.stopped);
+					delete(recycled.direction);
+					delete(recycled.capabilities);
+					//Restore all supported codecs, the previous ones could have been narrowed by preferences or the remote answer
+					this.localInfo.getMediaById(recycled.mid)?.setCodecs(MediaInfo.create(recycled.mid, media, this.capabilities[media]).getCodecs());
+					//Use it for sending the track
+					recycled.local.track	= pending.track;
+					recycled.local.stream	= pending.stream;
+					//Next
+					continue;
 				}
-				if (!found).. the following
-				*/
-				
 				//New mid
 				const mid = String(this.transceivers.length);
-				//Get media type
-				const media = pending.track.getMedia();
 				//Add new transceiver
 				this.transceivers.push({
 					mid	: mid,
@@ -197,26 +268,36 @@ export class SDPManagerUnified extends SDPManager
 		{
 			//Get associated media info
 			let mediaInfo = this.localInfo.getMediaById(transceiver.mid);
+			//If there was none
+			if (!mediaInfo)
+			{
+				//Clone first media of type
+				mediaInfo = this.localInfo.getMedia(transceiver.media).clone();
+				//Set mid
+				mediaInfo.setId(transceiver.mid);
+				//Add to local info
+				this.localInfo.addMedia(mediaInfo);
+			}
+			//We send if we have a track and the preferred direction allows it
+			const send = !transceiver.stopped && !!transceiver.local.track && (!transceiver.direction || isSending(transceiver.direction));
+			//We receive if the preferred direction allows it, or by default if we have a remote track
+			const recv = !transceiver.stopped && (transceiver.direction ? isReceiving(transceiver.direction) : !!transceiver.remote.track);
+			//Set direction
+			if (send && recv)
+				//Send and receive
+				mediaInfo.setDirection(Direction.SENDRECV);
+			else if (send)
+				//Send only
+				mediaInfo.setDirection(Direction.SENDONLY);
+			else if (recv)
+				//Receving
+				mediaInfo.setDirection(Direction.RECVONLY);
+			else
+				//Inactive
+				mediaInfo.setDirection(Direction.INACTIVE);
 			//If we are sending on this transceiver
-			if (transceiver.local.track)
+			if (send && transceiver.local.track)
 			{
-				//If there was none
-				if (!mediaInfo)
-				{
-					//Clone first media of type
-					mediaInfo = this.localInfo.getMedia(transceiver.media).clone();
-					//Set mid
-					mediaInfo.setId(transceiver.mid);
-					//Add to local info
-					this.localInfo.addMedia(mediaInfo);
-				} 
-				//Check if we have a remote track for this
-				if (transceiver.remote.track)
-					//Send and receive
-					mediaInfo.setDirection(Direction.SENDRECV);
-				else
-					//Receive only
-					mediaInfo.setDirection(Direction.SENDONLY);
 				//Get stream info
 				const id = transceiver.local.stream!.getId();
 				let streamInfo = this.localInfo.getStream(id);
@@ -232,34 +313,23 @@ export class SDPManagerUnified extends SDPManager
 				trackInfo.setMediaId(transceiver.mid);
 				//Add to stream
 				streamInfo.addTrack(trackInfo);
-			} else {
-				//Check if we have a remote track for this
-				if (transceiver.remote.track)
-					//Receving
-					mediaInfo.setDirection(Direction.RECVONLY);
-				else
-					//Inactive
-					mediaInfo.setDirection(Direction.INACTIVE);
 			}
+			//If we have codec preferences
+			if (transceiver.capabilities)
+				//Narrow codecs, when answering they must be a subset of the offered ones
+				mediaInfo.setCodecs(resolved==="offer" || !transceiver.remote.info
+					? MediaInfo.create(transceiver.mid, transceiver.media, transceiver.capabilities).getCodecs()
+					: transceiver.remote.info.answer(transceiver.capabilities).getCodecs()
+				);
 			//Set lotal info
 			transceiver.local.info = mediaInfo;
 		}
 		
 		//Modify status
-		switch (this.state)
-		{
-			case "initial":
-			case "stable":
-				//This is an offer
-				this.state = "local-offer";
-				break;
-			case "remote-offer":
-				this.state = "stable";
-				break;
-		}
+		this.applyTransition("local", resolved);
 		
-		//If there re still pending
-		if (this.pending.size || this.removed.size)
+		//If there re still pending, or an ICE restart not offered yet
+		if (this.pending.size || this.removed.size || ((this.iceRestart || this.transceiversChanged) && resolved!=="offer"))
 			//Renegotiate again
 			this.renegotiate();
 		
@@ -267,6 +337,130 @@ export class SDPManagerUnified extends SDPManager
 		return this.localInfo.toString();
 	}
 	
+	/**
+	 * Get transceiver by mid
+	 * @param {String} mid - Media id of the transceiver
+	 */
+	private getTransceiver(mid: string): Transceiver
+	{
+		//Find transceiver
+		const transceiver = this.transceivers.find(transceiver => transceiver.mid === mid);
+		//If not found
+		if (!transceiver)
+			throw new Error("Transceiver not found for mid " + mid);
+		//Done
+		return transceiver;
+	}
+
+	/**
+	 * Set preferred direction of a transceiver
+	 * @param {String} mid				- Media id of the transceiver
+	 * @param {TransceiverDirection} direction	- Preferred direction
+	 */
+	setDirection(mid: string, direction: TransceiverDirection): void
+	{
+		//Get transceiver
+		const transceiver = this.getTransceiver(mid);
+
+		//Can't change direction of stopped transceivers
+		if (transceiver.stopped)
+			throw new Error("Cannot set direction, transceiver is stopped");
+
+		//If not changed
+		if (transceiver.direction === direction)
+			return;
+
+		//Store it
+		transceiver.direction = direction;
+
+		//Renegotiate
+		this.transceiversChanged = true;
+		this.renegotiate();
+	}
+
+	/**
+	 * Stop transceiver, its m-line will be set as inactive and reused by new tracks on later offers
+	 * The remote track is stopped, the local one is just detached from the transceiver as it is owned by the caller
+	 * @param {String} mid - Media id of the transceiver
+	 */
+	stopTransceiver(mid: string): void
+	{
+		//Get transceiver
+		const transceiver = this.getTransceiver(mid);
+
+		//Don't call it twice
+		if (transceiver.stopped)
+			return;
+
+		//Stopped
+		transceiver.stopped = true;
+
+		//Stop remote track
+		transceiver.remote.track?.stop();
+		delete(transceiver.remote.track);
+
+		//Detach local track, caller is responsible of stopping it
+		delete(transceiver.local.track);
+		delete(transceiver.local.stream);
+
+		//Renegotiate
+		this.transceiversChanged = true;
+		this.renegotiate();
+	}
+
+	/**
+	 * Set codec preferences for a transceiver, narrowing the capabilities used for its m-line
+	 * @param {String} mid		- Media id of the transceiver
+	 * @param {String[]} codecs	- Codec names in order of preference, empty to restore defaults
+	 */
+	setCodecPreferences(mid: string, codecs: string[]): void
+	{
+		//Get transceiver
+		const transceiver = this.getTransceiver(mid);
+
+		//Get capabilities for media
+		const capabilities = this.capabilities[transceiver.media];
+
+		//If not supported
+		if (!capabilities)
+			throw new Error("No capabilities for media " + transceiver.media);
+
+		//If restoring defaults
+		if (!codecs.length)
+		{
+			//Use all capabilities
+			transceiver.capabilities = capabilities;
+		} else if (capabilities.codecs instanceof Map) {
+			//Filter and sort supported codec infos
+			const supported = new Map<number, CodecInfo>();
+			for (const codec of codecs)
+				for (const [type,codecInfo] of capabilities.codecs)
+					if (getCodecName(codecInfo.getCodec()) === getCodecName(codec))
+						supported.set(type, codecInfo);
+			//Check we have any
+			if (!supported.size)
+				throw new Error("None of the preferred codecs is supported");
+			//Narrow capabilities
+			transceiver.capabilities = {...capabilities, codecs: supported};
+		} else {
+			//Filter and sort supported codec names keeping the parameters
+			const supported: string[] = [];
+			for (const codec of codecs)
+				for (const name of capabilities.codecs ?? [])
+					if (getCodecName(name) === getCodecName(codec))
+						supported.push(name);
+			//Check we have any
+			if (!supported.length)
+				throw new Error("None of the preferred codecs is supported");
+			//Narrow capabilities
+			transceiver.capabilities = {...capabilities, codecs: supported};
+		}
+
+		//Renegotiate
+		this.transceiversChanged = true;
+		this.renegotiate();
+	}
+
 	renegotiate(): void 
 	{
 		//Check if we already need to renegotiate
@@ -278,6 +472,9 @@ export class SDPManagerUnified extends SDPManager
 			setTimeout(()=>{
 				//Clean flag
 				this.renegotiationNeeded = false;
+				//If an offer/answer has started meanwhile, renegotiate again once completed
+				if (this.state !== 'initial' && this.state !== 'stable')
+					return;
 				//Emit event
 				this.emit("renegotiationneeded", this.transport!);
 			},0);
@@ -285,8 +482,20 @@ export class SDPManagerUnified extends SDPManager
 	}
 	
 	/** @override */
-	processRemoteDescription(sdp: string): string
+	processRemoteDescription(sdp: string, type?: SDPType): string
 	{
+		//Check we can set the remote description on current state
+		const resolved = this.checkTransition("remote", type);
+
+		//If rolling back
+		if (resolved==="rollback")
+		{
+			//Discard pending offer
+			this.rollback();
+			//Return restored sdp
+			return this.remoteInfo ? this.remoteInfo.toString() : "";
+		}
+
 		//Parse sdp
 		this.remoteInfo = SDPInfo.parse(sdp);
 		
@@ -339,8 +548,26 @@ export class SDPManagerUnified extends SDPManager
 			this.emit("transport",this.transport);
 		}
 		
+		//Get remote ICE credentials
+		const remoteICE = this.remoteInfo.getICE();
+
+		//If remote has restarted ICE
+		if (resolved==="offer" && remoteICE && remoteICE.getUfrag()!==this.transport.getRemoteICEInfo().getUfrag())
+		{
+			//Restart ICE with new local credentials, any pending local restart is done as well
+			this.transport.restartICE(remoteICE, this.iceRestart ?? ICEInfo.generate(true));
+			//Done
+			this.iceRestart = null;
+		//If remote has answered our ICE restart offer
+		} else if (resolved!=="offer" && this.iceRestart && this.localInfo?.getICE()===this.iceRestart) {
+			//Restart transport ICE
+			this.transport.restartICE(remoteICE, this.iceRestart);
+			//Done
+			this.iceRestart = null;
+		}
+
 		//If we need to anwser
-		if (this.state!="local-offer")
+		if (resolved==="offer")
 			//Answer it
 			this.localInfo = this.remoteInfo.answer({
 				dtls		: this.transport.getLocalDTLSInfo(),
@@ -396,8 +623,10 @@ export class SDPManagerUnified extends SDPManager
 				//Delete it from transceiver
 				delete (transceiver.remote.track);
 			}
+			//Check if we accept receiving on this transceiver
+			const receiving = !transceiver.stopped && (!transceiver.direction || isReceiving(transceiver.direction));
 			//Check new direction for remote stuff
-			switch(mediaInfo.getDirection())
+			switch(receiving ? mediaInfo.getDirection() : Direction.INACTIVE)
 			{
 				case Direction.SENDRECV:
 				case Direction.SENDONLY:
@@ -433,23 +662,13 @@ export class SDPManagerUnified extends SDPManager
 		}
 		
 		//Modify status
-		switch (this.state)
-		{
-			case "initial":
-			case "stable":
-				//This is an offer
-				this.state = "remote-offer";
-				break;
-			case "local-offer":
-				this.state = "stable";
-				break;
-		}
+		this.applyTransition("remote", resolved);
 		
 		//Not processint SDP anymore
 		this.processing = false;
 		
 		//If there re still pending
-		if (this.pending.size || this.removed.size)
+		if (this.pending.size || this.removed.size || this.iceRestart || this.transceiversChanged)
 			//Renegotiate again
 			this.renegotiate();
 		
@@ -457,6 +676,82 @@ export class SDPManagerUnified extends SDPManager
 		return this.remoteInfo.toString();
 	}
 	
+	/** @override */
+	rollback(): void
+	{
+		//Roll back
+		super.rollback();
+
+		//If there re still pending
+		if (this.pending.size || this.removed.size || this.iceRestart || this.transceiversChanged)
+			//Renegotiate again
+			this.renegotiate();
+	}
+
+	/** @override */
+	protected saveDescriptions(): void
+	{
+		this.saved = {
+			localInfo	: this.localInfo?.clone(),
+			remoteInfo	: this.remoteInfo?.clone(),
+			transceivers	: this.transceivers.map(transceiver => ({
+				...transceiver,
+				local	: {...transceiver.local},
+				remote	: {...transceiver.remote},
+			})),
+			pending		: new Set(this.pending),
+			removed		: new Set(this.removed),
+			transport	: this.transport,
+			localICE	: this.transport?.getLocalICEInfo(),
+			remoteICE	: this.transport?.getRemoteICEInfo(),
+			iceRestart	: this.iceRestart,
+		};
+	}
+
+	/** @override */
+	protected restoreDescriptions(): void
+	{
+		const saved = this.saved;
+
+		//Nothing to restore
+		if (!saved) return;
+
+		//Get remote tracks present before the offer
+		const tracks = new Set(saved.transceivers.map(transceiver => transceiver.remote.track));
+
+		//Stop remote tracks created by the rolled back offer
+		for (const transceiver of this.transceivers)
+			if (transceiver.remote.track && !tracks.has(transceiver.remote.track))
+				transceiver.remote.track.stop();
+
+		//Keep tracks added or removed while the offer was pending
+		for (const pending of this.pending)
+			saved.pending.add(pending);
+		for (const track of this.removed)
+			saved.removed.add(track);
+
+		//If the transport was created by the rolled back offer
+		if (this.transport && !saved.transport)
+			//Stop it
+			this.transport.stop();
+		//If the rolled back offer restarted ICE
+		else if (this.transport && saved.localICE && saved.remoteICE && this.transport.getRemoteICEInfo()!==saved.remoteICE)
+			//Go back to previous ICE credentials
+			this.transport.restartICE(saved.remoteICE, saved.localICE);
+
+		//Restore
+		this.localInfo		= saved.localInfo;
+		this.remoteInfo		= saved.remoteInfo;
+		this.transceivers	= saved.transceivers;
+		this.pending		= saved.pending;
+		this.removed		= saved.removed;
+		this.transport		= saved.transport;
+		this.iceRestart		= this.iceRestart ?? saved.iceRestart;
+
+		//Done
+		this.saved = undefined;
+	}
+	
 	/** @override */
 	stop(): void
 	{
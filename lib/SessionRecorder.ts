@@ -0,0 +1,387 @@
+import * as fs from "fs";
+import * as path from "path";
+import Emitter from "medooze-event-emitter";
+import {TrackType} from "semantic-sdp";
+import {Recorder, RecorderParams} from "./Recorder";
+import {IncomingStream} from "./IncomingStream";
+import {IncomingStreamTrack} from "./IncomingStreamTrack";
+import {ActiveSpeakerDetector} from "./ActiveSpeakerDetector";
+
+export interface SessionRecorderOptions {
+	/** Directory where the track recordings and the manifest are written, it is created if it does not exist */
+	directory: string;
+	/** Manifest filename relative to the directory [Default: "manifest.json"] */
+	manifest?: string;
+	/** Params for each track recorder */
+	recorder?: Omit<RecorderParams, "timeShift" | "segment">;
+	/** Add the active speaker changes of this detector to the timeline */
+	activeSpeakerDetector?: ActiveSpeakerDetector;
+}
+
+/** Time interval in ms since epoch, end is not set while open */
+export interface SessionTimelineInterval {
+	start: number;
+	end?: number;
+}
+
+/** Recorded track file */
+export interface SessionTimelineFile {
+	/** Filename relative to the manifest directory */
+	filename: string;
+	streamId: string;
+	trackId: string;
+	media: TrackType;
+	/** Wallclock time when first frame was recorded, not set if no media has been recorded */
+	start?: number;
+	/** Wallclock time when the recording of the track was stopped */
+	end?: number;
+	/** Intervals when the track was muted */
+	mutes: SessionTimelineInterval[];
+}
+
+/** Stream that has been part of the session */
+export interface SessionTimelineStream {
+	id: string;
+	/** Wallclock time when the stream was added to the session */
+	join: number;
+	/** Wallclock time when the stream left the session */
+	leave?: number;
+}
+
+/** Active speaker change */
+export interface SessionTimelineSpeaker {
+	time: number;
+	streamId: string;
+	trackId: string;
+}
+
+/** Session timeline manifest, all times are in ms since epoch */
+export interface SessionTimeline {
+	version: 1;
+	start: number;
+	end?: number;
+	streams: SessionTimelineStream[];
+	files: SessionTimelineFile[];
+	speakers: SessionTimelineSpeaker[];
+}
+
+/** Recording state of a track */
+interface SessionRecorderTrack {
+	stream: IncomingStream;
+	file: SessionTimelineFile;
+	recorder: Recorder;
+	onMuted: (muted: boolean) => void;
+	onStopped: () => void;
+}
+
+/** Recording state of a stream */
+interface SessionRecorderStream {
+	entry: SessionTimelineStream;
+	onTrack: (stream: IncomingStream, track: IncomingStreamTrack) => void;
+	onStopped: () => void;
+}
+
+interface SessionRecorderEvents {
+	stopped: (self: SessionRecorder) => void;
+	/** New track file is being recorded */
+	file: (file: SessionTimelineFile, recorder: Recorder, self: SessionRecorder) => void;
+	/** Manifest has been written */
+	manifest: (timeline: SessionTimeline, filename: string, self: SessionRecorder) => void;
+	/** Track file could not be closed when its track or stream was stopped */
+	recordererror: (file: SessionTimelineFile, error: Error, self: SessionRecorder) => void;
+}
+
+/**
+ * Get a string that can be used safely on a filename
+ * @param {String} id
+ */
+function sanitize(id: string): string
+{
+	return id.replace(/[^\w.-]/g, "_");
+}
+
+/**
+ * SessionRecorder records each track of several incoming streams on its own mp4 file and keeps a timeline of the session for offline composition
+ */
+export class SessionRecorder extends Emitter<SessionRecorderEvents>
+{
+	directory: string;
+	options: SessionRecorderOptions;
+	timeline: SessionTimeline;
+	streams: Map<IncomingStream, SessionRecorderStream>;
+	tracks: Map<IncomingStreamTrack, SessionRecorderTrack>;
+	fileIndex: number;
+	stopped: boolean;
+
+	constructor(options: SessionRecorderOptions)
+	{
+		//Init emitter
+		super();
+
+		//Check directory
+		if (!options.directory)
+			//Error
+			throw new Error("Session recording directory not specified");
+
+		//Store options
+		this.directory = options.directory;
+		this.options = options;
+
+		//Create directory
+		fs.mkdirSync(this.directory, { recursive: true });
+
+		//Start timeline
+		this.timeline = {
+			version		: 1,
+			start		: Date.now(),
+			streams		: [],
+			files		: [],
+			speakers	: [],
+		};
+
+		this.streams = new Map();
+		this.tracks = new Map();
+		this.fileIndex = 0;
+		this.stopped = false;
+
+		// bind `this` since this function will be called by event handler
+		this.onActiveSpeakerChanged = this.onActiveSpeakerChanged.bind(this);
+
+		//Listen for speaker changes
+		this.options.activeSpeakerDetector?.on("activespeakerchanged", this.onActiveSpeakerChanged);
+	}
+
+	private onActiveSpeakerChanged(track: IncomingStreamTrack): void {
+		//Get recorded track
+		const recorded = this.tracks.get(track);
+		//If it is part of the session
+		if (recorded)
+			//Add to timeline
+			this.timeline.speakers.push({
+				time		: Date.now(),
+				streamId	: recorded.file.streamId,
+				trackId		: recorded.file.trackId,
+			});
+	}
+
+	/**
+	 * Record all the tracks of an incoming stream, tracks added later to the stream are also recorded
+	 * @param {IncomingStream} incomingStream
+	 */
+	record(incomingStream: IncomingStream): void
+	{
+		//Check not stopped and not already recorded
+		if (this.stopped || this.streams.has(incomingStream))
+			return;
+
+		//Add stream to timeline
+		const entry: SessionTimelineStream = {
+			id	: incomingStream.getId(),
+			join	: Date.now(),
+		};
+		this.timeline.streams.push(entry);
+
+		//Listen stream events
+		const onTrack = (stream: IncomingStream, track: IncomingStreamTrack) => this.recordTrack(incomingStream, track);
+		//Files that could not be closed are reported with the recordererror event
+		const onStopped = () => { this.stopRecording(incomingStream).catch(() => {}); };
+		incomingStream.on("track", onTrack);
+		incomingStream.once("stopped", onStopped);
+
+		//Store it
+		this.streams.set(incomingStream, { entry, onTrack, onStopped });
+
+		//Record current tracks
+		for (const track of incomingStream.getTracks())
+			this.recordTrack(incomingStream, track);
+	}
+
+	/**
+	 * Stop recording an incoming stream, it will be marked as left on the timeline
+	 * @param {IncomingStream} incomingStream
+	 * @returns {Promise<void>} - Resolved when all the track files are closed, rejected if any of them could not be closed
+	 */
+	async stopRecording(incomingStream: IncomingStream): Promise<void>
+	{
+		//Get stream
+		const recorded = this.streams.get(incomingStream);
+		//If not found
+		if (!recorded)
+			return;
+
+		//Remove listeners
+		incomingStream.off("track", recorded.onTrack);
+		incomingStream.off("stopped", recorded.onStopped);
+		this.streams.delete(incomingStream);
+
+		//Left now
+		recorded.entry.leave = Date.now();
+
+		//Stop all its tracks
+		const stopping: Promise<void>[] = [];
+		for (const [track, state] of this.tracks)
+			if (state.stream === incomingStream)
+				stopping.push(this.stopTrack(track));
+
+		//Wait for all files to be closed, even if some of them fail
+		const errors: unknown[] = [];
+		await Promise.all(stopping.map(promise => promise.catch(e => { errors.push(e); })));
+
+		//Fail with first one
+		if (errors.length)
+			throw errors[0];
+	}
+
+	private recordTrack(incomingStream: IncomingStream, track: IncomingStreamTrack): void
+	{
+		//Check not already recorded
+		if (this.tracks.has(track))
+			return;
+
+		//Create file entry, files are never overwritten even if the same stream joins again
+		const file: SessionTimelineFile = {
+			filename	: `${this.fileIndex++}-${sanitize(incomingStream.getId())}-${sanitize(track.getId())}.mp4`,
+			streamId	: incomingStream.getId(),
+			trackId		: track.getId(),
+			media		: track.getMedia(),
+			mutes		: [],
+		};
+
+		//If it is muted already
+		if (track.isMuted())
+			//Start mute interval
+			file.mutes.push({ start: Date.now() });
+
+		//Create recorder
+		const recorder = new Recorder(path.join(this.directory, file.filename), this.options.recorder);
+
+		//Get wallclock of first recorded frame
+		recorder.once("started", (recorder, timestamp) => file.start = timestamp);
+
+		//Listen track events
+		const onMuted = (muted: boolean) => {
+			//Get last interval
+			const last = file.mutes[file.mutes.length - 1];
+			//Start or end interval
+			if (muted && (!last || last.end !== undefined))
+				file.mutes.push({ start: Date.now() });
+			else if (!muted && last && last.end === undefined)
+				last.end = Date.now();
+		};
+		//Files that could not be closed are reported with the recordererror event
+		const onStopped = () => { this.stopTrack(track).catch(() => {}); };
+		track.on("muted", onMuted);
+		track.once("stopped", onStopped);
+
+		//Store it
+		this.tracks.set(track, { stream: incomingStream, file, recorder, onMuted, onStopped });
+		this.timeline.files.push(file);
+
+		//Start recording
+		recorder.record(track);
+
+		//Emit event
+		this.emit("file", file, recorder, this);
+	}
+
+	private async stopTrack(track: IncomingStreamTrack): Promise<void>
+	{
+		//Get track
+		const recorded = this.tracks.get(track);
+		//If not found
+		if (!recorded)
+			return;
+
+		//Remove listeners
+		track.off("muted", recorded.onMuted);
+		track.off("stopped", recorded.onStopped);
+		this.tracks.delete(track);
+
+		//Get stop time
+		const end = Date.now();
+
+		//Close open mute interval
+		const last = recorded.file.mutes[recorded.file.mutes.length - 1];
+		if (last && last.end === undefined)
+			last.end = end;
+
+		//Track ended now
+		recorded.file.end = end;
+
+		try {
+			//Close file
+			await recorded.recorder.stop();
+		} catch (e) {
+			//Report it unless the whole session is being stopped, stop() is rejected instead
+			if (!this.stopped)
+				this.emit("recordererror", recorded.file, e as Error, this);
+			throw e;
+		}
+	}
+
+	/**
+	 * Get the session timeline
+	 * @returns {SessionTimeline}
+	 */
+	getTimeline(): SessionTimeline
+	{
+		return this.timeline;
+	}
+
+	/**
+	 * Write current timeline to the manifest file. It is done automatically when the session recorder is stopped
+	 * @returns {Promise<String>} - Manifest filename
+	 */
+	async writeManifest(): Promise<string>
+	{
+		//Get manifest filename
+		const filename = path.join(this.directory, this.options.manifest ?? "manifest.json");
+
+		//Write it
+		await fs.promises.writeFile(filename, JSON.stringify(this.timeline, null, "\t"));
+
+		//Emit event
+		this.emit("manifest", this.timeline, filename, this);
+
+		return filename;
+	}
+
+	/**
+	 * Stop recording all streams, close all files and write the manifest. The manifest is written even if some files could not be closed
+	 * @returns {Promise<SessionTimeline>} - Rejected if any file could not be closed
+	 */
+	async stop(): Promise<SessionTimeline>
+	{
+		//Don't call it twice
+		if (this.stopped) return this.timeline;
+
+		//Stopped
+		this.stopped = true;
+
+		//Stop listening for speaker changes
+		this.options.activeSpeakerDetector?.off("activespeakerchanged", this.onActiveSpeakerChanged);
+
+		try {
+			//Stop all streams, waiting for all of them even if some fail
+			const errors: unknown[] = [];
+			await Promise.all(Array.from(this.streams.keys()).map(stream => this.stopRecording(stream).catch(e => { errors.push(e); })));
+
+			//Fail with first one
+			if (errors.length)
+				throw errors[0];
+		} finally {
+			//Session ended
+			this.timeline.end = Date.now();
+
+			//Write manifest even if some files could not be closed
+			await this.writeManifest();
+
+			this.emit("stopped", this);
+
+			//Stop emitter
+			super.stop();
+		}
+
+		return this.timeline;
+	}
+}
@@ -0,0 +1,389 @@
+import { CandidateInfo, MediaInfo, TrackType } from "semantic-sdp";
+import { Transport } from "./Transport";
+import { IncomingMediaStats } from "./IncomingStreamTrack";
+
+/** Common fields of all stats, as in the W3C RTCStats dictionary */
+export interface ReportStatsBase {
+	id: string;
+	/** Timestamp in ms since epoch */
+	timestamp: number;
+}
+
+/** W3C RTCTransportStats */
+export interface TransportReportStats extends ReportStatsBase {
+	type: "transport";
+	packetsSent: number;
+	packetsReceived: number;
+	bytesSent: number;
+	bytesReceived: number;
+	dtlsState: string;
+	iceRole: "controlled";
+	iceLocalUsernameFragment: string;
+	selectedCandidatePairId?: string;
+	availableOutgoingBitrate?: number;
+}
+
+/** W3C RTCIceCandidatePairStats */
+export interface CandidatePairReportStats extends ReportStatsBase {
+	type: "candidate-pair";
+	transportId: string;
+	/** Only set if it is known, the native transport doesn't report the local address in use */
+	localCandidateId?: string;
+	remoteCandidateId: string;
+	state: "succeeded";
+	nominated: boolean;
+	requestsSent?: number;
+	requestsReceived?: number;
+	responsesSent?: number;
+	responsesReceived?: number;
+	availableOutgoingBitrate?: number;
+}
+
+/** W3C RTCIceCandidateStats */
+export interface CandidateReportStats extends ReportStatsBase {
+	type: "local-candidate" | "remote-candidate";
+	transportId: string;
+	address: string;
+	port: number;
+	protocol: string;
+	candidateType: string;
+	priority: number;
+	foundation: string;
+	relatedAddress?: string;
+	relatedPort?: number;
+}
+
+/** W3C RTCCodecStats */
+export interface CodecReportStats extends ReportStatsBase {
+	type: "codec";
+	transportId: string;
+	payloadType: number;
+	mimeType: string;
+	clockRate?: number;
+	channels?: number;
+	sdpFmtpLine?: string;
+}
+
+/** Fields shared by inbound and outbound RTP stream stats */
+interface RtpStreamReportStats extends ReportStatsBase {
+	ssrc: number;
+	kind: TrackType;
+	transportId: string;
+	codecId?: string;
+	mid?: string;
+	rid?: string;
+}
+
+/** W3C RTCInboundRtpStreamStats */
+export interface InboundRtpReportStats extends RtpStreamReportStats {
+	type: "inbound-rtp";
+	trackIdentifier: string;
+	packetsReceived: number;
+	bytesReceived: number;
+	packetsLost: number;
+	packetsDiscarded?: number;
+	retransmittedPacketsReceived: number;
+	retransmittedBytesReceived: number;
+	nackCount?: number;
+	pliCount?: number;
+	framesReceived?: number;
+	framesPerSecond?: number;
+	frameWidth?: number;
+	frameHeight?: number;
+}
+
+/** W3C RTCOutboundRtpStreamStats */
+export interface OutboundRtpReportStats extends RtpStreamReportStats {
+	type: "outbound-rtp";
+	packetsSent: number;
+	bytesSent: number;
+	retransmittedPacketsSent: number;
+	retransmittedBytesSent: number;
+	framesSent?: number;
+	framesPerSecond?: number;
+	remoteId?: string;
+}
+
+/** W3C RTCRemoteInboundRtpStreamStats */
+export interface RemoteInboundRtpReportStats extends RtpStreamReportStats {
+	type: "remote-inbound-rtp";
+	localId: string;
+	packetsLost: number;
+	fractionLost: number;
+	/** Jitter in seconds */
+	jitter?: number;
+	/** Round trip time in seconds */
+	roundTripTime?: number;
+}
+
+export type ReportStats =
+	TransportReportStats |
+	CandidatePairReportStats |
+	CandidateReportStats |
+	CodecReportStats |
+	InboundRtpReportStats |
+	OutboundRtpReportStats |
+	RemoteInboundRtpReportStats;
+
+/** Stats report keyed by stat id, as the W3C RTCStatsReport */
+export type StatsReport = Map<string, ReportStats>;
+
+//Well known audio codec clock rates, video is always 90khz
+const audioClockRates: { [codec: string]: number } = {
+	opus	: 48000,
+	pcmu	: 8000,
+	pcma	: 8000,
+	g722	: 8000,
+	multiopus	: 48000,
+};
+
+/**
+ * Get RTP clock rate for a codec
+ * @param {TrackType} media
+ * @param {String} codec
+ */
+function getClockRate(media: TrackType, codec: string): number | undefined
+{
+	return media === "video" ? 90000 : audioClockRates[codec.toLowerCase()];
+}
+
+/**
+ * Create candidate stats
+ */
+function getCandidateStats(type: CandidateReportStats["type"], transportId: string, candidate: CandidateInfo, timestamp: number): CandidateReportStats
+{
+	return {
+		id		: (type === "local-candidate" ? "IL_" : "IR_") + candidate.getAddress() + "_" + candidate.getPort(),
+		type		: type,
+		timestamp	: timestamp,
+		transportId	: transportId,
+		address		: candidate.getAddress(),
+		port		: candidate.getPort(),
+		protocol	: candidate.getTransport().toLowerCase(),
+		candidateType	: candidate.getType(),
+		priority	: candidate.getPriority(),
+		foundation	: candidate.getFoundation(),
+		relatedAddress	: candidate.getRelAddr(),
+		relatedPort	: candidate.getRelPort(),
+	};
+}
+
+/**
+ * Create a W3C like stats report for a transport and all its tracks
+ * @param {Transport} transport
+ * @returns {StatsReport}
+ */
+function getTransportStatsReport(transport: Transport): StatsReport
+{
+	const report: StatsReport = new Map();
+	const timestamp = Date.now();
+	const transportId = "T";
+
+	//Get transport stats
+	const stats = transport.getStats();
+	const availableOutgoingBitrate = transport.getAvailableOutgoingBitrate();
+
+	//Codec ids by media and name
+	const codecIds = new Map<string, string>();
+	//Negotiated codec used for sending each media, the first one
+	const sendCodecs = new Map<string, string>();
+
+	//For each negotiated media
+	for (const [media, info] of Object.entries(transport.localProperties ?? {}))
+	{
+		//Skip missing ones
+		if (!info)
+			continue;
+		//For each codec
+		for (const codec of MediaInfo.expand(info).getCodecs().values())
+		{
+			//Get fmtp line
+			const fmtp = Object.entries(codec.getParams()).map(([key, value]) => value !== undefined && value !== "" ? key + "=" + value : key).join(";");
+			const id = "C_" + media + "_" + codec.getType();
+			report.set(id, {
+				id		: id,
+				type		: "codec",
+				timestamp	: timestamp,
+				transportId	: transportId,
+				payloadType	: codec.getType(),
+				mimeType	: media + "/" + codec.getCodec(),
+				clockRate	: getClockRate(media as TrackType, codec.getCodec()),
+				channels	: codec.hasChannels() ? codec.getChannels() : undefined,
+				sdpFmtpLine	: fmtp || undefined,
+			});
+			//Keep first one of each codec
+			const key = media + "/" + codec.getCodec().toLowerCase();
+			if (!codecIds.has(key))
+				codecIds.set(key, id);
+			if (!sendCodecs.has(media))
+				sendCodecs.set(media, codec.getCodec());
+		}
+	}
+
+	//Transport totals
+	let packetsSent = 0, packetsReceived = 0, bytesSent = 0, bytesReceived = 0;
+
+	//For each incoming track
+	for (const stream of transport.getIncomingStreams())
+		for (const track of stream.getTracks())
+		{
+			//Get ssrcs
+			const ssrcs = track.getSSRCs();
+			const media = track.getMedia();
+			//For each encoding
+			for (const [encodingId, encoding] of Object.entries(track.getStats()))
+			{
+				const ssrc = ssrcs[encodingId]?.media;
+				//Skip unknown ones
+				if (!ssrc)
+					continue;
+				const id = "IT_" + media + "_" + ssrc;
+				const mediaStats: IncomingMediaStats = encoding.media;
+				report.set(id, {
+					id				: id,
+					type				: "inbound-rtp",
+					timestamp			: encoding.timestamp,
+					ssrc				: ssrc,
+					kind				: media,
+					transportId			: transportId,
+					codecId				: encoding.codec ? codecIds.get(media + "/" + encoding.codec.toLowerCase()) : undefined,
+					mid				: track.getMediaId() || undefined,
+					rid				: encodingId || undefined,
+					trackIdentifier			: track.getId(),
+					packetsReceived			: mediaStats.numPackets,
+					bytesReceived			: mediaStats.totalBytes,
+					packetsLost			: mediaStats.lostPackets,
+					packetsDiscarded		: mediaStats.dropPackets,
+					retransmittedPacketsReceived	: encoding.rtx.numPackets,
+					retransmittedBytesReceived	: encoding.rtx.totalBytes,
+					nackCount			: mediaStats.totalNACKs,
+					pliCount			: mediaStats.totalPLIs,
+					framesReceived			: media === "video" ? mediaStats.numFrames : undefined,
+					framesPerSecond			: media === "video" ? mediaStats.numFramesDelta : undefined,
+					frameWidth			: encoding.width,
+					frameHeight			: encoding.height,
+				});
+				//Update totals
+				packetsReceived	+= mediaStats.numPackets + encoding.rtx.numPackets;
+				bytesReceived	+= mediaStats.totalBytes + encoding.rtx.totalBytes;
+			}
+		}
+
+	//For each outgoing track
+	for (const stream of transport.getOutgoingStreams())
+		for (const track of stream.getTracks())
+		{
+			const media = track.getMedia();
+			const ssrc = track.getSSRCs().media;
+			const trackStats = track.getStats();
+			const codec = sendCodecs.get(media);
+			const id = "OT_" + media + "_" + ssrc;
+			const remoteId = "RI_" + media + "_" + ssrc;
+			const reported = trackStats.media.reported;
+			report.set(id, {
+				id				: id,
+				type				: "outbound-rtp",
+				timestamp			: trackStats.timestamp,
+				ssrc				: ssrc,
+				kind				: media,
+				transportId			: transportId,
+				codecId				: codec ? codecIds.get(media + "/" + codec.toLowerCase()) : undefined,
+				mid				: track.getMediaId() || undefined,
+				packetsSent			: trackStats.media.numPackets,
+				bytesSent			: trackStats.media.totalBytes,
+				retransmittedPacketsSent	: trackStats.rtx.numPackets,
+				retransmittedBytesSent		: trackStats.rtx.totalBytes,
+				framesSent			: media === "video" ? trackStats.media.numFrames : undefined,
+				framesPerSecond			: media === "video" ? trackStats.media.numFramesDelta : undefined,
+				remoteId			: reported ? remoteId : undefined,
+			});
+			//If we have got a receiver report
+			if (reported)
+			{
+				//Get clock rate of the negotiated codec
+				const clockRate = codec ? getClockRate(media, codec) : undefined;
+				report.set(remoteId, {
+					id		: remoteId,
+					type		: "remote-inbound-rtp",
+					timestamp	: trackStats.timestamp,
+					ssrc		: ssrc,
+					kind		: media,
+					transportId	: transportId,
+					localId		: id,
+					packetsLost	: reported.lostCount,
+					fractionLost	: reported.fractionLost,
+					jitter		: clockRate ? reported.jitter / clockRate : undefined,
+					roundTripTime	: trackStats.media.rtt ? trackStats.media.rtt / 1000 : undefined,
+				});
+			}
+			//Update totals
+			packetsSent	+= trackStats.media.numPackets + trackStats.rtx.numPackets;
+			bytesSent	+= trackStats.media.totalBytes + trackStats.rtx.totalBytes;
+		}
+
+	//Get selected candidate pair
+	let selectedCandidatePairId: string | undefined;
+	const remoteCandidate = transport.getSelectedCandidate();
+	const localCandidates = transport.getLocalCandidates();
+	//All local candidates share the same socket, so the one in use is only known if there is a single one
+	const localCandidate = localCandidates.length === 1 ? localCandidates[0] : undefined;
+
+	//Add local candidates
+	for (const candidate of localCandidates)
+	{
+		const candidateStats = getCandidateStats("local-candidate", transportId, candidate, timestamp);
+		report.set(candidateStats.id, candidateStats);
+	}
+	//Add remote candidates
+	for (const candidate of [...transport.getRemoteCandidates(), ...(remoteCandidate ? [remoteCandidate] : [])])
+	{
+		const candidateStats = getCandidateStats("remote-candidate", transportId, candidate, timestamp);
+		report.set(candidateStats.id, candidateStats);
+	}
+
+	//If ICE is connected
+	if (remoteCandidate)
+	{
+		const localCandidateId = localCandidate ? getCandidateStats("local-candidate", transportId, localCandidate, timestamp).id : undefined;
+		const remoteCandidateId = getCandidateStats("remote-candidate", transportId, remoteCandidate, timestamp).id;
+		selectedCandidatePairId = "CP_" + (localCandidateId ? localCandidateId + "_" : "") + remoteCandidateId;
+		report.set(selectedCandidatePairId, {
+			id				: selectedCandidatePairId,
+			type				: "candidate-pair",
+			timestamp			: timestamp,
+			transportId			: transportId,
+			localCandidateId		: localCandidateId,
+			remoteCandidateId		: remoteCandidateId,
+			state				: "succeeded",
+			nominated			: true,
+			requestsSent			: stats.ice?.requestsSent,
+			requestsReceived		: stats.ice?.requestsReceived,
+			responsesSent			: stats.ice?.responsesSent,
+			responsesReceived		: stats.ice?.responsesReceived,
+			availableOutgoingBitrate	: availableOutgoingBitrate,
+		});
+	}
+
+	//Add transport
+	report.set(transportId, {
+		id				: transportId,
+		type				: "transport",
+		timestamp			: timestamp,
+		packetsSent			: packetsSent,
+		packetsReceived			: packetsReceived,
+		bytesSent			: bytesSent,
+		bytesReceived			: bytesReceived,
+		dtlsState			: transport.getDTLSState(),
+		//We are always ice-lite
+		iceRole				: "controlled",
+		iceLocalUsernameFragment	: transport.getLocalICEInfo().getUfrag(),
+		selectedCandidatePairId		: selectedCandidatePairId,
+		availableOutgoingBitrate	: availableOutgoingBitrate,
+	});
+
+	return report;
+}
+
+export {
+	getTransportStatsReport,
+};
@@ -101,13 +101,8 @@ export class StreamerSession extends Emitter<StreamerSessionEvents>
 		this.incoming = new IncomingStreamTrack(mediaType, media.getType(), "", this.session.GetTimeService(), SharedPointer.SharedPointer(this.session.toRTPReceiver()), {'':SharedPointer.SharedPointer(this.session.GetIncomingSourceGroup())});
 		this.outgoing = new OutgoingStreamTrack(mediaType, media.getType(), "", this.session.toRTPSender(), SharedPointer.SharedPointer(this.session.GetOutgoingSourceGroup())); 
 		
-		//Try to get h264 codec
-		const h264 = media.getCodec("h264");
-		
-		//if it is h264 and has the sprop-parameter
-		if (h264 && h264.hasParam("sprop-parameter-sets"))
-			//Set h264 props
-			this.incoming.setH264ParameterSets(h264.getParam("sprop-parameter-sets"));
+		//Set h264, h265 and av1 out of band parameters
+		this.incoming.setOutOfBandParameters(media);
 		
 		//Stop listeners
 		this.incoming.once("stopped",()=>{
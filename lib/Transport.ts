@@ -26,6 +26,7 @@ import {OutgoingStream} from "./OutgoingStream";
 import {IncomingStreamTrack, NativeSourceMap} from "./IncomingStreamTrack";
 import {OutgoingStreamTrack} from "./OutgoingStreamTrack";
 import * as Endpoint from "./Endpoint";
+import {StatsReport, getTransportStatsReport} from "./StatsReport";
 
 let maxId = 0;
 
@@ -49,6 +50,95 @@ export interface TransportDumpOptions {
     bwe?: boolean;
 	/** When dumping bwe stats to a file, if it grows over this size wrap it up and start a new file [Default: 0 (No limit)] */
     bweFileSize?: number;
+	/** Start a new pcap file (name-N.pcap) when the current one grows over this size in bytes [Default: 0 (No limit)] */
+    fileSize?: number;
+	/** Start a new pcap file (name-N.pcap) when the current one has been written for this time in ms [Default: 0 (No limit)] */
+    fileDuration?: number;
+	/** Number of pcap files to keep, older ones are deleted [Default: 0 (Keep all)] */
+    maxFiles?: number;
+	/** Only dump rtp and rtcp packets of these ssrcs or tracks [Default: all] */
+    filter?: Array<number | IncomingStreamTrack | OutgoingStreamTrack>;
+	/** Keep only the last ms of packets in memory and write them to a new pcap file (name-N.pcap) each time {@link Transport.snapshotDump} is called [Default: 0 (Disabled)] */
+    window?: number;
+}
+
+/** Sender side estimation stats of a packet acknowledged by a transport wide feedback */
+export interface BWEStats {
+	/** Time the feedback was received in µs since the first packet was sent */
+    feedbackTime: number;
+    transportSeqNum: number;
+	/** Feedback packet count */
+    feedbackNum: number;
+	/** Packet size in bytes */
+    size: number;
+	/** Time the packet was sent in µs since the first packet was sent */
+    sentTime: number;
+	/** Time the packet was received by the remote peer in µs since the first packet was received, 0 if lost */
+    receivedTime: number;
+	/** Time since previous packet was sent in µs */
+    deltaSent: number;
+	/** Time since previous packet was received in µs */
+    deltaReceived: number;
+	/** Difference between the received and sent deltas in µs */
+    delta: number;
+	/** Accumulated delta in ms */
+    accumulatedDelta: number;
+	/** Min accumulated delta in ms */
+    accumulatedDeltaMin: number;
+	/** Estimated bitrate in bps */
+    estimatedBitrate: number;
+	/** Target bitrate in bps */
+    targetBitrate: number;
+	/** Available bitrate in bps */
+    availableBitrate: number;
+	/** Round trip time in ms */
+    rtt: number;
+	/** Min round trip time in ms */
+    rttMin: number;
+	/** Round trip time estimated from the accumulated delta in ms */
+    rttEstimated: number;
+	/** If packet had the rtp marker bit set */
+    mark: boolean;
+	/** If it was a retransmission */
+    rtx: boolean;
+	/** If it was a probing packet */
+    probing: boolean;
+	/** Estimator state */
+    state: number;
+}
+
+/**
+ * Parse a row of a bwe stats csv dump
+ * @param {String} row - Row without the line break
+ * @returns {BWEStats}
+ */
+export function parseBWEStats(row: string): BWEStats
+{
+	//Get values
+	const values = row.split("|").map(Number);
+	return {
+		feedbackTime		: values[0],
+		transportSeqNum		: values[1],
+		feedbackNum		: values[2],
+		size			: values[3],
+		sentTime		: values[4],
+		receivedTime		: values[5],
+		deltaSent		: values[6],
+		deltaReceived		: values[7],
+		delta			: values[8],
+		accumulatedDelta	: values[9],
+		accumulatedDeltaMin	: values[10],
+		estimatedBitrate	: values[11],
+		targetBitrate		: values[12],
+		availableBitrate	: values[13],
+		rtt			: values[14],
+		rttMin			: values[15],
+		rttEstimated		: values[16],
+		mark			: !!values[17],
+		rtx			: !!values[18],
+		probing			: !!values[19],
+		state			: values[20],
+	};
 }
 
 export interface TransportStats {
@@ -114,6 +204,8 @@ interface TransportEvents {
     outgoingtrack: (track: OutgoingStreamTrack, stream?: OutgoingStream) => void;
 	/** Error occurred when calling {@link setCandidateRawTxData} on behalf of the user */
     rawtxdataerror: (ip: string, port: number, error: any) => void;
+	/** Sender side estimation stats of a packet acknowledged by a transport wide feedback, see {@link Transport.startBWEStats} */
+    bwestats: (stats: BWEStats, self: Transport) => void;
 }
 
 /**
@@ -133,11 +225,19 @@ export class Transport extends Emitter<TransportEvents>
     connection: SharedPointer.Proxy<Native.RTPBundleTransportConnectionShared>;
     transport: SharedPointer.Proxy<Native.DTLSICETransportShared>;
     dtlsState: DTLSState = "new";
+    selectedCandidate?: CandidateInfo;
+    localProperties?: Utils.RTPProperties;
+    remoteProperties?: Utils.RTPProperties;
     listener: Native.DTLSICETransportListenerShared;
     lfsr: LFSR;
     stopped = false;
     audioRTX = false;
     dumping = false;
+    dumper?: SharedPointer.Proxy<Native.TransportDumperFacadeShared>;
+    dumpPipe?: Native.PipeReaderFacade;
+    /** Number of pcap packets dropped while the dump stream was not drained */
+    droppedDumpPackets = 0;
+    bwePipe?: Native.PipeReaderFacade;
     senderSideTargetBitrate?: number;
     senderSideEstimationBitrate?: number;
     bandwidthProbing?: boolean;
@@ -233,7 +333,9 @@ export class Transport extends Emitter<TransportEvents>
 		//Event listener for ice candidate activation
 		this.onremoteicecandidate = (ip: string, port: number, priority: number,
 		) => {
-			this.emit("remoteicecandidate", new CandidateInfo("1", 1, "UDP", priority, ip, port, "host"), this);
+			//Store active candidate
+			this.selectedCandidate = new CandidateInfo("1", 1, "UDP", priority, ip, port, "host");
+			this.emit("remoteicecandidate", this.selectedCandidate, this);
 		};
 
 		this.onunsignaledincomingsourcegroup = (group: Native.RTPIncomingSourceGroupShared) => {
@@ -318,11 +420,75 @@ export class Transport extends Emitter<TransportEvents>
 	}
 	
 	/**
-	 * Dump incoming and outgoint rtp and rtcp packets into a pcap file
-	 * @param {String} filename - Filename of the pcap file
+	 * Create a pipe which native code can write to as a file, delivering the written data on the node thread
+	 */
+	private createPipe(ondata: (buffer: Uint8Array) => void, onended?: () => void): Native.PipeReaderFacade
+	{
+		//Create native pipe reader
+		const pipe = new Native.PipeReaderFacade({ ondata, onended: onended ?? noop });
+		//Create pipe and start reading
+		if (!pipe.Open() || !pipe.Start())
+			throw new Error("Could not create pipe");
+		return pipe;
+	}
+
+	/**
+	 * Create a pipe writing the pcap data to a stream, packets are dropped whole while the stream has not been drained
+	 */
+	private createDumpPipe(stream: NodeJS.WritableStream): Native.PipeReaderFacade
+	{
+		//Data not forming a complete pcap header or packet yet
+		let pending = Buffer.alloc(0);
+		let started = false;
+		let congested = false;
+
+		return this.createPipe((buffer) => {
+			//Append to incomplete one
+			pending = Buffer.concat([pending, buffer]);
+			//Complete packets to write
+			const packets: Buffer[] = [];
+			let pos = 0;
+			//Global header is always written
+			if (!started)
+			{
+				//Wait until complete
+				if (pending.length < 24)
+					return;
+				packets.push(pending.subarray(0, 24));
+				started = true;
+				pos = 24;
+			}
+			//Split packets, record header has the captured length at offset 8
+			while (pos + 16 <= pending.length && pos + 16 + pending.readUInt32BE(pos + 8) <= pending.length)
+			{
+				//Get packet end
+				const end = pos + 16 + pending.readUInt32BE(pos + 8);
+				//Drop it if stream is not drained yet
+				if (congested)
+					this.droppedDumpPackets++;
+				else
+					packets.push(pending.subarray(pos, end));
+				pos = end;
+			}
+			//Keep the rest
+			pending = pending.subarray(pos);
+			//Write them
+			if (packets.length && !stream.write(Buffer.concat(packets)))
+			{
+				//Drop next ones until drained
+				congested = true;
+				stream.once("drain", () => congested = false);
+			}
+		}, () => stream.end());
+	}
+
+	/**
+	 * Dump incoming and outgoint rtp and rtcp packets into a pcap file or stream
+	 * @param {String|NodeJS.WritableStream} target - Filename of the pcap file, or stream to write the pcap data to. When dumping to a stream it is ended on {@link Transport.stopDump}, bwe stats are emitted as `bwestats` events and rotation and window are not supported.
+	 * The transport is never blocked by the stream, packets are dropped while it has not been drained, see {@link Transport.getDroppedDumpPackets}
 	 * @param {TransportDumpOptions} [options]  - Dump parameters
 	 */
-	dump(filename: string, options?: TransportDumpOptions): void
+	dump(target: string | NodeJS.WritableStream, options?: TransportDumpOptions): void
 	{
 		//Get what do we want to dump
 		const incoming		= options ? Boolean(options.incoming) : true;
@@ -332,21 +498,161 @@ export class Transport extends Emitter<TransportEvents>
 		const bwe		= options ? Boolean(options.bwe) : true;
 		const bweFileSize	= options ? Number(options.bweFileSize || 0) : 0;
 		
+		//Check if we need to rotate or keep a window
+		const rotating = options && (options.fileSize || options.fileDuration || options.window);
+		
+		//Check not already dumping
+		if (this.dumping)
+			throw new Error("Already dumping");
+		
+		//Check rotation is possible
+		if (rotating && typeof target !== "string")
+			throw new Error("Rotation and window are only supported when dumping to a file");
+		
 		//Check we are dumping anything
 		if (incoming || outgoing || rtcp)
 		{
-			//Start dumping
-			if (!this.transport.Dump(filename, incoming, outgoing, rtcp, rtpHeadersOnly))
+			//If dumping to a stream
+			if (typeof target !== "string")
+			{
+				//Write all pcap data to the stream
+				this.dumpPipe = this.createDumpPipe(target);
+				this.droppedDumpPackets = 0;
+			}
+			//Get pcap filename
+			const filename = typeof target === "string" ? target : this.dumpPipe!.GetPath();
+			
+			//If we need to rotate, filter or keep a window
+			if (rotating || options?.filter?.length)
+			{
+				//Create dumper
+				const dumper = SharedPointer.SharedPointer(new Native.TransportDumperFacadeShared(filename));
+				//Set rotation
+				dumper.SetMaxFileSize(Number(options?.fileSize || 0));
+				dumper.SetMaxDuration(Number(options?.fileDuration || 0));
+				dumper.SetMaxFiles(Number(options?.maxFiles || 0));
+				//Set trigger window
+				dumper.SetWindow(Number(options?.window || 0));
+				//For each filter
+				for (const item of options?.filter ?? [])
+				{
+					//Get all ssrcs
+					const ssrcs = typeof item === "number"
+						? [{ media: item }]
+						: item instanceof OutgoingStreamTrack
+							? [item.getSSRCs()]
+							: Object.values(item.getSSRCs());
+					//Add them
+					for (const { media, rtx, fec } of ssrcs)
+						for (const ssrc of [media, rtx, fec])
+							if (ssrc) dumper.AddSSRC(ssrc);
+				}
+				//Start dumping, transport takes ownership of the native dumper
+				this.dumping = !!this.transport.Dump(dumper.CreateUDPDumper(), incoming, outgoing, rtcp, rtpHeadersOnly);
+				this.dumper = dumper;
+			} else {
+				//Start dumping
+				this.dumping = !!this.transport.Dump(filename, incoming, outgoing, rtcp, rtpHeadersOnly);
+			}
+			//If failed
+			if (!this.dumping)
+			{
+				//Close pipe if any
+				this.dumpPipe?.Stop();
+				this.dumpPipe = undefined;
+				this.dumper = undefined;
 				throw new Error("Could not dump to pcap file");
-			this.dumping = true;
+			}
 		}
 		//Check if we are dumping bwe
-		if (bwe && typeof filename==="string")
+		if (bwe && typeof target==="string")
+		{
 			//Start dumping
-			if (!this.transport.DumpBWEStats(filename.replace(".pcap",".csv"), bweFileSize))
+			if (!this.transport.DumpBWEStats(target.replace(".pcap",".csv"), bweFileSize))
 				throw new Error("Could not dump to bwe csv file");
+		} else if (bwe) {
+			//Emit them as events instead
+			this.startBWEStats();
+		}
+	}
+	
+	/**
+	 * Start emitting `bwestats` events with the sender side estimation stats of each packet acknowledged by a transport wide feedback.
+	 * It can't be used while dumping bwe stats to a csv file.
+	 */
+	startBWEStats(): void
+	{
+		//Check not already started
+		if (this.bwePipe)
+			return;
+		
+		//Pending data of incomplete rows
+		let pending = "";
+		
+		//Create pipe
+		const pipe = this.createPipe((buffer) => {
+			//Split rows
+			const rows = (pending + Buffer.from(buffer).toString()).split("\n");
+			//Last one is not complete yet
+			pending = rows.pop() ?? "";
+			//Emit each one
+			for (const row of rows)
+				if (row.length)
+					this.emit("bwestats", parseBWEStats(row), this);
+		});
+		
+		//Dump bwe stats as csv to it
+		if (!this.transport.DumpBWEStats(pipe.GetPath(), 0))
+		{
+			//Close pipe
+			pipe.Stop();
+			throw new Error("Could not dump bwe stats");
+		}
+		
+		this.bwePipe = pipe;
 	}
 	
+	/**
+	 * Stop emitting `bwestats` events
+	 */
+	stopBWEStats(): void
+	{
+		//Check started
+		if (!this.bwePipe)
+			return;
+		//Stop dumping
+		this.transport.StopDumpBWEStats();
+		//Stop pipe, pending data will still be emitted
+		this.bwePipe.Stop();
+		this.bwePipe = undefined;
+	}
+	
+	/**
+	 * Write the packets kept in memory when dumping with a window to a new pcap file, they are kept in the window until they are older than it
+	 * @returns {String} Filename of the pcap file
+	 */
+	snapshotDump(): string
+	{
+		//Check we are dumping
+		if (!this.dumper)
+			throw new Error("Not dumping with a window");
+		//Write it, empty if not dumping with a window
+		const filename = this.dumper.Snapshot();
+		//Check it was written
+		if (!filename)
+			throw new Error("Could not write pcap snapshot");
+		return filename;
+	}
+	
+	/**
+	 * Get number of packets dropped when dumping to a stream because it was not drained fast enough
+	 * @returns {Number}
+	 */
+	getDroppedDumpPackets(): number
+	{
+		return this.droppedDumpPackets;
+	}
+
 	/**
 	 * Stop dumping transport rtp and rtcp packets
 	 */
@@ -356,7 +662,15 @@ export class Transport extends Emitter<TransportEvents>
 		if (this.dumping)
 			this.transport.StopDump();
 		this.dumping = false;
-		this.transport.StopDumpBWEStats();
+		this.dumper = undefined;
+		//Stop pipe, the stream is ended after pending data is written
+		this.dumpPipe?.Stop();
+		this.dumpPipe = undefined;
+		//Stop bwe stats events or file
+		if (this.bwePipe)
+			this.stopBWEStats();
+		else
+			this.transport.StopDumpBWEStats();
 	}
 	
 	/**
@@ -377,6 +691,15 @@ export class Transport extends Emitter<TransportEvents>
 		};
 	}
 
+	/**
+	 * Get transport, ICE and RTP stats of all the tracks as a W3C RTCStatsReport like map
+	 * @returns {StatsReport} stats keyed by stat id
+	 */
+	getStatsReport(): StatsReport
+	{
+		return getTransportStatsReport(this);
+	}
+
 	/**
 	 * Restart ICE on transport object
 	 * @param {SemanticSDP.ICEInfoLike}  remoteICE_	Remote ICE info, containing the username and password
@@ -524,8 +847,10 @@ export class Transport extends Emitter<TransportEvents>
 	 */
 	setLocalProperties(rtp: Utils.RTPProperties | SDPInfo): void
 	{
+		//Keep them for stats
+		this.localProperties = Utils.parseRTPProperties(rtp);
 		//Get native properties
-		let properties = Utils.convertRTPProperties(Utils.parseRTPProperties(rtp));
+		let properties = Utils.convertRTPProperties(this.localProperties);
 		//Set it
 		this.transport.SetLocalProperties(properties);
 	}
@@ -536,7 +861,7 @@ export class Transport extends Emitter<TransportEvents>
 	 */
 	setRemoteProperties(rtp: Utils.RTPProperties | SDPInfo): void
 	{
-		const parsed = Utils.parseRTPProperties(rtp);
+		const parsed = this.remoteProperties = Utils.parseRTPProperties(rtp);
 		//Get native properties
 		let properties = Utils.convertRTPProperties(parsed);
 		//Check if remote audio supports rtx
@@ -626,6 +951,15 @@ export class Transport extends Emitter<TransportEvents>
 		return this.remote.candidates;
 	}
 
+	/**
+	 * Get remote ICE candidate in use, if any
+	 * @returns {CandidateInfo | undefined}
+	 */
+	getSelectedCandidate(): CandidateInfo | undefined
+	{
+		return this.selectedCandidate;
+	}
+
 	/**
 	 * Register a remote candidate info. Only needed for ice-lite to ice-lite endpoints
 	 * @param {CandidateInfo} candidate
@@ -1115,6 +1449,13 @@ export class Transport extends Emitter<TransportEvents>
 			sources
 		);
 
+		//Get remote media info
+		const remote = this.remoteProperties?.[media];
+		//If we have it
+		if (remote)
+			//Get out of band codec parameters from it
+			incomingStreamTrack.setOutOfBandParameters(MediaInfo.expand(remote));
+
 		//Add listener
 		incomingStreamTrack.once("stopped",()=>{
 			//For each source
@@ -1197,6 +1538,10 @@ export class Transport extends Emitter<TransportEvents>
 		this.incomingStreamTracks.clear();
 		this.outgoingStreamTracks.clear();
 
+		//Stop dumping to streams and events, so the pipes are closed
+		if (this.dumpPipe || this.bwePipe)
+			this.stopDump();
+
 		//Remove dtls listener
 		//@ts-expect-error
 		this.transport.SetListener(null);
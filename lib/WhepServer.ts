@@ -0,0 +1,283 @@
+import * as http from "http";
+import { v4 as uuidV4 } from "uuid";
+import {
+	SDPInfo,
+	Capabilities,
+	TrackInfoPlain,
+} from "semantic-sdp";
+import {Endpoint, CreateTransportOptions} from "./Endpoint";
+import {Transport} from "./Transport";
+import {IncomingStream} from "./IncomingStream";
+import {OutgoingStream} from "./OutgoingStream";
+import {Transponder, LayerSelection} from "./Transponder";
+import {
+	HttpSignalingError,
+	HttpSignalingResource,
+	HttpSignalingServer,
+	readBody,
+	checkContentType,
+	sendError,
+} from "./HttpSignaling";
+
+/**
+ * Resolve the stream to be played by a viewer
+ * @param {String} streamId			- Path of the request relative to the server path, without leading slash
+ * @param {http.IncomingMessage} request
+ */
+export type WhepStreamResolver = (streamId: string, request: http.IncomingMessage) => IncomingStream | undefined | Promise<IncomingStream | undefined>;
+
+export interface WhepServerOptions {
+	/** Path where offers are posted, the stream id is taken from the path after it. Defaults to "/whep" */
+	path?: string;
+	/** Options for the created transports */
+	transport?: CreateTransportOptions;
+}
+
+/** Playback session created by a WHEP client */
+export interface WhepResource extends HttpSignalingResource {
+	/** Stream being played */
+	incomingStream: IncomingStream;
+	/** Stream sent to the viewer, attached to the incoming one */
+	outgoingStream: OutgoingStream;
+	transponders: Transponder[];
+	/** Layer selection requested by the viewer */
+	layers: LayerSelection;
+}
+
+interface WhepServerEvents {
+	stopped: (self: WhepServer) => void;
+	/** New viewer attached to a stream */
+	view: (outgoingStream: OutgoingStream, incomingStream: IncomingStream, transport: Transport, request: http.IncomingMessage) => void;
+	/** WHEP resource has been deleted, its transport stopped or the played stream ended */
+	unview: (resource: WhepResource) => void;
+}
+
+//Query params mapped to layer selection
+const numericLayerParams = ["spatialLayerId", "temporalLayerId", "maxSpatialLayerId", "maxTemporalLayerId", "maxWidth", "maxHeight"] as const;
+
+/**
+ * Get layer selection hints from the request query params
+ * @param {URLSearchParams} params
+ */
+function parseLayerSelection(params: URLSearchParams): LayerSelection
+{
+	const layers: LayerSelection = {};
+	//Get rid
+	const encodingId = params.get("encodingId");
+	if (encodingId)
+		layers.encodingId = encodingId;
+	//Get numeric ones
+	for (const name of numericLayerParams)
+	{
+		//Check if present
+		const value = params.get(name);
+		if (value === null)
+			continue;
+		//Parse it
+		const parsed = parseInt(value);
+		//Check it is valid
+		if (isNaN(parsed) || parsed < 0)
+			throw new HttpSignalingError(400, "Invalid " + name + " value");
+		layers[name] = parsed;
+	}
+	return layers;
+}
+
+/**
+ * WHEP egress endpoint. Can be attached to an http.Server or used as a request handler.
+ */
+export class WhepServer extends HttpSignalingServer<WhepResource, WhepServerEvents>
+{
+	resolver: WhepStreamResolver;
+	options: WhepServerOptions;
+
+	constructor(
+		endpoint: Endpoint,
+		capabilities: Capabilities,
+		resolver: WhepStreamResolver,
+		options: WhepServerOptions = {})
+	{
+		//Init base
+		super(endpoint, capabilities, options.path ?? "/whep");
+
+		//Store stuff
+		this.resolver = resolver;
+		this.options = options;
+	}
+
+	/**
+	 * Handle an http request
+	 * @param {http.IncomingMessage} request
+	 * @param {http.ServerResponse} response
+	 * @returns {boolean} true if the request was for this server and it will be responded
+	 */
+	handleRequest(request: http.IncomingMessage, response: http.ServerResponse): boolean
+	{
+		//Parse url
+		const url = new URL(request.url ?? "/", "http://localhost");
+		//Get path
+		const path = url.pathname.replace(/\/+$/,"");
+
+		//If it is not for us
+		if (path !== this.path && !path.startsWith(this.path + "/"))
+			//Not handled
+			return false;
+
+		//Get path after ours
+		const subpath = path.substring(this.path.length + 1);
+
+		//If it is a resource
+		const resource = this.resources.get(subpath);
+
+		//Process it
+		(resource
+			? this.processResourceRequest(resource, request, response)
+			: this.processEndpointRequest(subpath, url, request, response)
+		).catch(e => sendError(response, e));
+
+		//Handled
+		return true;
+	}
+
+	private async processEndpointRequest(streamId: string, url: URL, request: http.IncomingMessage, response: http.ServerResponse): Promise<void>
+	{
+		switch (request.method)
+		{
+			case "OPTIONS":
+				response.writeHead(204, { "Accept-Post": "application/sdp" });
+				response.end();
+				return;
+			case "POST":
+				return this.view(streamId, url, request, response);
+			case "PATCH":
+			case "DELETE":
+				throw new HttpSignalingError(404, "Resource not found");
+			default:
+				throw new HttpSignalingError(405, "Method not allowed");
+		}
+	}
+
+	private async view(streamId: string, url: URL, request: http.IncomingMessage, response: http.ServerResponse): Promise<void>
+	{
+		//Check content type
+		checkContentType(request, "application/sdp");
+
+		//Get layer selection hints
+		const layers = parseLayerSelection(url.searchParams);
+
+		//Get offer
+		const sdp = await readBody(request);
+
+		let offer: SDPInfo;
+		try {
+			//Parse it
+			offer = SDPInfo.parse(sdp);
+		} catch (e) {
+			throw new HttpSignalingError(400, "Invalid SDP offer");
+		}
+
+		//Get stream to play
+		const incomingStream = await this.resolver(streamId, request);
+
+		//Check we have not been stopped while waiting
+		if (!this.endpoint)
+			throw new HttpSignalingError(503, "Server stopped");
+
+		//If not found
+		if (!incomingStream)
+			throw new HttpSignalingError(404, "Stream not found");
+
+		let outgoingStream!: OutgoingStream;
+		let transponders: Transponder[] = [];
+		//Create transport and answer
+		const { transport, answer } = this.createTransport(offer, this.options.transport, (transport, answer) => {
+			//Get the incoming tracks by type
+			const incoming = {
+				audio : incomingStream.getAudioTracks(),
+				video : incomingStream.getVideoTracks(),
+			};
+			//The outgoing tracks, one for each offered m-line with a matching incoming track
+			const outgoing = {
+				audio : [] as TrackInfoPlain[],
+				video : [] as TrackInfoPlain[],
+			};
+
+			//For each offered media
+			for (const media of answer.getMedias())
+			{
+				//Get type
+				const type = media.getType();
+				//Only audio and video
+				if (type !== "audio" && type !== "video")
+					continue;
+				//If we have no more tracks of that type to send
+				if (outgoing[type].length >= incoming[type].length)
+					continue;
+				//Send track on this m-line
+				outgoing[type].push({
+					id	: type + outgoing[type].length,
+					media	: type,
+					mediaId	: media.getId(),
+				});
+			}
+
+			//Create outgoing stream
+			outgoingStream = transport.createOutgoingStream({
+				audio : outgoing.audio,
+				video : outgoing.video,
+			});
+
+			//Add it to the answer
+			answer.addStream(outgoingStream.getStreamInfo());
+
+			//Attach it, tracks are matched by order
+			transponders = outgoingStream.attachTo(incomingStream, layers);
+		});
+
+		//Create new resource
+		const id = uuidV4();
+		const resource: WhepResource = {
+			id		: id,
+			location	: this.path + "/" + id,
+			transport	: transport,
+			incomingStream	: incomingStream,
+			outgoingStream	: outgoingStream,
+			transponders	: transponders,
+			layers		: layers,
+			mids		: offer.getMedias().map(media => media.getId()),
+		};
+
+		//Add to resources
+		this.resources.set(id, resource);
+
+		//Stop viewer when played stream ends
+		const onIncomingStreamStopped = () => transport.stop();
+		incomingStream.once("stopped", onIncomingStreamStopped);
+
+		//Clean up on transport stop
+		transport.once("stopped", () => {
+			//Don't listen for stream end anymore
+			incomingStream.off("stopped", onIncomingStreamStopped);
+			//Stop transponders
+			for (const transponder of transponders)
+				transponder.stop();
+			//Stop outgoing stream
+			outgoingStream.stop();
+			//Remove from resources
+			this.resources.delete(id);
+			//Emit event
+			this.emit("unview", resource);
+		});
+
+		//Send answer
+		response.writeHead(201, {
+			"Content-Type"	: "application/sdp",
+			"Location"	: resource.location,
+			"ETag"		: `"${transport.getLocalICEInfo().getUfrag()}"`,
+		});
+		response.end(answer.toString());
+
+		//Emit event
+		this.emit("view", outgoingStream, incomingStream, transport, request);
+	}
+}
@@ -0,0 +1,174 @@
+import * as http from "http";
+import { v4 as uuidV4 } from "uuid";
+import {
+	SDPInfo,
+	Capabilities,
+} from "semantic-sdp";
+import {Endpoint, CreateTransportOptions} from "./Endpoint";
+import {Transport} from "./Transport";
+import {IncomingStream} from "./IncomingStream";
+import {
+	HttpSignalingError,
+	HttpSignalingResource,
+	HttpSignalingServer,
+	readBody,
+	checkContentType,
+	sendError,
+} from "./HttpSignaling";
+
+export interface WhipServerOptions {
+	/** Path where offers are posted, resources are created under it. Defaults to "/whip" */
+	path?: string;
+	/** Options for the created transports */
+	transport?: CreateTransportOptions;
+}
+
+/** Ingest session created by a WHIP client */
+export interface WhipResource extends HttpSignalingResource {
+	streams: IncomingStream[];
+}
+
+interface WhipServerEvents {
+	stopped: (self: WhipServer) => void;
+	/** New stream published by a WHIP client */
+	publish: (incomingStream: IncomingStream, transport: Transport, request: http.IncomingMessage) => void;
+	/** WHIP resource has been deleted or its transport stopped */
+	unpublish: (resource: WhipResource) => void;
+}
+
+/**
+ * WHIP ingest endpoint. Can be attached to an http.Server or used as a request handler.
+ */
+export class WhipServer extends HttpSignalingServer<WhipResource, WhipServerEvents>
+{
+	options: WhipServerOptions;
+
+	constructor(
+		endpoint: Endpoint,
+		capabilities: Capabilities,
+		options: WhipServerOptions = {})
+	{
+		//Init base
+		super(endpoint, capabilities, options.path ?? "/whip");
+
+		//Store stuff
+		this.options = options;
+	}
+
+	/**
+	 * Handle an http request
+	 * @param {http.IncomingMessage} request
+	 * @param {http.ServerResponse} response
+	 * @returns {boolean} true if the request was for this server and it will be responded
+	 */
+	handleRequest(request: http.IncomingMessage, response: http.ServerResponse): boolean
+	{
+		//Get path
+		const path = new URL(request.url ?? "/", "http://localhost").pathname.replace(/\/+$/,"");
+
+		//If it is the ingest path
+		if (path === this.path)
+		{
+			//Process it
+			this.processEndpointRequest(request, response).catch(e => sendError(response, e));
+			//Handled
+			return true;
+		}
+
+		//If it is a resource
+		if (path.startsWith(this.path + "/"))
+		{
+			//Get resource
+			const resource = this.resources.get(path.substring(this.path.length + 1));
+			//If not found
+			if (!resource)
+				sendError(response, new HttpSignalingError(404, "Resource not found"));
+			else
+				//Process it
+				this.processResourceRequest(resource, request, response).catch(e => sendError(response, e));
+			//Handled
+			return true;
+		}
+
+		//Not for us
+		return false;
+	}
+
+	private async processEndpointRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void>
+	{
+		switch (request.method)
+		{
+			case "OPTIONS":
+				response.writeHead(204, { "Accept-Post": "application/sdp" });
+				response.end();
+				return;
+			case "POST":
+				return this.publish(request, response);
+			default:
+				throw new HttpSignalingError(405, "Method not allowed");
+		}
+	}
+
+	private async publish(request: http.IncomingMessage, response: http.ServerResponse): Promise<void>
+	{
+		//Check content type
+		checkContentType(request, "application/sdp");
+
+		//Get offer
+		const sdp = await readBody(request);
+
+		//Check we have not been stopped while waiting
+		if (!this.endpoint)
+			throw new HttpSignalingError(503, "Server stopped");
+
+		let offer: SDPInfo;
+		try {
+			//Parse it
+			offer = SDPInfo.parse(sdp);
+		} catch (e) {
+			throw new HttpSignalingError(400, "Invalid SDP offer");
+		}
+
+		const streams: IncomingStream[] = [];
+		//Create transport and answer
+		const { transport, answer } = this.createTransport(offer, this.options.transport, (transport) => {
+			//For each published stream
+			for (const streamInfo of offer.getStreams().values())
+				//Create incoming stream
+				streams.push(transport.createIncomingStream(streamInfo));
+		});
+
+		//Create new resource
+		const id = uuidV4();
+		const resource: WhipResource = {
+			id		: id,
+			location	: this.path + "/" + id,
+			transport	: transport,
+			streams		: streams,
+			mids		: offer.getMedias().map(media => media.getId()),
+		};
+
+		//Add to resources
+		this.resources.set(id, resource);
+
+		//Remove on transport stop
+		transport.once("stopped", () => {
+			//Remove from resources
+			this.resources.delete(id);
+			//Emit event
+			this.emit("unpublish", resource);
+		});
+
+		//Send answer
+		response.writeHead(201, {
+			"Content-Type"	: "application/sdp",
+			"Location"	: resource.location,
+			"ETag"		: `"${transport.getLocalICEInfo().getUfrag()}"`,
+		});
+		response.end(answer.toString());
+
+		//Emit events
+		for (const stream of resource.streams)
+			this.emit("publish", stream, transport, request);
+	}
+}
@@ -1,24 +1,34 @@
 export * from './MediaServer';
 export * from './ActiveSpeakerDetector';
 export * from './ActiveSpeakerMultiplexer';
-//export * from './EmulatedTransport';
+export * from './BandwidthAllocator';
+export * from './EmulatedTransport';
 export * from './Endpoint';
+export * from './FragmentedMP4Writer';
 export * from './IncomingStream';
 export * from './IncomingStreamTrack';
+export * from './IncomingStreamTrackFrameInjector';
 export * from './IncomingStreamTrackMirrored';
 export * from './IncomingStreamTrackReader';
 export * from './IncomingStreamTrackSimulcastAdapter';
+export * from './MetricsCollector';
 export * from './OutgoingStream';
 export * from './OutgoingStreamTrack';
 //export * from './PeerConnectionServer';
 export * from './Player';
+export * from './PlayerGroup';
+export * from './PlaylistPlayer';
 export * from './Recorder';
 export * from './RecorderTrack';
 export * from './Refresher';
 export * from './SDPManager';
 export * from './SDPManagerPlanB';
 export * from './SDPManagerUnified';
+export * from './SessionRecorder';
+export * from './StatsReport';
 export * from './Streamer';
 export * from './StreamerSession';
 export * from './Transponder';
-export * from './Transport';
\ No newline at end of file
+export * from './Transport';
+export * from './WhipServer';
+export * from './WhepServer';
\ No newline at end of file
@@ -2,40 +2,53 @@
 
 %{
 class ActiveSpeakerDetectorFacade :
-	public ActiveSpeakerDetector,
-	public ActiveSpeakerDetector::Listener,
 	public RTPIncomingMediaStream::Listener
 {
-public:	
-	ActiveSpeakerDetectorFacade(v8::Local<v8::Object> object) :
-		ActiveSpeakerDetector(this)
+public:
+	static constexpr uint64_t ScorePerMiliScond = 10;
+	static constexpr uint64_t MinInterval = 10;
+
+	struct SpeakerInfo
+	{
+		uint64_t score		= 0;
+		uint64_t ts		= 0;
+		uint64_t active		= 0;
+		uint32_t priority	= 0;
+	};
+public:
+	ActiveSpeakerDetectorFacade(v8::Local<v8::Object> object)
 	{
 		persistent = std::make_shared<Persistent<v8::Object>>(object);
 	};
-		
-	virtual void onActiveSpeakerChanded(uint32_t id) override
+
+	void SetMinChangePeriod(uint32_t minChangePeriod)		{ ScopedLock lock(mutex); this->minChangePeriod = minChangePeriod;		}
+	void SetMaxAccumulatedScore(uint64_t maxAcummulatedScore)	{ ScopedLock lock(mutex); this->maxAcummulatedScore = maxAcummulatedScore;	}
+	void SetNoiseGatingThreshold(uint8_t noiseGatingThreshold)	{ ScopedLock lock(mutex); this->noiseGatingThreshold = noiseGatingThreshold;	}
+	void SetMinActivationScore(uint32_t minActivationScore)		{ ScopedLock lock(mutex); this->minActivationScore = minActivationScore;	}
+
+	void SetPriority(uint32_t id, uint32_t priority)
 	{
-		UltraDebug("-ActiveSpeakerDetectorFacade::onActiveSpeakerChanded() [id:%d]\n",id);
-		//Run function on main node thread
-		MediaServer::Async([=,cloned=persistent](){
-			Nan::HandleScope scope;
-			int i = 0;
-			v8::Local<v8::Value> argv[1];
-			//Create local args
-			argv[i++] = Nan::New<v8::Uint32>(id);
-			//Call object method with arguments
-			MakeCallback(cloned, "onactivespeakerchanged", i, argv);
-		});
+		ScopedLock lock(mutex);
+		//Get speaker
+		auto it = speakers.find(id);
+		//check it was present
+		if (it==speakers.end())
+			//Do nothing
+			return;
+		//Set it
+		it->second.priority = priority;
+		//Order may have changed
+		Process(last, true);
 	}
-	
+
 	void AddIncomingSourceGroup(RTPIncomingMediaStream* incoming, uint32_t id)
 	{
 		Debug("-ActiveSpeakerDetectorFacade::AddIncomingSourceGroup() [incoming:%p,id:%d]\n",incoming,id);
-		
+
 		if (incoming)
 		{
 			ScopedLock lock(mutex);
-			//Insert new 
+			//Insert new
 			auto [it,inserted] = sources.try_emplace(incoming,id);
 			//If already present
 			if (!inserted)
@@ -44,16 +57,16 @@ public:
 			//Add us as rtp listeners
 			incoming->AddListener(this);
 			//initialize to silence
-			ActiveSpeakerDetector::Accumulate(id, false, 127, getTimeMS());
+			Accumulate(id, false, 127, getTimeMS());
 		}
 	}
-	
+
 	void RemoveIncomingSourceGroup(RTPIncomingMediaStream* incoming)
 	{
 		Debug("-ActiveSpeakerDetectorFacade::RemoveIncomingSourceGroup() [incoming:%p]\n",incoming);
-		
+
 		if (incoming)
-		{	
+		{
 			ScopedLock lock(mutex);
 			//Get map
 			auto it = sources.find(incoming);
@@ -64,12 +77,12 @@ public:
 			//Remove listener
 			incoming->RemoveListener(this);
 			//RElease id
-			ActiveSpeakerDetector::Release(it->second);
+			Release(it->second);
 			//Erase
 			sources.erase(it);
 		}
 	}
-	
+
 	virtual void onRTP(const RTPIncomingMediaStream* incoming,const RTPPacket::shared& packet) override
 	{
 		if (packet->HasAudioLevel())
@@ -82,20 +95,20 @@ public:
 				//Do nothing
 				return;
 			//Accumulate on id
-			ActiveSpeakerDetector::Accumulate(it->second, packet->GetVAD(),packet->GetLevel(), getTimeMS());
+			Accumulate(it->second, packet->GetVAD(),packet->GetLevel(), getTimeMS());
 		}
 	}
-	
+
 	virtual void onBye(const RTPIncomingMediaStream* group) override
 	{
 	}
-	
+
 	virtual void onEnded(const RTPIncomingMediaStream* incoming) override
 	{
 		Debug("-ActiveSpeakerDetectorFacade::onEnded() [incoming:%p]\n",incoming);
-		
+
 		if (incoming)
-		{	
+		{
 			ScopedLock lock(mutex);
 			//Get map
 			auto it = sources.find(incoming);
@@ -104,26 +117,177 @@ public:
 				//Do nothing
 				return;
 			//Release id
-			ActiveSpeakerDetector::Release(it->second);
+			Release(it->second);
 			//Erase
 			sources.erase(it);
 		}
 	}
+private:
+	void Accumulate(uint32_t id, bool vad, uint8_t db, uint64_t now)
+	{
+		//Search for the speacker
+		auto it = speakers.find(id);
+
+		//Check voice is detected and not muted
+		auto speaking = vad && db!=127 && (!noiseGatingThreshold || db<noiseGatingThreshold);
+
+		//Check if we had that speakcer before
+		if (it==speakers.end())
+		{
+			//Store 1s of initial bump if vad
+			speakers[id] = SpeakerInfo{ speaking ? ScorePerMiliScond*1000ul : 0ul, now, speaking ? now : 0ul };
+		}
+		//Accumulate only if audio has been detected
+		else if (speaking)
+		{
+			// The audio level is expressed in -dBov, with values from 0 to 127
+			// representing 0 to -127 dBov.
+			WORD level = 64 + (127-db)/2;
+
+			//Get time diff from last score, we consider 1s as max to coincide with initial bump
+			uint64_t diff = std::min(now-it->second.ts,(uint64_t)1000ul);
+			//Do not accumulate too much so we can switch faster
+			it->second.score = std::min(it->second.score+diff*level/ScorePerMiliScond,maxAcummulatedScore);
+			//Set last update time
+			it->second.ts = now;
+			//Set last time it was speaking
+			it->second.active = now;
+		}
+
+		//Process vads and check new
+		Process(now);
+	}
+
+	void Release(uint32_t id)
+	{
+		Debug("-ActiveSpeakerDetectorFacade::Release() [id:%id]\n",id);
+
+		//Remove speaker
+		speakers.erase(id);
+		//If it was last active
+		if (lastActive==id)
+			//We can change now
+			blockedUntil = 0;
+		//Process it again
+		Process(last, true);
+	}
+
+	void Process(uint64_t now, bool force = false)
+	{
+		//Get difference from last process
+		uint64_t diff = now - last;
+
+		//If we have processed it quite recently
+		if (diff<MinInterval && !force)
+			return;
+
+		//Store last
+		last = now;
+
+		//Reduce accumulated voice activity
+		uint64_t decay = diff*ScorePerMiliScond;
+
+		std::vector<uint32_t> order;
+		//For each
+		for (auto& [id, speaker] : speakers)
+		{
+			//Decay
+			speaker.score = speaker.score>decay ? speaker.score - decay : 0;
+			//Add to ranking
+			order.push_back(id);
+		}
+
+		//Higher priority first, then higher score, then the most recently active, as silent speakers decay to 0 quickly
+		std::stable_sort(order.begin(), order.end(), [&](uint32_t a, uint32_t b) {
+			const auto& sa = speakers[a];
+			const auto& sb = speakers[b];
+			if (sa.priority!=sb.priority)
+				return sa.priority>sb.priority;
+			if (sa.score!=sb.score)
+				return sa.score>sb.score;
+			return sa.active>sb.active;
+		});
+
+		//If order has changed
+		if (order!=lastOrder)
+		{
+			//Store it
+			lastOrder = order;
+			//Run function on main node thread
+			MediaServer::Async([=,cloned=persistent](){
+				Nan::HandleScope scope;
+				int i = 0;
+				v8::Local<v8::Value> argv[1];
+				//Create array of ids
+				v8::Local<v8::Array> ids = Nan::New<v8::Array>(order.size());
+				for (size_t j=0; j<order.size(); ++j)
+					Nan::Set(ids, j, Nan::New<v8::Uint32>(order[j]));
+				//Create local args
+				argv[i++] = ids;
+				//Call object method with arguments
+				MakeCallback(cloned, "onspeakersorderchanged", i, argv);
+			});
+		}
+
+		uint32_t active = 0;
+		uint64_t maxScore = 0;
+		uint32_t maxPriority = 0;
+		//Get speaker with max score, priority wins ties
+		for (const auto& [id, speaker] : speakers)
+		{
+			if (maxScore<speaker.score || (maxScore && maxScore==speaker.score && maxPriority<speaker.priority))
+			{
+				//New active
+				active = id;
+				maxScore = speaker.score;
+				maxPriority = speaker.priority;
+			}
+		}
+
+		//IF active has changed and we are out of the block period
+		if (maxScore>minActivationScore && active!=lastActive && now>blockedUntil)
+		{
+			UltraDebug("-ActiveSpeakerDetectorFacade::onActiveSpeakerChanded() [id:%d]\n",active);
+			//Run function on main node thread
+			MediaServer::Async([=,cloned=persistent](){
+				Nan::HandleScope scope;
+				int i = 0;
+				v8::Local<v8::Value> argv[1];
+				//Create local args
+				argv[i++] = Nan::New<v8::Uint32>(active);
+				//Call object method with arguments
+				MakeCallback(cloned, "onactivespeakerchanged", i, argv);
+			});
+			//Store last aceive and calculate blocking time
+			lastActive = active;
+			blockedUntil = now + minChangePeriod;
+		}
+	}
 private:
 	Mutex mutex;
 	std::map<RTPIncomingMediaStream*,uint32_t,std::less<>> sources;
 	std::shared_ptr<Persistent<v8::Object>> persistent;
+	std::map<uint32_t,SpeakerInfo> speakers;
+	std::vector<uint32_t> lastOrder;
+	uint64_t last			= 0;
+	uint64_t blockedUntil		= 0;
+	uint32_t minChangePeriod	= 2000;
+	uint32_t lastActive		= 0;
+	uint64_t maxAcummulatedScore	= 2500;
+	uint8_t noiseGatingThreshold	= 127;
+	uint64_t minActivationScore	= 0;
 };
 %}
 
 class ActiveSpeakerDetectorFacade
 {
-public:	
+public:
 	ActiveSpeakerDetectorFacade(v8::Local<v8::Object> object);
 	void SetMinChangePeriod(uint32_t minChangePeriod);
 	void SetMaxAccumulatedScore(uint64_t maxAcummulatedScore);
 	void SetNoiseGatingThreshold(uint8_t noiseGatingThreshold);
 	void SetMinActivationScore(uint32_t minActivationScore);
+	void SetPriority(uint32_t id, uint32_t priority);
 	void AddIncomingSourceGroup(RTPIncomingMediaStream* incoming, uint32_t id);
 	void RemoveIncomingSourceGroup(RTPIncomingMediaStream* incoming);
 };
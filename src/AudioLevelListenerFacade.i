@@ -0,0 +1,149 @@
+%include "MediaServer.i"
+
+%{
+class AudioLevelListenerFacade :
+	public RTPIncomingMediaStream::Listener
+{
+public:
+	AudioLevelListenerFacade(v8::Local<v8::Object> object)
+	{
+		persistent = std::make_shared<Persistent<v8::Object>>(object);
+	}
+
+	virtual ~AudioLevelListenerFacade()
+	{
+		//Stop listening
+		Detach();
+	}
+
+	void AttachTo(RTPIncomingMediaStream* incoming)
+	{
+		Debug("-AudioLevelListenerFacade::AttachTo() [incoming:%p]\n",incoming);
+
+		//Detach from previous one
+		Detach();
+
+		if (incoming)
+		{
+			ScopedLock lock(mutex);
+			//Store it
+			this->incoming = incoming;
+			//Add us as rtp listeners
+			incoming->AddListener(this);
+		}
+	}
+
+	void Detach()
+	{
+		RTPIncomingMediaStream* attached = nullptr;
+		{
+			ScopedLock lock(mutex);
+			//Not attached anymore
+			std::swap(attached, incoming);
+		}
+		//If attached, removing is sync with the stream thread so it can't be done while locked
+		if (attached)
+			//Remove listener
+			attached->RemoveListener(this);
+	}
+
+	void SetInterval(uint32_t interval)
+	{
+		ScopedLock lock(mutex);
+		//Store it, 0 disables events
+		this->interval = interval;
+	}
+
+	bool HasAudioLevel()	{ return hasAudioLevel;	}
+	uint8_t GetLevel()	{ return level;		}
+	bool GetVAD()		{ return vad;		}
+
+	virtual void onRTP(const RTPIncomingMediaStream* incoming,const RTPPacket::shared& packet) override
+	{
+		//Check it has audio level
+		if (!packet->HasAudioLevel())
+			return;
+
+		//Store last values
+		level = packet->GetLevel();
+		vad = packet->GetVAD();
+		hasAudioLevel = true;
+
+		ScopedLock lock(mutex);
+
+		//If events are disabled
+		if (!interval)
+			return;
+
+		//Keep loudest level (lowest -dBov) and any voice activity of the interval
+		loudest = std::min<uint8_t>(loudest, level);
+		activity |= vad;
+
+		//Get now
+		auto now = getTimeMS();
+
+		//Check if it is time to fire
+		if (now < last + interval)
+			return;
+
+		//Get values
+		uint8_t eventLevel = loudest;
+		bool eventVAD = activity;
+
+		//Reset
+		last = now;
+		loudest = 127;
+		activity = false;
+
+		//Run function on main node thread
+		MediaServer::Async([=,cloned=persistent](){
+			Nan::HandleScope scope;
+			int i = 0;
+			v8::Local<v8::Value> argv[2];
+			//Create local args
+			argv[i++] = Nan::New<v8::Uint32>(eventLevel);
+			argv[i++] = Nan::New(eventVAD);
+			//Call object method with arguments
+			MakeCallback(cloned, "onaudiolevel", i, argv);
+		});
+	}
+
+	virtual void onBye(const RTPIncomingMediaStream* incoming) override
+	{
+	}
+
+	virtual void onEnded(const RTPIncomingMediaStream* incoming) override
+	{
+		Debug("-AudioLevelListenerFacade::onEnded() [incoming:%p]\n",incoming);
+
+		ScopedLock lock(mutex);
+		//If it is ours
+		if (this->incoming==incoming)
+			//Not attached anymore
+			this->incoming = nullptr;
+	}
+private:
+	Mutex mutex;
+	RTPIncomingMediaStream* incoming = nullptr;
+	std::shared_ptr<Persistent<v8::Object>> persistent;
+	uint32_t interval = 0;
+	QWORD last = 0;
+	uint8_t loudest = 127;
+	bool activity = false;
+	std::atomic<uint8_t> level = 127;
+	std::atomic<bool> vad = false;
+	std::atomic<bool> hasAudioLevel = false;
+};
+%}
+
+class AudioLevelListenerFacade
+{
+public:
+	AudioLevelListenerFacade(v8::Local<v8::Object> object);
+	void AttachTo(RTPIncomingMediaStream* incoming);
+	void Detach();
+	void SetInterval(uint32_t interval);
+	bool HasAudioLevel();
+	uint8_t GetLevel();
+	bool GetVAD();
+};
@@ -2,6 +2,105 @@
 %include "MediaFrame.i"
 
 %{
+#include <mutex>
+#include <set>
+#include <vector>
+#include <algorithm>
+#include <optional>
+
+//Out of band AV1 codec configuration
+struct AV1RecorderConfig
+{
+	BYTE profile	= 0;
+	BYTE levelIdx	= 0;
+	BYTE tier	= 0;
+};
+
+//Set the AV1 codec configuration on the av1C boxes of a closed mp4 file, as the native recorder only copies the sequence header obu
+static void WriteAV1CodecConfig(const std::string& filename, const AV1RecorderConfig& config)
+{
+	//Open it for modification
+	MP4FileHandle mp4 = MP4Modify(filename.c_str());
+	//If failed
+	if (mp4==MP4_INVALID_FILE_HANDLE)
+	{
+		Error("-WriteAV1CodecConfig() | Could not open file [filename:%s]\n", filename.c_str());
+		return;
+	}
+
+	//For each track
+	for (uint32_t i=0; i<MP4GetNumberOfTracks(mp4); ++i)
+	{
+		MP4TrackId track = MP4FindTrackId(mp4, i);
+		//Skip non av1 tracks
+		if (!MP4HaveTrackAtom(mp4, track, "mdia.minf.stbl.stsd.av01.av1C"))
+			continue;
+		//Set it, fields have fixed size so the file is not rewritten
+		MP4SetTrackIntegerProperty(mp4, track, "mdia.minf.stbl.stsd.av01.av1C.seq_profile", config.profile);
+		MP4SetTrackIntegerProperty(mp4, track, "mdia.minf.stbl.stsd.av01.av1C.seq_level_idx_0", config.levelIdx);
+		MP4SetTrackIntegerProperty(mp4, track, "mdia.minf.stbl.stsd.av01.av1C.seq_tier_0", config.tier);
+	}
+
+	//Done
+	MP4Close(mp4);
+}
+
+class MP4ClipRecorder :
+	public MP4Recorder,
+	public MP4Recorder::Listener,
+	public std::enable_shared_from_this<MP4ClipRecorder>
+{
+public:
+	MP4ClipRecorder(v8::Local<v8::Object> object, const std::optional<AV1RecorderConfig>& av1Config) :
+		MP4Recorder(this),
+		av1Config(av1Config)
+	{
+		persistent = MediaServer::MakeSharedPersistent(object);
+	}
+
+	bool Create(const char *filename) override
+	{
+		//Store it to update the codec config once closed
+		this->filename = filename;
+		return MP4Recorder::Create(filename);
+	}
+
+	bool Close()
+	{
+		//Keep us alive until the file is closed
+		self = shared_from_this();
+		//Close async
+		if (!MP4Recorder::Close(true))
+		{
+			//No onClosed event will be fired
+			self.reset();
+			return false;
+		}
+		return true;
+	}
+
+	void onFirstFrame(QWORD time) override
+	{
+	}
+	void onClosed() override 
+	{
+		//Write out of band codec config if a file was recorded
+		if (av1Config && !filename.empty())
+			WriteAV1CodecConfig(filename, *av1Config);
+		//Run function on main node thread, releasing our own reference out of the recorder event loop
+		MediaServer::Async([self=std::move(self),cloned=persistent](){
+			Nan::HandleScope scope;
+			//Call object method without arguments
+			MakeCallback(cloned, "resolve");
+		});
+	}
+private:
+	std::shared_ptr<Persistent<v8::Object>> persistent;
+	std::shared_ptr<MP4ClipRecorder> self;
+	std::string filename;
+	std::optional<AV1RecorderConfig> av1Config;
+};
+
 class MP4RecorderFacade :
 	public MP4Recorder,
 	public MP4Recorder::Listener
@@ -21,24 +120,262 @@ public:
 			int i = 0;
 			v8::Local<v8::Value> argv[1];
 			//Create local args
-			argv[i++] = Nan::New<v8::Uint32>((uint32_t)time);
+			argv[i++] = Nan::New<v8::Number>((double)time);
 			//Call object method with arguments
 			MakeCallback(cloned, "onstarted", i, argv);
 		});
 	}
 	void onClosed() override 
 	{
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+			//Write out of band codec config if a file was recorded
+			if (av1Config && !filename.empty())
+				WriteAV1CodecConfig(filename, *av1Config);
+		}
 		//Run function on main node thread
 		MediaServer::Async([=,cloned=persistent](){
 			Nan::HandleScope scope;
-			int i = 0;
-			v8::Local<v8::Value> argv[0];
-			//Call object method with arguments
-			MakeCallback(cloned, "onclosed", i, argv);
+			//Call object method without arguments
+			MakeCallback(cloned, "onclosed");
 		});
 	}
+
+	void onMediaFrame(const MediaFrame &frame) override
+	{
+		onMediaFrame(0, frame);
+	}
+
+	void onMediaFrame(DWORD ssrc, const MediaFrame &frame) override
+	{
+		std::lock_guard<std::mutex> lock(mutex);
+
+		//If doing time shift
+		if (timeShiftDuration)
+		{
+			//Push it to the end
+			timeShiftBuffer.emplace_back(ssrc, std::shared_ptr<MediaFrame>(frame.Clone()));
+			//Get time shift start
+			QWORD ini = getTimeMS() - timeShiftDuration;
+			//Discard all the timed out frames
+			while (!timeShiftBuffer.empty() && timeShiftBuffer.front().second->GetTime()<ini)
+				//Delete
+				timeShiftBuffer.pop_front();
+		}
+		//Record it if recording
+		if (recording)
+			RecordFrame(ssrc, frame);
+	}
+
+	bool Create(const char *filename) override
+	{
+		//Store it to update the codec config once closed
+		this->filename = filename;
+		return MP4Recorder::Create(filename);
+	}
+
+	bool Record(bool waitVideo, bool disableHints)
+	{
+		std::lock_guard<std::mutex> lock(mutex);
+
+		//Start recording
+		if (!MP4Recorder::Record(waitVideo, disableHints))
+			return false;
+
+		//Recording
+		recording = true;
+
+		//Record time shift buffer first, it is kept for exporting clips
+		for (const auto& [ssrc,frame] : timeShiftBuffer)
+			RecordFrame(ssrc, *frame);
+
+		return true;
+	}
+
+	bool Close()
+	{
+		//Default is async
+		return Close(true);
+	}
+
+	bool Close(bool async)
+	{
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+			//Record frames still waiting for alignment
+			FlushAlignmentBuffer();
+			//Not recording anymore
+			recording = false;
+			//Stop time shift
+			timeShiftDuration = 0;
+			timeShiftBuffer.clear();
+		}
+		return MP4Recorder::Close(async);
+	}
+
+	void SetTimeShiftDuration(DWORD duration)
+	{
+		std::lock_guard<std::mutex> lock(mutex);
+		//Time shift is done here so the buffer is kept while recording
+		timeShiftDuration = duration;
+	}
+
+	void SetAlignToSenderTime(bool align, DWORD window)
+	{
+		std::lock_guard<std::mutex> lock(mutex);
+		//Use capture time from RTCP SR instead of reception time
+		alignToSenderTime = align;
+		alignmentWindow = window;
+	}
+
+	void SetAV1Config(BYTE profile, BYTE levelIdx, BYTE tier)
+	{
+		std::lock_guard<std::mutex> lock(mutex);
+		//Written on the file when closed
+		av1Config = AV1RecorderConfig{profile, levelIdx, tier};
+	}
+
+	bool ExportClip(const char* filename, uint64_t from, uint64_t to, bool disableHints, v8::Local<v8::Object> object)
+	{
+		//Frames in range, shared with the time shift buffer
+		std::vector<std::pair<DWORD,std::shared_ptr<MediaFrame>>> frames;
+		bool hasVideo = false;
+		//Codec config of the clip
+		std::optional<AV1RecorderConfig> clipAV1Config;
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+
+			//Copy it too
+			clipAV1Config = av1Config;
+
+			//Find first frame, which is the last video intra at or before from, or the first one after it
+			auto start = timeShiftBuffer.end();
+			for (auto it = timeShiftBuffer.begin(); it!=timeShiftBuffer.end() && it->second->GetTime()<=to; ++it)
+			{
+				const auto& frame = it->second;
+				//If it is video
+				if (frame->GetType()==MediaFrame::Video)
+				{
+					//Audio before first video is not aligned
+					if (!hasVideo)
+						start = timeShiftBuffer.end();
+					hasVideo = true;
+					//Start on intra frames
+					if (static_cast<VideoFrame*>(frame.get())->IsIntra() && (frame->GetTime()<=from || start==timeShiftBuffer.end()))
+						start = it;
+				//If audio only so far start on first frame in range
+				} else if (!hasVideo && start==timeShiftBuffer.end() && frame->GetTime()>=from) {
+					start = it;
+				}
+			}
+
+			//Only copy the references, the clip is written without blocking the recording
+			for (auto it = start; it!=timeShiftBuffer.end() && it->second->GetTime()<=to; ++it)
+				frames.push_back(*it);
+		}
+
+		//If there is nothing to export
+		if (frames.empty())
+			return false;
+
+		//Create clip recorder, it will be kept alive until closed
+		auto clip = std::make_shared<MP4ClipRecorder>(object, clipAV1Config);
+
+		//Create file
+		if (!clip->Create(filename))
+			return false;
+
+		//Start recording, waiting for the first intra if there is video
+		clip->Record(hasVideo, disableHints);
+
+		//Video tracks that have started on an intra
+		std::set<DWORD> started;
+		//Copy frames in range
+		for (const auto& [ssrc, frame] : frames)
+		{
+			//If it is video
+			if (frame->GetType()==MediaFrame::Video && !started.count(ssrc))
+			{
+				//Each video track must start on an intra
+				if (!static_cast<VideoFrame*>(frame.get())->IsIntra())
+					continue;
+				started.insert(ssrc);
+			}
+			//Record it
+			clip->onMediaFrame(ssrc, *frame);
+		}
+
+		//Close it when all frames are written
+		return clip->Close();
+	}
 private:
+	//Must be called with mutex locked
+	void RecordFrame(DWORD ssrc, const MediaFrame &frame)
+	{
+		//If using reception time
+		if (!alignToSenderTime)
+			//Record it as it is
+			return MP4Recorder::onMediaFrame(ssrc, frame);
+
+		//Drop frames until we get the first RTCP SR of the source
+		if (!frame.GetSenderTime())
+			return;
+
+		//Use sender capture time as frame time
+		std::unique_ptr<MediaFrame> cloned(frame.Clone());
+		cloned->SetTime(frame.GetSenderTime());
+
+		//If first frame has been already recorded
+		if (aligned)
+			//Record it
+			return MP4Recorder::onMediaFrame(ssrc, *cloned);
+
+		//Start alignment window on first frame
+		if (alignmentBuffer.empty())
+			alignmentStart = frame.GetTime();
+
+		//Wait for frames of other sources that may have been captured before but received later
+		alignmentBuffer.emplace_back(ssrc, std::move(cloned));
+
+		//If window has elapsed
+		if (frame.GetTime() >= alignmentStart + alignmentWindow)
+			//Record all
+			FlushAlignmentBuffer();
+	}
+
+	//Must be called with mutex locked
+	void FlushAlignmentBuffer()
+	{
+		//Nothing to do if there are not frames waiting
+		if (alignmentBuffer.empty())
+			return;
+
+		//Order by capture time, keeping order of frames of same source
+		std::stable_sort(alignmentBuffer.begin(), alignmentBuffer.end(), [](const auto& a, const auto& b) {
+			return a.second->GetTime() < b.second->GetTime();
+		});
+
+		//Record them
+		for (const auto& [ssrc,frame] : alignmentBuffer)
+			MP4Recorder::onMediaFrame(ssrc, *frame);
+
+		//Done
+		alignmentBuffer.clear();
+		aligned = true;
+	}
+
 	std::shared_ptr<Persistent<v8::Object>> persistent;
+	std::mutex mutex;
+	bool recording = false;
+	std::deque<std::pair<DWORD,std::shared_ptr<MediaFrame>>> timeShiftBuffer;
+	DWORD timeShiftDuration = 0;
+	bool alignToSenderTime = false;
+	bool aligned = false;
+	DWORD alignmentWindow = 0;
+	QWORD alignmentStart = 0;
+	std::vector<std::pair<DWORD,std::unique_ptr<MediaFrame>>> alignmentBuffer;
+	std::string filename;
+	std::optional<AV1RecorderConfig> av1Config;
 };
 
 %}
@@ -57,8 +394,11 @@ public:
 	bool Stop();
 	bool Close();
 	void SetTimeShiftDuration(DWORD duration);
+	void SetAlignToSenderTime(bool align, DWORD window);
+	void SetAV1Config(BYTE profile, BYTE levelIdx, BYTE tier);
 	bool SetH264ParameterSets(const std::string& sprops);
 	bool Close(bool async);
+	bool ExportClip(const char* filename, uint64_t from, uint64_t to, bool disableHints, v8::Local<v8::Object> object);
 };
 
 
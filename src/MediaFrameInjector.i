@@ -0,0 +1,392 @@
+%include "MediaFrameListenerBridge.i"
+%include "RTPIncomingSourceGroup.i"
+
+%{
+
+#include "codecs.h"
+#include "audio.h"
+#include "video.h"
+#include "h264/H264Packetizer.h"
+#include "h265/H265Packetizer.h"
+#include "vp8/vp8.h"
+#include "vp9/VP9.h"
+#include "vp9/VP9PayloadDescription.h"
+#include "av1/AV1.h"
+#include "av1/Obu.h"
+
+class MediaFrameInjector :
+	public RTPIncomingMediaStream::Listener,
+	public RTPReceiver
+{
+public:
+	MediaFrameInjector(v8::Local<v8::Object> object, const MediaFrameListenerBridgeShared& bridge, const RTPIncomingSourceGroupShared& source)
+	{
+		persistent = MediaServer::MakeSharedPersistent(object);
+		this->bridge = bridge;
+		this->source = source;
+		//Start source group
+		source->Start();
+		//Get the rtp packets generated by the bridge
+		bridge->AddListener(this);
+	}
+
+	virtual ~MediaFrameInjector()
+	{
+		//Stop listening
+		Stop();
+	}
+
+	bool SetCodec(const char* codec)
+	{
+		//Reset previous codec
+		audioCodec = AudioCodec::UNKNOWN;
+		videoCodec = VideoCodec::UNKNOWN;
+		packetizer.reset();
+
+		//Check media type
+		if (source->type==MediaFrame::Audio)
+		{
+			//Get audio codec
+			audioCodec = AudioCodec::GetCodecForName(codec);
+			//Audio frames are sent on a single rtp packet
+			return audioCodec!=AudioCodec::UNKNOWN;
+		}
+
+		//Get video codec
+		videoCodec = VideoCodec::GetCodecForName(codec);
+
+		//Create packetizer for annex B input
+		if (videoCodec==VideoCodec::H264)
+			packetizer = std::make_unique<H264Packetizer>();
+		else if (videoCodec==VideoCodec::H265)
+			packetizer = std::make_unique<H265Packetizer>();
+
+		//Check it is supported
+		return packetizer || videoCodec==VideoCodec::VP8 || videoCodec==VideoCodec::VP9 || videoCodec==VideoCodec::AV1;
+	}
+
+	bool Push(const uint8_t* data, size_t size, uint64_t timestamp, uint32_t clockRate, bool isIntra)
+	{
+		//Check we have a bridge and a supported codec
+		if (!bridge || !size)
+			return false;
+
+		std::unique_ptr<MediaFrame> frame;
+
+		//Depending on the media type
+		if (source->type==MediaFrame::Audio)
+		{
+			//Check codec
+			if (audioCodec==AudioCodec::UNKNOWN)
+				return false;
+			//Create audio frame
+			auto audio = std::make_unique<AudioFrame>(audioCodec);
+			//Copy payload
+			audio->AppendMedia(data, size);
+			//Whole frame on a single rtp packet
+			audio->AddRtpPacket(0, size);
+			//Use default clock rate if not provided
+			audio->SetClockRate(clockRate ? clockRate : AudioCodec::GetClockRate(audioCodec));
+			//Set it
+			frame = std::move(audio);
+		} else {
+			//Depending on the codec
+			if (packetizer)
+			{
+				//Parse the access unit
+				BufferReader reader(data, size);
+				//Packetize it
+				frame = packetizer->ProcessAU(reader);
+			} else if (videoCodec==VideoCodec::VP8) {
+				frame = PacketizeVP8(data, size);
+			} else if (videoCodec==VideoCodec::VP9) {
+				frame = PacketizeVP9(data, size);
+			} else if (videoCodec==VideoCodec::AV1) {
+				frame = PacketizeAV1(data, size, isIntra);
+			}
+			//If not enough data for a frame yet or not supported
+			if (!frame)
+				return false;
+			//Video is always on 90khz clock
+			frame->SetClockRate(clockRate ? clockRate : 90000);
+			//Override intra flag if requested
+			if (isIntra)
+				static_cast<VideoFrame*>(frame.get())->SetIntra(true);
+		}
+
+		//Set timing info
+		frame->SetTimestamp(timestamp);
+		frame->SetTime(getTimeMS());
+
+		//Deliver it
+		bridge->onMediaFrame(*frame);
+
+		//Done
+		return true;
+	}
+
+	void Stop()
+	{
+		//If not already stopped
+		if (!bridge)
+			return;
+		//Stop listening for rtp packets
+		bridge->RemoveListener(this);
+		//Release bridge
+		bridge.reset();
+	}
+
+	virtual void onRTP(const RTPIncomingMediaStream* stream,const RTPPacket::shared& packet) override
+	{
+		//Get now
+		auto now = getTimeMS();
+		//Clone packet as it is shared with the other bridge listeners
+		auto cloned = packet->Clone();
+		//Set source ssrc and reception time
+		cloned->SetSSRC(source->media.ssrc);
+		cloned->SetTime(now);
+		//Update source stats
+		if (!source->Process(cloned))
+			return;
+		//Deliver it to the source listeners
+		source->AddPacket(cloned, cloned->GetRTPHeader().GetSize() + cloned->GetMediaLength(), now);
+	}
+
+	virtual void onBye(const RTPIncomingMediaStream* stream) override
+	{
+	}
+
+	virtual void onEnded(const RTPIncomingMediaStream* stream) override
+	{
+	}
+
+	virtual int SendPLI(DWORD ssrc) override
+	{
+		//Run function on main node thread
+		MediaServer::Async([cloned=persistent](){
+			//Ask the application for a new intra frame
+			MakeCallback(cloned, "onrefresh");
+		});
+		//Done
+		return 1;
+	}
+
+	virtual int Reset(DWORD ssrc) override
+	{
+		return 1;
+	}
+
+private:
+	std::unique_ptr<VideoFrame> PacketizeVP8(const uint8_t* data, size_t size)
+	{
+		//Parse frame header
+		VP8PayloadHeader header;
+		if (!header.Parse(data, size))
+			return nullptr;
+
+		//Create frame
+		auto frame = std::make_unique<VideoFrame>(VideoCodec::VP8, size);
+		//Append data to the frame
+		DWORD pos = frame->AppendMedia(data, size);
+		//Set intra and size from header
+		frame->SetIntra(header.isKeyFrame);
+		if (header.isKeyFrame)
+		{
+			frame->SetWidth(header.width);
+			frame->SetHeight(header.height);
+		}
+
+		//Single partition frame
+		VP8PayloadDescriptor desc(true, 0);
+		//Split into MTU
+		DWORD cur = 0;
+		while (cur<size)
+		{
+			//Serialized desc
+			BYTE aux[6];
+			DWORD auxLen = desc.Serialize(aux, sizeof(aux));
+			//Get length of this fragment
+			DWORD len = std::min<DWORD>(RTPPAYLOADSIZE-auxLen, size-cur);
+			//Append hint
+			frame->AddRtpPacket(pos+cur, len, aux, auxLen);
+			//Increase current
+			cur += len;
+			//Not first in partition
+			desc.startOfPartition = false;
+		}
+
+		return frame;
+	}
+
+	std::unique_ptr<VideoFrame> PacketizeVP9(const uint8_t* data, size_t size)
+	{
+		//Parse uncompressed header
+		VP9FrameHeader header;
+		if (!header.Parse(data, std::min<size_t>(size, 255)))
+			return nullptr;
+
+		//Check if it is a key frame
+		bool isKeyFrame = header.GetFrameType() && *header.GetFrameType()==VP9FrameHeader::KEY_FRAME;
+
+		//Create frame
+		auto frame = std::make_unique<VideoFrame>(VideoCodec::VP9, size);
+		//Append data to the frame
+		DWORD pos = frame->AppendMedia(data, size);
+		//Set intra and size from header
+		frame->SetIntra(isKeyFrame);
+		if (isKeyFrame && header.GetFrameWidthMinus1() && header.GetFrameHeightMinus1())
+		{
+			frame->SetWidth(*header.GetFrameWidthMinus1() + 1);
+			frame->SetHeight(*header.GetFrameHeightMinus1() + 1);
+		}
+
+		//Non flexible mode, single layer
+		VP9PayloadDescription desc;
+		desc.interPicturePredictedLayerFrame = !isKeyFrame;
+		desc.startOfLayerFrame = true;
+		//Split into MTU
+		DWORD cur = 0;
+		while (cur<size)
+		{
+			//Get length of this fragment
+			DWORD len = std::min<DWORD>(RTPPAYLOADSIZE-desc.GetSize(), size-cur);
+			//Check if it is the last one
+			desc.endOfLayerFrame = cur+len>=size;
+			//Serialized desc
+			BYTE aux[16];
+			DWORD auxLen = desc.Serialize(aux, sizeof(aux));
+			//Append hint
+			frame->AddRtpPacket(pos+cur, len, aux, auxLen);
+			//Increase current
+			cur += len;
+			//Not first in layer frame
+			desc.startOfLayerFrame = false;
+		}
+
+		return frame;
+	}
+
+	std::unique_ptr<VideoFrame> PacketizeAV1(const uint8_t* data, size_t size, bool isIntra)
+	{
+		//Create frame
+		auto frame = std::make_unique<VideoFrame>(VideoCodec::AV1, size);
+		//Append data to the frame
+		DWORD ini = frame->AppendMedia(data, size);
+
+		//Check if it starts a new coded video sequence
+		bool isKeyFrame = isIntra;
+		//Get reader for the temporal unit
+		BufferReader parser(data, size);
+		ObuHeader obuHeader;
+		while (!isKeyFrame && parser.GetLeft() && obuHeader.Parse(parser))
+		{
+			//Get length from header or read the rest available
+			auto payloadSize = obuHeader.length.value_or(parser.GetLeft());
+			if (!parser.Assert(payloadSize))
+				return nullptr;
+			//Sequence headers are sent on key frames
+			isKeyFrame = obuHeader.type==ObuSequenceHeader;
+			parser.Skip(payloadSize);
+		}
+		frame->SetIntra(isKeyFrame);
+
+		//Packetize each obu on its own rtp packets
+		BufferReader reader(data, size);
+		auto mark = reader.Mark();
+		RtpAv1AggreationHeader header;
+		while (reader.GetLeft() && obuHeader.Parse(reader))
+		{
+			//Get length from header or read the rest available
+			size_t payloadSize = obuHeader.length.value_or(reader.GetLeft());
+			//Skip header and size from media data
+			auto pos = ini + reader.GetOffset(mark);
+
+			//Ensure we have enought data for the rest of the obu
+			if (!reader.Assert(payloadSize))
+				return nullptr;
+			reader.Skip(payloadSize);
+
+			//Temporal delimiters and tile lists must not be sent over rtp
+			if (obuHeader.type==ObuTemporalDelimiter || obuHeader.type==ObuTileList)
+				continue;
+
+			//We are not going to to write the length of the obu
+			obuHeader.length.reset();
+
+			bool firstSegment = true;
+			do
+			{
+				//Calculate fragment size
+				auto fragSize = std::min(payloadSize, size_t(RTPPAYLOADSIZE - header.GetSize() - obuHeader.GetSize()));
+
+				//RTP aggregation header for only 1 OBU element
+				header.field.W = 1;
+				header.field.Z = !firstSegment;
+				header.field.Y = fragSize!=payloadSize;
+				header.field.N = frame->GetRtpPacketizationInfo().empty() && isKeyFrame;
+
+				//RTP prefix with max possible size
+				Buffer prefix(header.GetSize() + obuHeader.GetSize());
+				BufferWritter writter(prefix);
+				//Write aggregation header
+				header.Serialize(writter);
+				//Write OBU header on first segment only
+				if (firstSegment)
+					obuHeader.Serialize(writter);
+
+				//Add rtp packet
+				frame->AddRtpPacket(pos, fragSize, writter.GetData(), writter.GetLength());
+				//Next fragment
+				pos += fragSize;
+				payloadSize -= fragSize;
+				firstSegment = false;
+			} while (payloadSize);
+		}
+
+		//Check we have something to send
+		if (frame->GetRtpPacketizationInfo().empty())
+			return nullptr;
+
+		return frame;
+	}
+
+private:
+	std::shared_ptr<Persistent<v8::Object>> persistent;
+	MediaFrameListenerBridgeShared bridge;
+	RTPIncomingSourceGroupShared source;
+	AudioCodec::Type audioCodec = AudioCodec::UNKNOWN;
+	VideoCodec::Type videoCodec = VideoCodec::UNKNOWN;
+	std::unique_ptr<H26xPacketizer> packetizer;
+};
+%}
+
+%nodefaultctor MediaFrameInjector;
+%nodefaultdtor MediaFrameInjector;
+class MediaFrameInjector
+{
+public:
+	bool SetCodec(const char* codec);
+	void Stop();
+
+%extend
+{
+	bool Push(v8::Local<v8::Object> buffer, uint64_t timestamp, uint32_t clockRate, bool isIntra)
+	{
+		//Get buffer contents
+		Nan::TypedArrayContents<uint8_t> data(buffer);
+		//Push it
+		return self->Push(*data, data.length(), timestamp, clockRate, isIntra);
+	}
+}
+};
+
+SHARED_PTR_BEGIN(MediaFrameInjector)
+{
+	MediaFrameInjectorShared(v8::Local<v8::Object> object, const MediaFrameListenerBridgeShared& bridge, const RTPIncomingSourceGroupShared& source)
+	{
+		return new std::shared_ptr<MediaFrameInjector>(new MediaFrameInjector(object, bridge, source));
+	}
+
+	SHARED_PTR_TO(RTPReceiver)
+}
+SHARED_PTR_END(MediaFrameInjector)
@@ -59,18 +59,27 @@ public:
 		//Get frame buffer
 		Buffer::shared buffer = frame.GetBuffer();
 
+		//Get timing info
+		uint64_t timestamp = frame.GetTimestamp();
+		uint64_t time = frame.GetTime();
+		uint32_t clockRate = frame.GetClockRate();
+		//Get video info, audio frames are always intra
+		bool isIntra = frame.GetType()!=MediaFrame::Video || ((VideoFrame*)&frame)->IsIntra();
+		uint32_t width = frame.GetType()==MediaFrame::Video ? ((VideoFrame*)&frame)->GetWidth() : 0;
+		uint32_t height = frame.GetType()==MediaFrame::Video ? ((VideoFrame*)&frame)->GetHeight() : 0;
+
 		//UltraDebug("-onMediaFrame() [type:%s,codec:%s,minPeriod:%d,lastFrame:%d]\n",type,codec,minPeriod,lastFrame);
 
 		//Run function on main node thread
 		MediaServer::Async([=,cloned=persistent](){
 			Nan::HandleScope scope;
 			int i = 0;
-			v8::Local<v8::Value> argv[3];
+			v8::Local<v8::Value> argv[9];
 			//Create buffer
 			v8::Local<v8::Value> frame = Nan::CopyBuffer(reinterpret_cast<const char*>(buffer->GetData()), buffer->GetSize()).ToLocalChecked();
 			
-			//If is h264
-			if (strcasecmp(codec,"H264")==0)
+			//If is h264 or h265
+			if (strcasecmp(codec,"H264")==0 || strcasecmp(codec,"H265")==0)
 			{
 				//Convert to Uint8Array
 				v8::Local<v8::Uint8Array> uint8array = frame.As<v8::Uint8Array>();
@@ -81,7 +90,12 @@ public:
 			argv[i++] = frame;
 			argv[i++] = Nan::New(type).ToLocalChecked();
 			argv[i++] = Nan::New(codec).ToLocalChecked();
-
+			argv[i++] = Nan::New<v8::Number>((double)timestamp);
+			argv[i++] = Nan::New<v8::Uint32>(clockRate);
+			argv[i++] = Nan::New<v8::Number>((double)time);
+			argv[i++] = Nan::New(isIntra);
+			argv[i++] = Nan::New<v8::Uint32>(width);
+			argv[i++] = Nan::New<v8::Uint32>(height);
 			
 			//Call object method with arguments
 			MakeCallback(cloned, "onframe", i, argv);
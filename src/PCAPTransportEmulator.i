@@ -1,21 +1,378 @@
-
+%include "shared_ptr.i"
+%include "MediaServer.i"
+%include "RTPReceiver.i"
+%include "RTPIncomingSourceGroup.i"
 %include "UDPReader.h"
+
+%{
+#include <map>
+#include <mutex>
+#include <atomic>
+#include "PCAPReader.h"
+
+class PCAPTransportEmulatorFacade :
+	public PCAPTransportEmulator
+{
+public:
+	//Reader wrapper to track playback position, detect the end of the file, play faster than real time and run checkpoints on capture time
+	class Reader : public UDPReader
+	{
+	public:
+		Reader(PCAPTransportEmulatorFacade* facade, UDPReader* reader) :
+			facade(facade),
+			reader(reader)
+		{
+		}
+
+		virtual uint64_t Next() override
+		{
+			//Get next packet time
+			uint64_t ts = reader->Next();
+			//If we are at the end
+			if (!ts)
+			{
+				//Fire it once
+				if (!ended)
+					facade->onEnded();
+				ended = true;
+				return 0;
+			}
+			//Get position of the packet from the beginning of the capture
+			uint64_t position = ts>start ? ts-start : 0;
+			//Run all checkpoints before this packet is played, without locking as it waits for the main thread
+			while (interval && position>=next)
+			{
+				facade->onCheckpoint(next/1000);
+				next += interval;
+			}
+
+			std::lock_guard<std::mutex> lock(mutex);
+			//Scale time from last packet, so speed can be changed while playing
+			scaled += (uint64_t)((double)(ts>last ? ts-last : 0) / speed);
+			last = ts;
+			//Emulator will wait until the scaled time
+			return scaled;
+		}
+
+		virtual uint8_t* GetUDPData() const override	{ return reader->GetUDPData();	}
+		virtual uint32_t GetUDPSize() const override	{ return reader->GetUDPSize();	}
+
+		virtual uint64_t Seek(const uint64_t time) override
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+			//Seek and get time of first packet
+			uint64_t ts = reader->Seek(time);
+			//If it is the beginning of the file
+			if (!time)
+				//Store it
+				start = ts;
+			//Emulator plays from the requested time or from the first packet
+			last = scaled = time ? time : ts;
+			//Time is not scaled until speed is changed
+			segments.clear();
+			segments[scaled] = {last, speed};
+			//Next checkpoint after current position
+			next = GetNextCheckpoint();
+			//Not ended
+			ended = false;
+			return ts;
+		}
+
+		virtual void Rewind() override	{ reader->Rewind();		}
+		virtual bool Close() override	{ return reader->Close();	}
+
+		uint64_t GetStart() const	{ return start;				}
+		uint64_t GetPosition() const	{ return last>start ? last-start : 0;	}
+
+		void SetSpeed(float speed)
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+			//Packets after the last one are scaled with the new speed
+			segments[scaled] = {last, speed};
+			this->speed = speed;
+		}
+
+		void SetCheckpointInterval(uint64_t interval)
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+			//In us
+			this->interval = interval*1000;
+			//Next checkpoint after current position
+			next = GetNextCheckpoint();
+		}
+
+		uint64_t GetCapturePosition(uint64_t time)
+		{
+			std::lock_guard<std::mutex> lock(mutex);
+			//Find speed segment of the scaled time in us
+			auto it = segments.upper_bound(time*1000);
+			//If it is before playback started
+			if (it==segments.begin())
+				return 0;
+			//Get segment
+			const auto& [from, segment] = *(--it);
+			const auto& [capture, speed] = segment;
+			//Unscale it
+			uint64_t ts = capture + (uint64_t)((double)(time*1000 - from) * speed);
+			//In ms from the beginning of the capture
+			return ts>start ? (ts-start)/1000 : 0;
+		}
+	private:
+		//Must be called with mutex locked
+		uint64_t GetNextCheckpoint() const
+		{
+			return interval ? (GetPosition()/interval + 1) * interval : 0;
+		}
+	private:
+		PCAPTransportEmulatorFacade* facade;
+		std::unique_ptr<UDPReader> reader;
+		std::mutex mutex;
+		uint64_t start	= 0;
+		uint64_t last	= 0;
+		uint64_t scaled	= 0;
+		float speed	= 1.0;
+		bool ended	= false;
+		uint64_t interval = 0;
+		uint64_t next	= 0;
+		//Capture time and speed from each scaled time the speed was changed
+		std::map<uint64_t,std::pair<uint64_t,float>> segments;
+	};
+
+	//State shared with the main thread while waiting for a checkpoint
+	struct Checkpoint
+	{
+		std::atomic<bool> done		= false;
+		std::atomic<bool> interrupted	= false;
+	};
+public:
+	PCAPTransportEmulatorFacade(v8::Local<v8::Object> object)
+	{
+		persistent = std::make_shared<Persistent<v8::Object>>(object);
+	}
+
+	virtual ~PCAPTransportEmulatorFacade()
+	{
+		//Release the emulator thread and stop it while the reader can still call us
+		Interrupt(true);
+		PCAPTransportEmulator::Stop();
+	}
+
+	bool AddIncomingSourceGroup(const RTPIncomingSourceGroup::shared& group)
+	{
+		return PCAPTransportEmulator::AddIncomingSourceGroup(group.get());
+	}
+
+	bool RemoveIncomingSourceGroup(const RTPIncomingSourceGroup::shared& group)
+	{
+		return PCAPTransportEmulator::RemoveIncomingSourceGroup(group.get());
+	}
+
+	bool Open(const char* filename)
+	{
+		//Create new PCAP reader
+		PCAPReader* pcap = new PCAPReader();
+
+		//Open pcap file
+		if (!pcap->Open(filename))
+		{
+			//Delete it
+			delete pcap;
+			//Error
+			return Error("-PCAPTransportEmulatorFacade::Open() | could not open pcap file\n");
+		}
+
+		//Set reader
+		return SetReader(pcap);
+	}
+
+	bool SetReader(UDPReader* udp)
+	{
+		//Double check
+		if (!udp)
+			return false;
+		//Wrap it, emulator takes ownership
+		auto wrapped = new Reader(this, udp);
+		//Use same speed and checkpoints
+		wrapped->SetSpeed(speed);
+		wrapped->SetCheckpointInterval(checkpointInterval);
+		//Set it, stopping current playback
+		return Interrupted([&](){
+			reader = wrapped;
+			return PCAPTransportEmulator::SetReader(wrapped);
+		});
+	}
+
+	bool Play()
+	{
+		return Interrupted([&](){ return PCAPTransportEmulator::Play(); });
+	}
+
+	uint64_t Seek(uint64_t time)
+	{
+		//Check we have reader
+		if (!reader)
+			return 0;
+		//Seek from the beginning of the file
+		uint64_t ts = Interrupted([&](){ return PCAPTransportEmulator::Seek(reader->GetStart()/1000 + time); });
+		//Return position of the first packet to be played, 0 if there is none
+		return ts ? ts - reader->GetStart()/1000 : 0;
+	}
+
+	bool Stop()
+	{
+		return Interrupted([&](){ return PCAPTransportEmulator::Stop(); });
+	}
+
+	bool Close()
+	{
+		return Interrupted([&](){ return PCAPTransportEmulator::Close(); });
+	}
+
+	uint64_t Tell()
+	{
+		//Get position of last packet read in ms
+		return reader ? reader->GetPosition()/1000 : 0;
+	}
+
+	void SetPlaybackSpeed(float speed)
+	{
+		//Check it is valid
+		if (speed<=0)
+			return;
+		//Store it
+		this->speed = speed;
+		//Set on reader
+		if (reader)
+			reader->SetSpeed(speed);
+	}
+
+	void SetCheckpointInterval(DWORD interval)
+	{
+		//Store it
+		checkpointInterval = interval;
+		//Set on reader
+		if (reader)
+			reader->SetCheckpointInterval(interval);
+	}
+
+	uint64_t GetCapturePosition(uint64_t time)
+	{
+		//Get position in the capture of a packet or frame time
+		return reader ? reader->GetCapturePosition(time) : 0;
+	}
+
+	std::shared_ptr<RTPReceiver> GetRTPReceiver()
+	{
+		//Not owning, the emulator outlives the tracks using it
+		return std::shared_ptr<RTPReceiver>(std::shared_ptr<RTPReceiver>(), static_cast<RTPReceiver*>(this));
+	}
+
+	void onEnded()
+	{
+		//Run function on main node thread
+		MediaServer::Async([=,cloned=persistent](){
+			//Call object method with arguments
+			MakeCallback(cloned, "onended");
+		});
+	}
+
+	void onCheckpoint(uint64_t position)
+	{
+		//Don't wait if playback is being stopped
+		if (checkpoint->interrupted)
+			return;
+		//Not done yet
+		checkpoint->done = false;
+
+		//Run function on main node thread
+		MediaServer::Async([=,checkpoint=checkpoint,cloned=persistent](){
+			Nan::HandleScope scope;
+			int i = 0;
+			v8::Local<v8::Value> argv[1];
+			//Create local args
+			argv[i++] = Nan::New<v8::Number>((double)position);
+			//Call object method with arguments
+			MakeCallback(cloned, "oncheckpoint", i, argv);
+			//Resume playback
+			checkpoint->done = true;
+		});
+
+		//Get emulator loop, we are running on it
+		auto& loop = static_cast<EventLoop&>(GetTimeService());
+		//Wait until it is handled, so no packet after the position is played meanwhile,
+		//but keep running the loop tasks, as the main thread syncs with them to get the stats
+		while (!checkpoint->done && !checkpoint->interrupted)
+			loop.Run(std::chrono::milliseconds(1));
+	}
+
+private:
+	void Interrupt(bool interrupted)
+	{
+		//Release the emulator thread if it is waiting for a checkpoint
+		checkpoint->interrupted = interrupted;
+	}
+
+	//Emulator thread is joined when stopping playback, so it must not wait for the main thread meanwhile
+	template<typename Func>
+	auto Interrupted(Func&& func) -> decltype(func())
+	{
+		Interrupt(true);
+		auto result = func();
+		Interrupt(false);
+		return result;
+	}
+
+private:
+	std::shared_ptr<Persistent<v8::Object>> persistent;
+	std::shared_ptr<Checkpoint> checkpoint = std::make_shared<Checkpoint>();
+	//Owned by the emulator
+	Reader* reader = nullptr;
+	float speed = 1.0;
+	DWORD checkpointInterval = 0;
+};
+%}
+
 class PCAPTransportEmulator
 {
 public:
 	PCAPTransportEmulator();
-	
+
 	void SetRemoteProperties(const Properties& properties);
 
 	bool AddIncomingSourceGroup(RTPIncomingSourceGroup *group);
 	bool RemoveIncomingSourceGroup(RTPIncomingSourceGroup *group);
-	
+
+	bool Open(const char* filename);
+	bool SetReader(UDPReader* reader);
+	bool Play();
+	uint64_t Seek(uint64_t time);
+	bool Stop();
+	bool Close();
+
+	TimeService& GetTimeService();
+};
+
+class PCAPTransportEmulatorFacade
+{
+public:
+	PCAPTransportEmulatorFacade(v8::Local<v8::Object> object);
+
+	void SetRemoteProperties(const Properties& properties);
+
+	bool AddIncomingSourceGroup(const RTPIncomingSourceGroupShared& group);
+	bool RemoveIncomingSourceGroup(const RTPIncomingSourceGroupShared& group);
+
 	bool Open(const char* filename);
 	bool SetReader(UDPReader* reader);
 	bool Play();
 	uint64_t Seek(uint64_t time);
+	uint64_t Tell();
 	bool Stop();
 	bool Close();
-	
+	void SetPlaybackSpeed(float speed);
+	void SetCheckpointInterval(DWORD interval);
+	uint64_t GetCapturePosition(uint64_t time);
+	RTPReceiverShared GetRTPReceiver();
+
 	TimeService& GetTimeService();
 };
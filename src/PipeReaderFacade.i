@@ -0,0 +1,105 @@
+%include "MediaServer.i"
+
+%{
+#include <thread>
+#include <unistd.h>
+
+class PipeReaderFacade
+{
+public:
+	PipeReaderFacade(v8::Local<v8::Object> object)
+	{
+		persistent = MediaServer::MakeSharedPersistent(object);
+	}
+
+	virtual ~PipeReaderFacade()
+	{
+		Stop();
+	}
+
+	bool Open()
+	{
+		//Check not already opened
+		if (fds[0]!=-1)
+			return Error("-PipeReaderFacade::Open() | already opened\n");
+		//Create pipe
+		if (pipe(fds)<0)
+			return Error("-PipeReaderFacade::Open() | could not create pipe [errno:%d]\n", errno);
+		//Done
+		return true;
+	}
+
+	std::string GetPath() const
+	{
+		//Writers open the write end as a regular file, it is kept open until stopped so it can be opened lazily
+		return fds[1]!=-1 ? "/dev/fd/" + std::to_string(fds[1]) : "";
+	}
+
+	bool Start()
+	{
+		//Check opened and not started
+		if (fds[0]==-1 || thread.joinable())
+			return Error("-PipeReaderFacade::Start() | not opened or already started\n");
+
+		//Read on its own thread so the writer never blocks on a full pipe
+		thread = std::thread([fd=fds[0],cloned=persistent](){
+			BYTE data[65536];
+			ssize_t len;
+			//Read until closed
+			while ((len = read(fd, data, sizeof(data)))>0)
+			{
+				//Copy data
+				auto buffer = std::make_shared<std::vector<BYTE>>(data, data + len);
+				//Run function on main node thread
+				MediaServer::Async([=](){
+					Nan::HandleScope scope;
+					int i = 0;
+					v8::Local<v8::Value> argv[1];
+					//Create local args
+					argv[i++] = Nan::CopyBuffer(reinterpret_cast<const char*>(buffer->data()), buffer->size()).ToLocalChecked();
+					//Call object method with arguments
+					MakeCallback(cloned, "ondata", i, argv);
+				});
+			}
+			//Run function on main node thread
+			MediaServer::Async([=](){
+				//Call object method with arguments
+				MakeCallback(cloned, "onended");
+			});
+		});
+
+		//Done
+		return true;
+	}
+
+	void Stop()
+	{
+		//Close our write end, so we get the end of file once the writer has closed its one
+		if (fds[1]!=-1)
+			close(fds[1]);
+		//Wait until all data has been read
+		if (thread.joinable())
+			thread.join();
+		//Close read end
+		if (fds[0]!=-1)
+			close(fds[0]);
+		//Closed
+		fds[0] = fds[1] = -1;
+	}
+
+private:
+	std::shared_ptr<Persistent<v8::Object>> persistent;
+	std::thread thread;
+	int fds[2] = {-1, -1};
+};
+%}
+
+class PipeReaderFacade
+{
+public:
+	PipeReaderFacade(v8::Local<v8::Object> object);
+	bool Open();
+	std::string GetPath() const;
+	bool Start();
+	void Stop();
+};
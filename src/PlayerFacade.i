@@ -1,85 +1,571 @@
 %include "MediaServer.i"
 
 %{
+#include <vector>
+#include <map>
+
 class PlayerFacade :
-	public MP4Streamer,
-	public MP4Streamer::Listener
+	public MP4RtpTrack::Listener
 {
 public:
-	PlayerFacade(v8::Local<v8::Object> object) :
-		MP4Streamer(this),
-        audio(RTPIncomingSourceGroup::Create(MediaFrame::Audio, loop)),
-        video(RTPIncomingSourceGroup::Create(MediaFrame::Video, loop))
+	struct Source
+	{
+		RTPIncomingSourceGroup::shared group;
+		MediaFrame::Type media;
+		DWORD codec;
+		//RTP rewritting state, so timestamps and sequence numbers are continuous across files and rate changes
+		bool	sent		= false;
+		bool	resync		= false;
+		DWORD	lastTimestamp	= 0;
+		WORD	lastSeqNum	= 0;
+		QWORD	lastTime	= 0;
+		WORD	seqNumOffset	= 0;
+		//Timestamps are scaled by the playback speed since these base file and rewritten timestamps
+		DWORD	baseTimestamp	= 0;
+		DWORD	rewrittenBase	= 0;
+		float	speed		= 1.0;
+	};
+	struct Track
+	{
+		std::unique_ptr<MP4RtpTrack> rtp;
+		DWORD source;
+		QWORD next = MP4_INVALID_TIMESTAMP;
+	};
+public:
+	PlayerFacade(v8::Local<v8::Object> object)
 	{
 		persistent = std::make_shared<Persistent<v8::Object>>(object);
-		Reset();
-		//Start dispatching
-		audio->Start();
-		video->Start();
+		//Start loop, it must be running while the sources are used even if not playing
+		loop.Start();
+		//Create playback timer
+		timer = loop.CreateTimerUnsafe([this](auto){ PlayLoop(); });
+	}
+
+	virtual ~PlayerFacade()
+	{
+		//Close file if still opened
+		Close();
+		//Stop loop
+		loop.Stop();
+	}
+
+	int Open(const char* filename)
+	{
+		//If already opened
+		if (opened)
+			//Return error
+			return Error("-PlayerFacade::Open() | Already opened\n");
+
+		// Open mp4 file
+		mp4 = MP4Read(filename);
+
+		// If not valid
+		if (mp4 == MP4_INVALID_FILE_HANDLE)
+			//Return error
+			return Error("-PlayerFacade::Open() | Invalid file handle for %s\n",filename);
+
+		//Number of sources already used by the tracks of this file for each media and codec
+		std::map<std::pair<MediaFrame::Type,DWORD>,DWORD> used;
+
+		//Get number of hint tracks
+		DWORD num = MP4GetNumberOfTracks(mp4, MP4_HINT_TRACK_TYPE, 0);
+
+		//Iterate all hint tracks
+		for (DWORD i = 0; i < num; ++i)
+		{
+			// Get the next hint track
+			MP4TrackId hintId = MP4FindTrackId(mp4, i, MP4_HINT_TRACK_TYPE, 0);
+
+			//If not found
+			if (hintId == MP4_INVALID_TRACK_ID)
+				continue;
+
+			// Get asociated track
+			MP4TrackId trackId = MP4GetHintTrackReferenceTrackId(mp4, hintId);
+
+			//Check it's good
+			if (trackId == MP4_INVALID_TRACK_ID)
+				continue;
+
+			// Get track type
+			const char *type = MP4GetTrackType(mp4, trackId);
+
+			// Get rtp payload
+			char *name = nullptr;
+			BYTE payload = 0;
+			MP4GetHintTrackRtpPayload(mp4, hintId, &name, &payload, NULL, NULL);
+
+			//Skip streams with no codec
+			if (!type || !name)
+				continue;
+
+			std::unique_ptr<MP4RtpTrack> rtp;
+
+			// Check track type and codec
+			if (strcmp(type, MP4_AUDIO_TRACK_TYPE) == 0)
+			{
+				if (strcmp("PCMU", name) == 0)
+					rtp = std::make_unique<MP4RtpTrack>(MediaFrame::Audio,AudioCodec::PCMU,payload,8000);
+				else if (strcmp("PCMA", name) == 0)
+					rtp = std::make_unique<MP4RtpTrack>(MediaFrame::Audio,AudioCodec::PCMA,payload,8000);
+				else if (strcmp("OPUS", name) == 0)
+					rtp = std::make_unique<MP4RtpTrack>(MediaFrame::Audio,AudioCodec::OPUS,payload,48000);
+			} else if (strcmp(type, MP4_VIDEO_TRACK_TYPE) == 0) {
+				if (strcmp("H264", name) == 0)
+					rtp = std::make_unique<MP4RtpTrack>(MediaFrame::Video,VideoCodec::H264,payload,90000);
+				else if (strcmp("VP8", name) == 0)
+					rtp = std::make_unique<MP4RtpTrack>(MediaFrame::Video,VideoCodec::VP8,payload,90000);
+				else if (strcmp("VP9", name) == 0)
+					rtp = std::make_unique<MP4RtpTrack>(MediaFrame::Video,VideoCodec::VP9,payload,90000);
+			}
+
+			//Skip unsupported
+			if (!rtp)
+			{
+				Log("-PlayerFacade::Open() | Skipping unsupported track [trackId:%d,type:\"%s\",name:\"%s\"]\n", trackId, type, name);
+				continue;
+			}
+
+			//Store the rest of values
+			rtp->mp4 = mp4;
+			rtp->hint = hintId;
+			rtp->track = trackId;
+			rtp->timeScale = MP4GetTrackTimeScale(mp4, hintId);
+			rtp->sampleId = 1;
+			rtp->packetIndex = 0;
+
+			//Reuse the source of a previous file with same media and codec in order, if any, as the codec can't change on a source
+			DWORD source = FindSource(rtp->media, rtp->codec, used[{rtp->media, rtp->codec}]++);
+
+			//If not found
+			if (source==sources.size())
+			{
+				//Create source for the track
+				auto group = RTPIncomingSourceGroup::Create(rtp->media, loop);
+				//Set random ssrc
+				group->media.ssrc = rand();
+				//Start dispatching
+				group->Start();
+				//Add it
+				sources.push_back(Source{group, rtp->media, rtp->codec});
+			}
+
+			//Add it
+			tracks.push_back(Track{std::move(rtp), source});
+		}
+
+		//We are opened
+		opened = true;
+
+		return 1;
+	}
+
+	int Load(const char* filename)
+	{
+		//Stop playback
+		Stop();
+
+		//Close current file but keep the sources
+		CloseFile();
+
+		//Open next one
+		return Open(filename);
+	}
+
+	DWORD GetTrackCount()			{ return tracks.size();	}
+	DWORD GetTrackId(DWORD index)		{ return index<tracks.size() ? tracks[index].rtp->track : 0; }
+	const char* GetTrackMedia(DWORD index)
+	{
+		//Check index
+		if (index>=tracks.size())
+			return "unknown";
+		return tracks[index].rtp->media==MediaFrame::Audio ? "audio" : "video";
+	}
+	const char* GetTrackCodec(DWORD index)
+	{
+		//Check index
+		if (index>=tracks.size())
+			return "unknown";
+		return GetNameForCodec(tracks[index].rtp->media, tracks[index].rtp->codec);
+	}
+	DWORD GetTrackWidth(DWORD index)	{ return IsVideoTrack(index) ? MP4GetTrackVideoWidth(mp4,tracks[index].rtp->track) : 0;		}
+	DWORD GetTrackHeight(DWORD index)	{ return IsVideoTrack(index) ? MP4GetTrackVideoHeight(mp4,tracks[index].rtp->track) : 0;	}
+	double GetTrackFramerate(DWORD index)	{ return IsVideoTrack(index) ? MP4GetTrackVideoFrameRate(mp4,tracks[index].rtp->track) : 0;	}
+	DWORD GetTrackBitrate(DWORD index)	{ return index<tracks.size() ? MP4GetTrackBitRate(mp4,tracks[index].rtp->track) : 0;		}
+	DWORD GetTrackSourceIndex(DWORD index)	{ return index<tracks.size() ? tracks[index].source : sources.size(); }
+	RTPIncomingSourceGroup::shared GetTrackSource(DWORD index) { return index<tracks.size() ? sources[tracks[index].source].group : nullptr; }
+
+	double GetDuration()
+	{
+		//Check we are opened
+		if (!opened)
+			return 0;
+		//Get file time scale
+		auto scale = MP4GetTimeScale(mp4);
+		if (scale == 0) return 0;
+		//In ms
+		return (double)MP4GetDuration(mp4)*1000/scale;
+	}
+
+	void Reset()
+	{
+		//For each source
+		for (auto& source : sources)
+		{
+			//Reset stats and change ssrc
+			source.group->media.Reset();
+			source.group->media.ssrc = rand();
+		}
+	}
+
+	int Play()
+	{
+		//Start from the beginning
+		return Seek(0);
+	}
+
+	QWORD PreSeek(QWORD time)
+	{
+		//For each track
+		for (auto& track : tracks)
+			//Get nearest i frame of first video track
+			if (opened && track.rtp->media==MediaFrame::Video)
+				return track.rtp->SearchNearestSyncFrame(time);
+		return time;
+	}
+
+	QWORD SearchNextSyncFrame(QWORD time)
+	{
+		//For each track
+		for (auto& track : tracks)
+		{
+			//Only on first video track
+			if (!opened || track.rtp->media!=MediaFrame::Video)
+				continue;
+			MP4RtpTrack* rtp = track.rtp.get();
+			//Get sample at that time
+			MP4SampleId sampleId = MP4GetSampleIdFromTime(mp4, rtp->hint, MP4ConvertToTrackTimestamp(mp4, rtp->hint, time, 1000), false);
+			//Check
+			if (sampleId == MP4_INVALID_SAMPLE_ID)
+				return time;
+			//If it is not at that exact time
+			if (MP4ConvertFromTrackTimestamp(mp4, rtp->hint, MP4GetSampleTime(mp4, rtp->hint, sampleId), 1000) < time)
+				//Start on next one
+				sampleId++;
+			//Get number of samples
+			auto num = MP4GetTrackNumberOfSamples(mp4, rtp->hint);
+			//Skip until next sync frame
+			while (sampleId<=num && MP4GetSampleSync(mp4, rtp->hint, sampleId)==0)
+				sampleId++;
+			//If not found
+			if (sampleId>num)
+				return time;
+			//Get its time
+			return MP4ConvertFromTrackTimestamp(mp4, rtp->hint, MP4GetSampleTime(mp4, rtp->hint, sampleId), 1000);
+		}
+		return time;
+	}
+
+	int Seek(QWORD time)
+	{
+		//Stop playback
+		Stop();
+
+		//Check we are opened
+		if (!opened)
+			//Exit
+			return Error("-PlayerFacade::Seek() | not opened!\n");
+
+		//Run on loop thread
+		loop.SyncUnsafe([=](auto){
+			//We are playing
+			playing = true;
+
+			//Set seeked and current position
+			seeked = time;
+			position = time;
+
+			//Seek all tracks
+			SeekTracks();
+
+			//Calculate start time
+			ini = getTime();
+			//Position at start time
+			base = seeked;
+			//Get current speed
+			speed = playbackSpeed;
+
+			//Start playing
+			timer->Again(std::chrono::milliseconds(0));
+		});
+
+		return 1;
+	}
+
+	QWORD Tell()		{ return position;	}
+
+	int Stop()
+	{
+		//Check
+		if (!playing)
+			return 0;
+
+		//Run on loop thread
+		loop.SyncUnsafe([=](auto){
+			//Change playing state
+			playing = false;
+			//Stop playback timer
+			timer->Cancel();
+		});
+
+		return 1;
+	}
+
+	int Close()
+	{
+		//Stop playback
+		Stop();
+
+		//Close file
+		CloseFile();
+
+		//Remove sources
+		sources.clear();
+
+		return 1;
+	}
+
+	void SetPlaybackSpeed(float playbackSpeed)
+	{
+		//Check it is valid
+		if (playbackSpeed<=0)
+			return;
+		//Set it
+		this->playbackSpeed = playbackSpeed;
+		//Apply it now instead of when next frame is due
+		loop.AsyncUnsafe([=](auto){
+			if (playing)
+				timer->Again(std::chrono::milliseconds(0));
+		});
 	}
-		
+
 	virtual void onRTPPacket(RTPPacket &packet)
 	{
+		//Check we are reading a track
+		if (!current)
+			return;
+		//Get source
+		auto& source = sources[current->source];
 		//Get time
 		auto now = getTimeMS();
 		//Clone packet
 		auto cloned = packet.Clone();
 		//Copy payload
 		cloned->AdquireMediaData();
-		//Check media type
-		switch(cloned->GetMediaType())
+		//If it is the first packet of a new file
+		if (source.resync)
 		{
-			case MediaFrame::Video:
-				//Update stats
-				video->media.Update(now,cloned->GetSeqNum(),cloned->GetMediaLength(),cloned->GetRTPHeader().GetSize());
-				//Set ssrc of video
-				cloned->SetSSRC(video->media.ssrc);
-				//Multiplex
-				video->AddPacket(cloned,0,now);
-				break;
-			case MediaFrame::Audio:
-				//Update stats
-				audio->media.Update(now,cloned->GetSeqNum(),cloned->GetMediaLength(),cloned->GetRTPHeader().GetSize());
-				//Set ssrc of audio
-				cloned->SetSSRC(audio->media.ssrc);
-				//Multiplex
-				audio->AddPacket(cloned,0,now);
-				break;
-			default:
-				///Ignore
-				return;
+			//Continue from last packet sent, advancing timestamp with the elapsed time
+			QWORD elapsed = std::max<QWORD>(now>source.lastTime ? now-source.lastTime : 0, 1);
+			source.baseTimestamp	= cloned->GetTimestamp();
+			source.rewrittenBase	= source.lastTimestamp + elapsed*cloned->GetClockRate()/1000;
+			source.speed		= speed;
+			source.seqNumOffset	= source.lastSeqNum + 1 - cloned->GetSeqNum();
+			//Done
+			source.resync = false;
+		} else if (!source.sent) {
+			//Keep timestamps of the file
+			source.baseTimestamp	= cloned->GetTimestamp();
+			source.rewrittenBase	= cloned->GetTimestamp();
+			source.speed		= speed;
+		} else if (source.speed!=speed) {
+			//Continue from current timestamp with the new speed
+			source.rewrittenBase	= RewriteTimestamp(source, cloned->GetTimestamp());
+			source.baseTimestamp	= cloned->GetTimestamp();
+			source.speed		= speed;
 		}
+		//Rewrite
+		cloned->SetTimestamp(RewriteTimestamp(source, cloned->GetTimestamp()));
+		cloned->SetSeqNum(cloned->GetSeqNum() + source.seqNumOffset);
+		//Store last sent
+		source.sent		= true;
+		source.lastTimestamp	= cloned->GetTimestamp();
+		source.lastSeqNum	= cloned->GetSeqNum();
+		source.lastTime		= now;
+		//Update stats
+		source.group->media.Update(now,cloned->GetSeqNum(),cloned->GetMediaLength(),cloned->GetRTPHeader().GetSize());
+		//Set ssrc of the source
+		cloned->SetSSRC(source.group->media.ssrc);
+		//Multiplex
+		source.group->AddPacket(cloned,0,now);
 	}
 
-	virtual void onTextFrame(TextFrame &frame) {}
-	virtual void onEnd() 
+	virtual void onMediaFrame(const MediaFrame &frame)  {}
+	virtual void onMediaFrame(DWORD ssrc, const MediaFrame &frame) {}
+
+private:
+	static DWORD RewriteTimestamp(const Source& source, DWORD timestamp)
 	{
-		//Run function on main node thread
-		MediaServer::Async([=,cloned=persistent](){
-			//Call object method with arguments
-			MakeCallback(cloned, "onended");
-		});
+		//Scale time elapsed since base, it may be negative after seeking backwards
+		return source.rewrittenBase + (int64_t)std::round((int32_t)(timestamp - source.baseTimestamp) / source.speed);
 	}
-	
-	void Reset() 
+
+	DWORD FindSource(MediaFrame::Type media, DWORD codec, DWORD n)
 	{
-		audio->media.Reset();
-		video->media.Reset();
-		audio->media.ssrc = rand();
-		video->media.ssrc = rand();
+		//Find the nth source of the media type and codec
+		for (DWORD i = 0; i<sources.size(); ++i)
+			if (sources[i].media==media && sources[i].codec==codec && !n--)
+				return i;
+		//Not found
+		return sources.size();
+	}
+
+	void CloseFile()
+	{
+		//Check if we were open
+		if (!opened)
+			return;
+
+		//Change state
+		opened = false;
+
+		//Remove tracks
+		tracks.clear();
+
+		//Next packets of the sources will continue from the last ones sent
+		for (auto& source : sources)
+			source.resync = source.sent;
+
+		// Close file
+		MP4Close(mp4);
+
+		//Unset handler
+		mp4 = MP4_INVALID_FILE_HANDLE;
+	}
+
+	QWORD SeekFirstSyncFrame(MP4RtpTrack* rtp)
+	{
+		//Start from the beginning
+		rtp->Reset();
+		//Get number of samples
+		auto num = MP4GetTrackNumberOfSamples(rtp->mp4, rtp->hint);
+		//Skip until first sync frame, so the track always starts with a key frame
+		while (rtp->sampleId<=num && MP4GetSampleSync(rtp->mp4, rtp->hint, rtp->sampleId)==0)
+			rtp->sampleId++;
+		//Get first frame time
+		return rtp->GetNextFrameTime();
+	}
+
+	bool IsVideoTrack(DWORD index)
+	{
+		return index<tracks.size() && tracks[index].rtp->media==MediaFrame::Video;
+	}
+
+	void SeekTracks()
+	{
+		//For each track
+		for (auto& track : tracks)
+		{
+			//If it is from the begining
+			if (!seeked && track.rtp->media==MediaFrame::Video)
+			{
+				//Start on the first key frame
+				track.next = SeekFirstSyncFrame(track.rtp.get());
+			} else if (!seeked) {
+				//Reset
+				track.rtp->Reset();
+				//Get first frame time
+				track.next = track.rtp->GetNextFrameTime();
+			} else if (track.rtp->media==MediaFrame::Video) {
+				//Get nearest i frame
+				track.next = track.rtp->SeekNearestSyncFrame(seeked);
+			} else {
+				//Get nearest frame
+				track.next = track.rtp->Seek(seeked);
+			}
+		}
+	}
+
+	void PlayLoop()
+	{
+		//Until stopped
+		while (opened && playing)
+		{
+			//Get next frame time of all tracks
+			QWORD t = MP4_INVALID_TIMESTAMP;
+			for (auto& track : tracks)
+				t = std::min(t, track.next);
+
+			//If all tracks have ended
+			if (t==MP4_INVALID_TIMESTAMP)
+			{
+				//Not playing anymore
+				playing = false;
+				//Run function on main node thread
+				MediaServer::Async([=,cloned=persistent](){
+					//Call object method with arguments
+					MakeCallback(cloned, "onended");
+				});
+				//Done
+				return;
+			}
+
+			//Get current playback time
+			QWORD now = base + speed * getTimeDiff(ini)/1000;
+
+			//If speed has been changed
+			if (speed!=playbackSpeed)
+			{
+				//Continue from current playback time with the new one
+				base = now;
+				ini = getTime();
+				speed = playbackSpeed;
+			}
+
+			//Update position
+			position = std::max<QWORD>(std::min(now, t), seeked);
+
+			if (t>now)
+			{
+				//Wait next, in real time
+				timer->Again(std::chrono::milliseconds((QWORD)std::ceil((t-now)/speed)));
+				//Done
+				return;
+			}
+
+			//Send all tracks that are due
+			for (auto& track : tracks)
+			{
+				if (track.next<=t)
+				{
+					//Set current track for the packets
+					current = &track;
+					//Send next packet
+					track.next = track.rtp->Read(this);
+					//Done
+					current = nullptr;
+				}
+			}
+		}
 	}
-	
-	virtual void onMediaFrame(const MediaFrame &frame)  {}
-	virtual void onMediaFrame(DWORD ssrc, const MediaFrame &frame) {}
 
-	RTPIncomingSourceGroup::shared GetAudioSource() { return audio; }
-	RTPIncomingSourceGroup::shared GetVideoSource() { return video; }
-	
 private:
-	std::shared_ptr<Persistent<v8::Object>> persistent;	
-	//TODO: Update to multitrack
-	RTPIncomingSourceGroup::shared audio;
-	RTPIncomingSourceGroup::shared video;
+	std::shared_ptr<Persistent<v8::Object>> persistent;
+	EventLoop	loop;
+	Timer::shared	timer;
+	MP4FileHandle	mp4	= MP4_INVALID_FILE_HANDLE;
+	std::vector<Source> sources;
+	std::vector<Track> tracks;
+	Track*		current	= nullptr;
+	volatile bool	opened	= false;
+	volatile bool	playing	= false;
+	QWORD		seeked	= 0;
+	QWORD		position = 0;
+	volatile float	playbackSpeed = 1.0;
+	//Playback clock, position at start time and speed used by the play loop
+	QWORD		ini	= 0;
+	QWORD		base	= 0;
+	float		speed	= 1.0;
 };
 %}
 
@@ -87,24 +573,27 @@ class PlayerFacade
 {
 public:
 	PlayerFacade(v8::Local<v8::Object> object);
-	RTPIncomingSourceGroupShared GetAudioSource();
-	RTPIncomingSourceGroupShared GetVideoSource();
-	void Reset();
-	
+
 	int Open(const char* filename);
-	bool HasAudioTrack();
-	bool HasVideoTrack();
-	DWORD GetAudioCodec();
-	DWORD GetVideoCodec();
+	int Load(const char* filename);
+	DWORD GetTrackCount();
+	DWORD GetTrackId(DWORD index);
+	const char* GetTrackMedia(DWORD index);
+	const char* GetTrackCodec(DWORD index);
+	DWORD GetTrackWidth(DWORD index);
+	DWORD GetTrackHeight(DWORD index);
+	double GetTrackFramerate(DWORD index);
+	DWORD GetTrackBitrate(DWORD index);
+	DWORD GetTrackSourceIndex(DWORD index);
+	RTPIncomingSourceGroupShared GetTrackSource(DWORD index);
 	double GetDuration();
-	DWORD GetVideoWidth();
-	DWORD GetVideoHeight();
-	DWORD GetVideoBitrate();
-	double GetVideoFramerate();
+	void Reset();
 	int Play();
 	QWORD PreSeek(QWORD time);
+	QWORD SearchNextSyncFrame(QWORD time);
 	int Seek(QWORD time);
 	QWORD Tell();
 	int Stop();
 	int Close();
+	void SetPlaybackSpeed(float playbackSpeed);
 };
@@ -0,0 +1,144 @@
+%include "shared_ptr.i"
+%include "EventLoop.i"
+%include "RTPSender.i"
+%include "RTPReceiver.i"
+%include "RTPIncomingSourceGroup.i"
+%include "RTPOutgoingSourceGroup.i"
+
+%{
+#include <map>
+
+class RTPLoopbackFacade :
+	public RTPSender,
+	public RTPReceiver
+{
+public:
+	struct Route
+	{
+		RTPOutgoingSourceGroup::shared outgoing;
+		RTPIncomingSourceGroup::shared incoming;
+	};
+public:
+	RTPLoopbackFacade()
+	{
+		//Start dispatching
+		loop.Start();
+	}
+
+	virtual ~RTPLoopbackFacade()
+	{
+		//Stop dispatching
+		loop.Stop();
+	}
+
+	bool AddOutgoingSourceGroup(const RTPOutgoingSourceGroup::shared& outgoing, const RTPIncomingSourceGroup::shared& incoming)
+	{
+		//Check
+		if (!outgoing || !incoming)
+			return false;
+		//Run on loop thread
+		loop.SyncUnsafe([=](auto){
+			//Route outgoing media ssrc to the incoming group
+			routes[outgoing->media.ssrc] = Route{outgoing, incoming};
+			//Start dispatching
+			incoming->Start();
+		});
+		return true;
+	}
+
+	bool RemoveOutgoingSourceGroup(const RTPOutgoingSourceGroup::shared& outgoing)
+	{
+		//Check
+		if (!outgoing)
+			return false;
+		//Run on loop thread
+		loop.SyncUnsafe([=](auto){
+			//Find route
+			auto it = routes.find(outgoing->media.ssrc);
+			//If not found
+			if (it==routes.end())
+				return;
+			//Stop dispatching
+			it->second.incoming->Stop();
+			//Remove route
+			routes.erase(it);
+		});
+		return true;
+	}
+
+	virtual int Enqueue(const RTPPacket::shared& packet) override
+	{
+		//Clone packet as the original one is kept by the sender
+		auto cloned = packet->Clone();
+		//Deliver on loop thread
+		loop.AsyncUnsafe([=](auto now) mutable {
+			//Find route
+			auto it = routes.find(cloned->GetSSRC());
+			//If not found
+			if (it==routes.end())
+				return;
+			//Get size
+			DWORD size = cloned->GetRTPHeader().GetSize() + cloned->GetMediaLength();
+			//Update sent stats
+			it->second.outgoing->media.Update(now.count(), cloned, size);
+			//Get incoming group
+			auto& incoming = it->second.incoming;
+			//Set incoming ssrc
+			cloned->SetSSRC(incoming->media.ssrc);
+			//Update received stats and extended seq nums
+			if (!incoming->Process(cloned))
+				return;
+			//Receive it
+			incoming->AddPacket(cloned, size, now.count());
+		});
+		return 1;
+	}
+
+	virtual int SendPLI(DWORD ssrc) override
+	{
+		//Request it on the loop thread
+		loop.AsyncUnsafe([=](auto){
+			//Increase counter
+			plis++;
+			//Find the outgoing group of the incoming ssrc
+			for (auto& [id, route] : routes)
+				if (route.incoming->media.ssrc==ssrc)
+					//Forward request to the sender side
+					route.outgoing->onPLIRequest(route.outgoing->media.ssrc);
+		});
+		return 1;
+	}
+
+	virtual int Reset(DWORD ssrc) override	{ return 1;	}
+
+	DWORD GetPLICount()			{ return plis;	}
+	TimeService& GetTimeService()		{ return loop;	}
+
+private:
+	EventLoop loop;
+	std::map<DWORD,Route> routes;
+	volatile DWORD plis = 0;
+};
+%}
+
+class RTPLoopbackFacade
+{
+public:
+	RTPLoopbackFacade();
+	bool AddOutgoingSourceGroup(const RTPOutgoingSourceGroupShared& outgoing, const RTPIncomingSourceGroupShared& incoming);
+	bool RemoveOutgoingSourceGroup(const RTPOutgoingSourceGroupShared& outgoing);
+	DWORD GetPLICount();
+	TimeService& GetTimeService();
+};
+
+SHARED_PTR_BEGIN(RTPLoopbackFacade)
+{
+	RTPLoopbackFacadeShared()
+	{
+		return new std::shared_ptr<RTPLoopbackFacade>(new RTPLoopbackFacade());
+	}
+
+	SHARED_PTR_TO(RTPSender)
+	SHARED_PTR_TO(RTPReceiver)
+}
+SHARED_PTR_END(RTPLoopbackFacade)
@@ -0,0 +1,300 @@
+%include "shared_ptr.i"
+
+%{
+#include <set>
+#include <deque>
+#include <vector>
+#include <string>
+#include <unistd.h>
+#include "PCAPFile.h"
+#include "UDPDumper.h"
+
+class TransportDumperFacade :
+	public std::enable_shared_from_this<TransportDumperFacade>
+{
+public:
+	//Dumper given to the transport, which takes ownership of it, while the facade is kept alive by node
+	class Proxy : public UDPDumper
+	{
+	public:
+		Proxy(const std::shared_ptr<TransportDumperFacade>& facade) : facade(facade) {}
+		virtual void WriteUDP(uint64_t currentTimeMillis,uint32_t originIp, short originPort, uint32_t destIp, short destPort,const uint8_t* data, uint32_t size, DWORD truncate = 0) override
+		{
+			facade->WriteUDP(currentTimeMillis, originIp, originPort, destIp, destPort, data, size, truncate);
+		}
+		virtual void Close() override
+		{
+			facade->Close();
+		}
+	private:
+		std::shared_ptr<TransportDumperFacade> facade;
+	};
+
+	//Packet kept on the in memory window
+	struct Record
+	{
+		QWORD time;
+		DWORD originIp;
+		short originPort;
+		DWORD destIp;
+		short destPort;
+		std::vector<BYTE> data;
+		DWORD size;
+	};
+
+	static constexpr size_t PCAPHeaderSize = 24;
+	static constexpr size_t PCAPRecordHeaderSize = 58;
+public:
+	TransportDumperFacade(const char* filename) :
+		filename(filename)
+	{
+	}
+
+	virtual ~TransportDumperFacade()
+	{
+		//Close current file
+		Close();
+	}
+
+	UDPDumper* CreateUDPDumper()
+	{
+		//Transport will delete it
+		return new Proxy(shared_from_this());
+	}
+
+	void SetMaxFileSize(size_t size)	{ ScopedLock lock(mutex); maxFileSize = size;		}
+	void SetMaxDuration(QWORD ms)		{ ScopedLock lock(mutex); maxDuration = ms;		}
+	void SetMaxFiles(DWORD num)		{ ScopedLock lock(mutex); maxFiles = num;		}
+	void SetWindow(QWORD ms)		{ ScopedLock lock(mutex); window = ms;			}
+
+	void AddSSRC(DWORD ssrc)		{ ScopedLock lock(mutex); ssrcs.insert(ssrc);		}
+	void RemoveSSRC(DWORD ssrc)		{ ScopedLock lock(mutex); ssrcs.erase(ssrc);		}
+	void ClearSSRCs()			{ ScopedLock lock(mutex); ssrcs.clear();		}
+
+	void WriteUDP(QWORD now, DWORD originIp, short originPort, DWORD destIp, short destPort, const BYTE* data, DWORD size, DWORD truncate)
+	{
+		ScopedLock lock(mutex);
+
+		//Check if it passes the filter
+		if (!Matches(data, size))
+			return;
+
+		//Get saved size
+		DWORD saved = truncate ? std::min(truncate, size) : size;
+
+		//If we are on trigger mode
+		if (window)
+		{
+			//Keep it on memory
+			records.push_back(Record{now, originIp, originPort, destIp, destPort, std::vector<BYTE>(data, data + saved), size});
+			//Remove the ones out of the window
+			while (records.size() && records.front().time + window < now)
+				records.pop_front();
+			return;
+		}
+
+		//If we need to start a new file
+		if (!pcap || (maxFileSize && written + PCAPRecordHeaderSize + saved > maxFileSize) || (maxDuration && now >= opened + maxDuration))
+			//Rotate
+			if (!Rotate(now))
+				return;
+
+		//Write it
+		pcap->WriteUDP(now, originIp, originPort, destIp, destPort, data, size, truncate);
+		//Update written size
+		written += PCAPRecordHeaderSize + saved;
+	}
+
+	std::string Snapshot()
+	{
+		std::deque<Record> snapshot;
+		std::string name;
+		{
+			ScopedLock lock(mutex);
+
+			//Check we are on trigger mode
+			if (!window)
+				return "";
+
+			//Copy the packets in window, so we don't block the transport while writing them and they are kept for next snapshots
+			snapshot = records;
+
+			//Get new filename
+			name = GetFilename(index);
+
+			//Delete old ones
+			if (maxFiles && index >= maxFiles)
+				unlink(GetFilename(index - maxFiles).c_str());
+
+			//Next file
+			index++;
+		}
+
+		//Create new file
+		PCAPFile file;
+
+		//Open it
+		if (!file.Open(name.c_str()))
+		{
+			Error("-TransportDumperFacade::Snapshot() | could not open pcap file [%s]\n", name.c_str());
+			return "";
+		}
+
+		//Write all packets in window
+		for (const auto& record : snapshot)
+			file.WriteUDP(record.time, record.originIp, record.originPort, record.destIp, record.destPort, record.data.data(), record.size, record.data.size());
+
+		//Close it
+		file.Close();
+
+		//Done
+		return name;
+	}
+
+	void Close()
+	{
+		ScopedLock lock(mutex);
+		//Close current file
+		pcap.reset();
+		//Drop window
+		records.clear();
+	}
+
+private:
+	bool Matches(const BYTE* data, DWORD size)
+	{
+		//If not filtering
+		if (ssrcs.empty())
+			return true;
+		//Check it is rtp or rtcp
+		if (size<12 || (data[0] >> 6)!=2)
+			return false;
+		//If it is rtcp
+		if (data[1]>=192 && data[1]<=223)
+		{
+			//Check each packet of the compound
+			for (DWORD pos = 0; pos + 8 <= size;)
+			{
+				//Get packet type, count and length
+				BYTE type = data[pos+1];
+				BYTE count = data[pos] & 0x1f;
+				DWORD len = (get2(data, pos+2) + 1) * 4;
+				//Check it is complete
+				if (pos + len > size)
+					break;
+				//Sender ssrc, first sdes chunk or first bye source
+				if (ssrcs.count(get4(data, pos+4)))
+					return true;
+				//Get offset of the ssrcs of the report blocks, bye sources or feedback media
+				DWORD ini = 0;
+				DWORD step = 0;
+				switch (type)
+				{
+					case 200: //SR, report blocks after sender info
+						ini = 28; step = 24; break;
+					case 201: //RR
+						ini = 8; step = 24; break;
+					case 203: //BYE
+						ini = 8; step = 4; count = count ? count - 1 : 0; break;
+					case 205: //RTPFB
+					case 206: //PSFB
+						ini = 8; step = 0; count = 1; break;
+					default:
+						count = 0;
+				}
+				//Check them
+				for (DWORD i = 0; i < count && pos + ini + i * step + 4 <= pos + len; ++i)
+					if (ssrcs.count(get4(data, pos + ini + i * step)))
+						return true;
+				//Next packet
+				pos += len;
+			}
+			return false;
+		}
+		//Check rtp ssrc
+		return ssrcs.count(get4(data, 8));
+	}
+
+	std::string GetFilename(QWORD index) const
+	{
+		//Find extension
+		auto pos = filename.rfind('.');
+		//Ignore dots on directories
+		if (pos==std::string::npos || filename.find('/', pos)!=std::string::npos)
+			pos = filename.size();
+		//Insert index before it
+		return filename.substr(0, pos) + "-" + std::to_string(index) + filename.substr(pos);
+	}
+
+	bool Rotate(QWORD now)
+	{
+		//Close previous one
+		pcap.reset();
+
+		//Get new filename, use the given one if not rotating
+		current = maxFileSize || maxDuration || window ? GetFilename(index) : filename;
+
+		//Create new file
+		pcap = std::make_unique<PCAPFile>();
+
+		//Open it
+		if (!pcap->Open(current.c_str()))
+		{
+			//Drop it, next packet will try to open it again
+			pcap.reset();
+			return Error("-TransportDumperFacade::Rotate() | could not open pcap file [%s]\n", current.c_str());
+		}
+
+		//Delete old ones
+		if (maxFiles && index >= maxFiles)
+			unlink(GetFilename(index - maxFiles).c_str());
+
+		//Next file
+		index++;
+		written = PCAPHeaderSize;
+		opened = now;
+
+		return true;
+	}
+
+private:
+	Mutex mutex;
+	std::string filename;
+	std::string current;
+	std::unique_ptr<PCAPFile> pcap;
+	std::set<DWORD> ssrcs;
+	std::deque<Record> records;
+	size_t maxFileSize = 0;
+	QWORD maxDuration = 0;
+	DWORD maxFiles = 0;
+	QWORD window = 0;
+	QWORD index = 0;
+	QWORD opened = 0;
+	size_t written = 0;
+};
+%}
+
+class TransportDumperFacade
+{
+public:
+	TransportDumperFacade(const char* filename);
+	UDPDumper* CreateUDPDumper();
+	void SetMaxFileSize(size_t size);
+	void SetMaxDuration(QWORD ms);
+	void SetMaxFiles(DWORD num);
+	void SetWindow(QWORD ms);
+	void AddSSRC(DWORD ssrc);
+	void RemoveSSRC(DWORD ssrc);
+	void ClearSSRCs();
+	std::string Snapshot();
+	void Close();
+};
+
+SHARED_PTR_BEGIN(TransportDumperFacade)
+{
+	TransportDumperFacadeShared(const char* filename)
+	{
+		return new std::shared_ptr<TransportDumperFacade>(new TransportDumperFacade(filename));
+	}
+}
+SHARED_PTR_END(TransportDumperFacade)
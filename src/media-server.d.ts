@@ -47,11 +47,30 @@ export  class ActiveSpeakerDetectorFacade {
 
   SetMinActivationScore(minActivationScore: number): void;
 
+  SetPriority(id: number, priority: number): void;
+
   AddIncomingSourceGroup(incoming: any, id: number): void;
 
   RemoveIncomingSourceGroup(incoming: any): void;
 }
 
+export  class AudioLevelListenerFacade {
+
+  constructor(object: any);
+
+  AttachTo(incoming: any): void;
+
+  Detach(): void;
+
+  SetInterval(interval: number): void;
+
+  HasAudioLevel(): boolean;
+
+  GetLevel(): number;
+
+  GetVAD(): boolean;
+}
+
 export  class TimeService {
 }
 
@@ -574,9 +593,15 @@ export  class MP4RecorderFacade extends MediaFrameListener {
 
   SetTimeShiftDuration(duration: number): void;
 
+  SetAlignToSenderTime(align: boolean, window: number): void;
+
+  SetAV1Config(profile: number, levelIdx: number, tier: number): void;
+
   SetH264ParameterSets(sprops: string): boolean;
 
   Close(async: boolean): boolean;
+
+  ExportClip(filename: string, from: number, to: number, disableHints: boolean, object: any): boolean;
 }
 
 export  class MP4RecorderFacadeShared {
@@ -628,40 +653,79 @@ export  class PCAPTransportEmulator {
   GetTimeService(): TimeService;
 }
 
-export  class PlayerFacade {
+export  class PCAPTransportEmulatorFacade {
 
   constructor(object: any);
 
-  GetAudioSource(): RTPIncomingSourceGroupShared;
+  SetRemoteProperties(properties: any): void;
 
-  GetVideoSource(): RTPIncomingSourceGroupShared;
+  AddIncomingSourceGroup(group: RTPIncomingSourceGroupShared): boolean;
 
-  Reset(): void;
+  RemoveIncomingSourceGroup(group: RTPIncomingSourceGroupShared): boolean;
+
+  Open(filename: string): boolean;
+
+  SetReader(reader: UDPReader): boolean;
+
+  Play(): boolean;
+
+  Seek(time: number): number;
+
+  Tell(): number;
+
+  Stop(): boolean;
+
+  Close(): boolean;
+
+  SetPlaybackSpeed(speed: number): void;
+
+  SetCheckpointInterval(interval: number): void;
+
+  GetCapturePosition(time: number): number;
+
+  GetRTPReceiver(): RTPReceiverShared;
+
+  GetTimeService(): TimeService;
+}
+
+export  class PlayerFacade {
+
+  constructor(object: any);
 
   Open(filename: string): number;
 
-  HasAudioTrack(): boolean;
+  Load(filename: string): number;
 
-  HasVideoTrack(): boolean;
+  GetTrackCount(): number;
 
-  GetAudioCodec(): number;
+  GetTrackId(index: number): number;
 
-  GetVideoCodec(): number;
+  GetTrackMedia(index: number): string;
 
-  GetDuration(): number;
+  GetTrackCodec(index: number): string;
+
+  GetTrackWidth(index: number): number;
+
+  GetTrackHeight(index: number): number;
+
+  GetTrackFramerate(index: number): number;
+
+  GetTrackBitrate(index: number): number;
 
-  GetVideoWidth(): number;
+  GetTrackSourceIndex(index: number): number;
 
-  GetVideoHeight(): number;
+  GetTrackSource(index: number): RTPIncomingSourceGroupShared;
 
-  GetVideoBitrate(): number;
+  GetDuration(): number;
 
-  GetVideoFramerate(): number;
+  Reset(): void;
 
   Play(): number;
 
   PreSeek(time: number): number;
 
+  SearchNextSyncFrame(time: number): number;
+
   Seek(time: number): number;
 
   Tell(): number;
@@ -669,6 +733,8 @@ export  class PlayerFacade {
   Stop(): number;
 
   Close(): number;
+
+  SetPlaybackSpeed(playbackSpeed: number): void;
 }
 
 export  class Properties {
@@ -727,6 +793,62 @@ export  class RTPSessionFacadeShared {
   get(): RTPSessionFacade;
 }
 
+export  class TransportDumperFacade {
+
+  constructor(filename: string);
+
+  CreateUDPDumper(): any;
+
+  SetMaxFileSize(size: number): void;
+
+  SetMaxDuration(ms: number): void;
+
+  SetMaxFiles(num: number): void;
+
+  SetWindow(ms: number): void;
+
+  AddSSRC(ssrc: number): void;
+
+  RemoveSSRC(ssrc: number): void;
+
+  ClearSSRCs(): void;
+
+  Snapshot(): string;
+
+  Close(): void;
+}
+
+export  class TransportDumperFacadeShared {
+
+  constructor(filename: string);
+
+  get(): TransportDumperFacade;
+}
+
+export  class RTPLoopbackFacade {
+
+  constructor();
+
+  AddOutgoingSourceGroup(outgoing: RTPOutgoingSourceGroupShared, incoming: RTPIncomingSourceGroupShared): boolean;
+
+  RemoveOutgoingSourceGroup(outgoing: RTPOutgoingSourceGroupShared): boolean;
+
+  GetPLICount(): number;
+
+  GetTimeService(): TimeService;
+}
+
+export  class RTPLoopbackFacadeShared {
+
+  constructor();
+
+  toRTPReceiver(): RTPReceiverShared;
+
+  toRTPSender(): RTPSenderShared;
+
+  get(): RTPLoopbackFacade;
+}
+
 export  class RTPIncomingMediaStreamMultiplexer extends RTPIncomingMediaStream {
 
   Stop(): void;
@@ -812,6 +934,19 @@ export  class RTPIncomingMediaStreamDepacketizerShared {
   get(): RTPIncomingMediaStreamDepacketizer;
 }
 
+export  class PipeReaderFacade {
+
+  constructor(object: any);
+
+  Open(): boolean;
+
+  GetPath(): string;
+
+  Start(): boolean;
+
+  Stop(): void;
+}
+
 export  class SenderSideEstimatorListener extends RemoteRateEstimatorListener {
 
   constructor(object: any);
@@ -929,4 +1064,22 @@ export  class MediaFrameListenerBridgeShared {
   get(): MediaFrameListenerBridge;
 }
 
+export  class MediaFrameInjector {
+
+  SetCodec(codec: string): boolean;
+
+  Stop(): void;
+
+  Push(buffer: any, timestamp: number, clockRate: number, isIntra: boolean): boolean;
+}
+
+export  class MediaFrameInjectorShared {
+
+  constructor(object: any, bridge: MediaFrameListenerBridgeShared, source: RTPIncomingSourceGroupShared);
+
+  toRTPReceiver(): RTPReceiverShared;
+
+  get(): MediaFrameInjector;
+}
+
 
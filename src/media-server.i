@@ -74,12 +74,14 @@ using Persistent = Nan::Persistent<T,NonCopyablePersistentTraits<T>>;
 
 %include "ActiveSpeakerDetectorFacade.i"
 %include "ActiveSpeakerMultiplexerFacade.i"
+%include "AudioLevelListenerFacade.i"
 %include "DTLSICETransport.i"
 %include "EventLoop.i"
 %include "MediaServer.i"
 %include "MediaFrame.i"
 %include "MediaFrameReader.i"
 %include "MP4RecorderFacade.i"
+%include "PipeReaderFacade.i"
 %include "PCAPTransportEmulator.i"
 %include "PlayerFacade.i"
 %include "Properties.i"
@@ -94,13 +96,16 @@ using Persistent = Nan::Persistent<T,NonCopyablePersistentTraits<T>>;
 %include "RTPIncomingMediaStream.i"
 %include "RTPIncomingSourceGroup.i"
 %include "RTPIncomingMediaStreamMultiplexer.i"
+%include "RTPLoopbackFacade.i"
 %include "RTPBundleTransport.i"
 %include "RTPIncomingMediaStreamDepacketizer.i"
 %include "RTPStreamTransponderFacade.i"
 %include "SenderSideEstimatorListener.i"
 %include "SimulcastMediaFrameListener.i"
+%include "TransportDumperFacade.i"
 %include "MediaFrameListenerBridge.i"
 %include "FrameDispatchCoordinator.i"
+%include "MediaFrameInjector.i"
 
 %init %{
 	auto tracingVar = getenv("MEDOOZE_TRACING");
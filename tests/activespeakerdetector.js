@@ -0,0 +1,136 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { SDPInfo } = require("semantic-sdp");
+const { MediaServer } = require("../dist/index.js");
+const { writePCAP, opusPacket } = require("./helpers/pcap.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const speakers = [0x11111111, 0x22222222];
+
+const sdp = [
+	"v=0",
+	"o=- 0 0 IN IP4 127.0.0.1",
+	"s=-",
+	"t=0 0",
+	...speakers.flatMap((ssrc, i) => [
+		"m=audio 9 UDP/TLS/RTP/SAVPF 111",
+		"c=IN IP4 0.0.0.0",
+		`a=mid:${i}`,
+		"a=sendonly",
+		"a=rtpmap:111 opus/48000/2",
+		"a=extmap:1 urn:ietf:params:rtp-hdrext:ssrc-audio-level",
+		`a=ssrc:${ssrc} cname:pcap`,
+		`a=ssrc:${ssrc} msid:stream${i} track${i}`,
+	]),
+	""
+].join("\r\n");
+
+/**
+ * Write a pcap with one opus packet each 20ms per speaker, with voice activity only while speaking(ssrc, time) is true
+ */
+function writeSpeakersPCAP(filename, duration, speaking)
+{
+	writePCAP(filename, duration, (i) => speakers.map(ssrc => {
+		const vad = speaking(ssrc, i * 20);
+		return opusPacket(ssrc, i, vad ? 30 : 127, vad);
+	}));
+}
+
+tap.test("ActiveSpeakerDetector", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "activespeaker-"));
+
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	/**
+	 * Create an emulated transport with a detector attached to all its audio tracks
+	 */
+	function createDetector(filename)
+	{
+		const transport = MediaServer.createEmulatedTransport(filename);
+		const tracks = transport.createIncomingStreams(SDPInfo.process(sdp)).map(stream => stream.getAudioTracks()[0]);
+		const detector = MediaServer.createActiveSpeakerDetector();
+		for (const track of tracks)
+			detector.addSpeaker(track);
+		return { transport, tracks, detector };
+	}
+
+	await suite.test("priority weight", async function(test){
+		const filename = path.join(dir, "silence.pcap");
+		writeSpeakersPCAP(filename, 0, () => false);
+
+		const { transport, tracks, detector } = createDetector(filename);
+
+		detector.setPriority(tracks[1], 2);
+		//Must fit on an unsigned 32 bit integer
+		for (const weight of [-1, 1.5, NaN, 2 ** 32])
+			test.throws(() => detector.setPriority(tracks[0], weight), { message : "Invalid priority weight" });
+
+		//Ranked first once the native order has been notified
+		await new Promise(resolve => setTimeout(resolve, 50));
+		test.same(detector.getSpeakers(), [tracks[1], tracks[0]]);
+
+		detector.stop();
+		transport.stop();
+	});
+
+	await suite.test("silent speakers keep last activity order", async function(test){
+		const filename = path.join(dir, "speech.pcap");
+		//First speaker talks before the second one, then both are silent
+		writeSpeakersPCAP(filename, 800, (ssrc, time) => ssrc === speakers[0] ? time < 200 : time >= 200 && time < 400);
+
+		const { transport, tracks, detector } = createDetector(filename);
+
+		//Play it
+		await new Promise(resolve => {
+			transport.once("ended", resolve);
+			transport.play();
+		});
+		//Wait until all scores have decayed
+		await new Promise(resolve => setTimeout(resolve, 500));
+
+		//Latest one first, not on track order
+		test.same(detector.getSpeakers(), [tracks[1], tracks[0]]);
+
+		detector.stop();
+		transport.stop();
+	});
+
+	await suite.test("speakers order changes are throttled", async function(test){
+		const filename = path.join(dir, "alternate.pcap");
+		//Speakers take turns each 100ms
+		writeSpeakersPCAP(filename, 1200, (ssrc, time) => (ssrc === speakers[0]) === (Math.floor(time / 100) % 2 === 0));
+
+		const { transport, tracks, detector } = createDetector(filename);
+		detector.setMinOrderChangePeriod(300);
+		const events = [];
+		detector.on("speakersorderchanged", (speakers) => events.push({ time : Date.now(), speakers }));
+
+		//Play it
+		await new Promise(resolve => {
+			transport.once("ended", resolve);
+			transport.play();
+		});
+		//Wait until pending changes are emitted
+		await new Promise(resolve => setTimeout(resolve, 500));
+
+		//Order changed on each turn, but not emitted more often than the period
+		test.ok(events.length >= 2);
+		test.ok(events.length <= 5);
+		for (let i = 1; i < events.length; ++i)
+			test.ok(events[i].time - events[i - 1].time >= 295);
+		//Latest one is always emitted
+		test.same(events[events.length - 1].speakers, detector.getSpeakers());
+
+		detector.stop();
+		transport.stop();
+	});
+});
@@ -0,0 +1,113 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { SDPInfo } = require("semantic-sdp");
+const { MediaServer } = require("../dist/index.js");
+const { writePCAP, opusPacket } = require("./helpers/pcap.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const ssrc = 0x11223344;
+
+const sdp = [
+	"v=0",
+	"o=- 0 0 IN IP4 127.0.0.1",
+	"s=-",
+	"t=0 0",
+	"m=audio 9 UDP/TLS/RTP/SAVPF 111",
+	"c=IN IP4 0.0.0.0",
+	"a=mid:0",
+	"a=sendonly",
+	"a=rtpmap:111 opus/48000/2",
+	"a=extmap:1 urn:ietf:params:rtp-hdrext:ssrc-audio-level",
+	`a=ssrc:${ssrc} cname:pcap`,
+	`a=ssrc:${ssrc} msid:stream track`,
+	""
+].join("\r\n");
+
+tap.test("Audio level", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "audiolevel-"));
+
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	await suite.test("events and last level", async function(test){
+		const filename = path.join(dir, "speech.pcap");
+		writePCAP(filename, 1000, (i) => opusPacket(ssrc, i, 30, true));
+
+		const transport = MediaServer.createEmulatedTransport(filename);
+		const [stream] = transport.createIncomingStreams(SDPInfo.process(sdp));
+		const track = stream.getAudioTracks()[0];
+
+		//Nothing received yet
+		test.equal(track.getAudioLevel(), null);
+
+		const events = [];
+		track.setAudioLevelInterval(50);
+		track.on("audiolevel", (level, vad) => events.push({ level, vad }));
+
+		//Play it
+		await new Promise(resolve => {
+			transport.once("ended", resolve);
+			transport.play({ rate : 4 });
+		});
+		//Wait for pending events
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const level = track.getAudioLevel();
+		test.equal(level.dBov, 30);
+		test.ok(level.voiceActivity);
+		test.ok(level.level > 0 && level.level < 1);
+
+		//Throttled, with the loudest level of each interval
+		test.ok(events.length > 0);
+		test.ok(events.length < 50);
+		test.ok(events.every(event => event.vad && event.level === level.level));
+
+		transport.stop();
+	});
+
+	await suite.test("silence", async function(test){
+		const filename = path.join(dir, "silence.pcap");
+		writePCAP(filename, 200, (i) => opusPacket(ssrc, i, 127, false));
+
+		const transport = MediaServer.createEmulatedTransport(filename);
+		const [stream] = transport.createIncomingStreams(SDPInfo.process(sdp));
+		const track = stream.getAudioTracks()[0];
+
+		//Not enabled
+		const events = [];
+		track.on("audiolevel", (level) => events.push(level));
+
+		await new Promise(resolve => {
+			transport.once("ended", resolve);
+			transport.play({ rate : 4 });
+		});
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		test.same(track.getAudioLevel(), { level : 0, dBov : 127, voiceActivity : false });
+		test.same(events, []);
+
+		transport.stop();
+	});
+
+	await suite.test("video tracks", async function(test){
+		const filename = path.join(dir, "empty.pcap");
+		writePCAP(filename, 0, (i) => opusPacket(ssrc, i, 0, false));
+
+		const transport = MediaServer.createEmulatedTransport(filename);
+		const [stream] = transport.createIncomingStreams(SDPInfo.process(sdp.replace("m=audio 9 UDP/TLS/RTP/SAVPF 111", "m=video 9 UDP/TLS/RTP/SAVPF 111")));
+		const track = stream.getVideoTracks()[0];
+
+		test.equal(track.getAudioLevel(), null);
+		test.throws(() => track.setAudioLevelInterval(100), { message : "Audio level is only available on audio tracks" });
+
+		transport.stop();
+	});
+});
@@ -0,0 +1,158 @@
+const tap = require("tap");
+const { EventEmitter } = require("events");
+const { BandwidthAllocator } = require("../dist/BandwidthAllocator.js");
+
+//Simulcast layer bitrates of the fake incoming tracks
+const layers = [150000, 500000, 1500000];
+
+/**
+ * Fake outgoing track with a transponder selecting the highest layer that fits in the target, or the lowest one
+ */
+function track(media, { muted = false, attached = true } = {})
+{
+	const targets = [];
+	const transponder = {
+		getIncomingTrack	: () => attached ? {} : null,
+		isMuted			: () => muted,
+		setTargetBitrate	: (target) => {
+			targets.push(target);
+			let layerIndex = 0;
+			for (let i = 0; i < layers.length; ++i)
+				if (layers[i] <= target)
+					layerIndex = i;
+			return Object.assign(new Number(layers[layerIndex]), {
+				layers		: [],
+				layerIndex	: layerIndex,
+				encodingId	: String(layerIndex),
+				spatialLayerId	: 0,
+				temporalLayerId	: 0,
+			});
+		},
+	};
+	return {
+		targets,
+		getMedia	: () => media,
+		getTransponder	: () => transponder,
+	};
+}
+
+/**
+ * Fake transport with a fixed available bitrate
+ */
+function transport(tracks, available)
+{
+	const emitter = new EventEmitter();
+	emitter.available = available;
+	emitter.getAvailableOutgoingBitrate = () => emitter.available;
+	emitter.getOutgoingStreams = () => [{ getTracks : () => tracks }];
+	return emitter;
+}
+
+tap.test("BandwidthAllocator", async function(suite){
+
+	await suite.test("audio reserve and skipped tracks", async function(test){
+		const video = track("video");
+		const tracks = [track("audio"), track("audio"), video, track("video", { muted : true }), track("video", { attached : false })];
+		const allocator = new BandwidthAllocator(transport(tracks, 728000));
+
+		const events = [];
+		allocator.on("allocation", (allocations, available, audio) => events.push([allocations.length, available, audio]));
+		const allocations = allocator.allocate();
+
+		//Only the attached and not muted video track is allocated, with the bitrate left by the audio ones
+		test.same(events, [[1, 728000, 128000]]);
+		test.equal(allocations[0].track, video);
+		test.same([allocations[0].target, allocations[0].bitrate, allocations[0].layerIndex, allocations[0].encodingId], [600000, 500000, 1, "1"]);
+		//Layer is selected with some headroom
+		test.same(video.targets, [600000 / 1.15]);
+
+		allocator.stop();
+	});
+
+	await suite.test("priority groups", async function(test){
+		const low = track("video");
+		const high = track("video");
+		const allocator = new BandwidthAllocator(transport([low, high], 1000000), { audioReserve : 0, hysteresis : 0 });
+		allocator.setPriority(high, 1);
+
+		//Higher priority is served first, the rest goes to the next group
+		const allocations = allocator.allocate();
+		test.same(allocations.map(allocation => [allocation.track === high, allocation.priority, allocation.target, allocation.bitrate]), [
+			[true,  1, 1000000, 500000],
+			[false, 0, 500000,  500000],
+		]);
+
+		//Not enough for both, lower priority gets the lowest layer
+		const constrained = transport([low, high], 600000);
+		const other = new BandwidthAllocator(constrained, { audioReserve : 0, hysteresis : 0 });
+		other.setPriority(high, 1);
+		test.same(other.allocate().map(allocation => allocation.bitrate), [500000, 150000]);
+
+		allocator.stop();
+		other.stop();
+	});
+
+	await suite.test("weights", async function(test){
+		const first = track("video");
+		const second = track("video");
+		const third = track("video");
+		const allocator = new BandwidthAllocator(transport([first, second, third], 2000000), { audioReserve : 0, hysteresis : 0 });
+		allocator.setPriority(first, 0, 3);
+		allocator.setPriority(third, 0, 1);
+		test.same(allocator.getPriority(first), { priority : 0, weight : 3 });
+		test.same(allocator.getPriority(second), { priority : 0, weight : 1 });
+
+		//Each one gets its share of what the previous ones left
+		const allocations = allocator.allocate();
+		test.same(allocations.map(allocation => [allocation.weight, allocation.target, allocation.bitrate]), [
+			[3, 1200000, 500000],
+			[1, 750000,  500000],
+			[1, 1000000, 500000],
+		]);
+
+		test.throws(() => allocator.setPriority(first, 0, 0), { message : "Weight must be positive" });
+		allocator.stop();
+	});
+
+	await suite.test("hysteresis", async function(test){
+		const video = track("video");
+		const fake = transport([video], 540000);
+		const allocator = new BandwidthAllocator(fake, { audioReserve : 0, hysteresis : 0.15 });
+
+		//Not enough headroom to go up from lowest layer
+		test.equal(allocator.allocate()[0].bitrate, 150000);
+		//Enough headroom
+		fake.available = 580000;
+		test.equal(allocator.allocate()[0].bitrate, 500000);
+		//Current layer is kept while it fits, even without headroom
+		fake.available = 520000;
+		test.equal(allocator.allocate()[0].bitrate, 500000);
+		test.same(video.targets, [540000 / 1.15, 580000 / 1.15, 500000]);
+		//Go down when it doesn't fit
+		fake.available = 480000;
+		test.equal(allocator.allocate()[0].bitrate, 150000);
+
+		allocator.stop();
+	});
+
+	await suite.test("transport events", async function(test){
+		const video = track("video");
+		const fake = transport([video], 1000000);
+		const allocator = new BandwidthAllocator(fake, { audioReserve : 0 });
+		let allocations = 0;
+		let stopped = 0;
+		allocator.on("allocation", () => allocations++);
+		allocator.on("stopped", () => stopped++);
+
+		//Allocated on each estimation
+		fake.emit("targetbitrate", 1000000);
+		fake.emit("targetbitrate", 1000000);
+		test.equal(allocations, 2);
+
+		//Stopped with the transport
+		fake.emit("stopped");
+		test.equal(stopped, 1);
+		test.equal(fake.listenerCount("targetbitrate"), 0);
+		test.same(allocator.allocate(), []);
+	});
+});
@@ -0,0 +1,187 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { FragmentedMP4Writer } = require("../dist/FragmentedMP4Writer.js");
+
+/**
+ * Parse the boxes contained on a buffer
+ */
+function parseBoxes(buffer, start = 0, end = buffer.length)
+{
+	const boxes = [];
+	let offset = start;
+	while (offset + 8 <= end)
+	{
+		const size = buffer.readUInt32BE(offset);
+		const type = buffer.toString("ascii", offset + 4, offset + 8);
+		boxes.push({ type, offset, size, data : buffer.subarray(offset + 8, offset + size) });
+		offset += size;
+	}
+	return boxes;
+}
+
+/**
+ * Get child boxes of a container box
+ */
+function children(box)
+{
+	return parseBoxes(box.data);
+}
+
+function video(timestamp, isIntra = false)
+{
+	return {
+		buffer		: Buffer.alloc(100, timestamp & 0xff),
+		type		: "Video",
+		codec		: "VP8",
+		timestamp	: timestamp,
+		clockRate	: 90000,
+		time		: 1000 + timestamp / 90,
+		isIntra		: isIntra,
+		width		: 640,
+		height		: 480,
+	};
+}
+
+function audio(timestamp)
+{
+	return {
+		buffer		: Buffer.alloc(20, 1),
+		type		: "Audio",
+		codec		: "opus",
+		timestamp	: timestamp,
+		clockRate	: 48000,
+		time		: 1000 + timestamp / 48,
+		isIntra		: false,
+		width		: 0,
+		height		: 0,
+	};
+}
+
+tap.test("FragmentedMP4Writer", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fmp4-"));
+	suite.teardown(() => fs.rmSync(dir, { recursive : true, force : true }));
+
+	await suite.test("box layout", async function(test){
+		const filename = path.join(dir, "layout.mp4");
+		const writer = new FragmentedMP4Writer(filename, { fragmentDuration : 60000 });
+		const fragments = [];
+		writer.on("fragment", (info) => fragments.push(info));
+
+		//Video must start on intra
+		test.notOk(writer.addFrame(1, video(0)));
+		for (let i = 0; i < 10; ++i)
+			test.ok(writer.addFrame(1, video(3000 * (i + 1), i === 0)));
+		for (let i = 0; i < 10; ++i)
+			test.ok(writer.addFrame(2, audio(960 * i)));
+		//Unsupported codecs are rejected
+		test.notOk(writer.addFrame(3, { ...audio(0), codec : "pcmu" }));
+
+		await writer.close();
+
+		const file = fs.readFileSync(filename);
+		const boxes = parseBoxes(file);
+		test.same(boxes.map(box => box.type), ["ftyp", "moov", "moof", "mdat"]);
+		test.equal(boxes.reduce((size, box) => size + box.size, 0), file.length);
+
+		//Init segment and fragment events
+		test.same(fragments.map(info => [info.init, info.sequenceNumber, info.offset]), [
+			[true, 0, 0],
+			[false, 1, boxes[2].offset],
+		]);
+		test.equal(fragments[0].size, boxes[0].size + boxes[1].size);
+
+		//One trak and trex per track
+		const moov = children(boxes[1]);
+		test.same(moov.filter(box => box.type === "trak").length, 2);
+		const mvex = children(moov.find(box => box.type === "mvex"));
+		test.same(mvex.map(box => box.type), ["trex", "trex"]);
+
+		//Fragment
+		const moof = children(boxes[2]);
+		test.same(moof.map(box => box.type), ["mfhd", "traf", "traf"]);
+		//Sequence number
+		test.equal(moof[0].data.readUInt32BE(4), 1);
+
+		//Data offsets point inside the mdat, relative to the moof start
+		const mdat = boxes[3];
+		let expected = mdat.offset + 8 - boxes[2].offset;
+		for (const traf of moof.slice(1))
+		{
+			const trun = children(traf).find(box => box.type === "trun");
+			const count = trun.data.readUInt32BE(4);
+			const offset = trun.data.readUInt32BE(8);
+			test.equal(offset, expected);
+			//Sum sample sizes
+			for (let i = 0; i < count; ++i)
+				expected += trun.data.readUInt32BE(12 + i * 12 + 4);
+		}
+		test.equal(expected, mdat.offset + mdat.size - boxes[2].offset);
+	});
+
+	await suite.test("moov waits for all tracks", async function(test){
+		const filename = path.join(dir, "wait.mp4");
+		const writer = new FragmentedMP4Writer(filename, { fragmentDuration : 10, moovTimeout : 60000 });
+		//Both tracks are expected
+		writer.setTrackConfig(1, {});
+		writer.setTrackConfig(2, {});
+
+		writer.addFrame(1, video(3000, true));
+		writer.addFrame(1, video(6000));
+		await new Promise(resolve => setTimeout(resolve, 50));
+		//Nothing written until audio arrives
+		test.equal(writer.sequenceNumber, 0);
+
+		writer.addFrame(2, audio(0));
+		writer.addFrame(2, audio(960));
+		await new Promise(resolve => setTimeout(resolve, 50));
+		test.ok(writer.sequenceNumber > 0);
+
+		await writer.close();
+
+		const moov = children(parseBoxes(fs.readFileSync(filename))[1]);
+		test.same(moov.filter(box => box.type === "trak").length, 2);
+	});
+
+	await suite.test("moov timeout", async function(test){
+		const filename = path.join(dir, "timeout.mp4");
+		const writer = new FragmentedMP4Writer(filename, { fragmentDuration : 10, moovTimeout : 20 });
+		writer.setTrackConfig(1, {});
+		writer.setTrackConfig(2, {});
+
+		const missing = [];
+		writer.on("missingtracks", (trackIds) => missing.push(trackIds));
+
+		writer.addFrame(1, video(3000, true));
+		writer.addFrame(1, video(6000));
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		//Written without the audio track, and it has been reported
+		test.ok(writer.sequenceNumber > 0);
+		test.same(missing, [[2]]);
+
+		//Late tracks are not recorded
+		test.notOk(writer.addFrame(2, audio(0)));
+
+		await writer.close();
+
+		const moov = children(parseBoxes(fs.readFileSync(filename))[1]);
+		test.same(moov.filter(box => box.type === "trak").length, 1);
+	});
+
+	await suite.test("write errors", async function(test){
+		const writer = new FragmentedMP4Writer(path.join(dir, "missing", "error.mp4"));
+		const errors = [];
+		writer.on("error", (error) => errors.push(error));
+
+		//Wait for open to fail
+		await new Promise(resolve => setTimeout(resolve, 50));
+		test.equal(errors.length, 1);
+		test.equal(errors[0].code, "ENOENT");
+		test.notOk(writer.addFrame(1, video(0, true)));
+
+		await test.rejects(writer.close(), { code : "ENOENT" });
+	});
+});
@@ -0,0 +1,152 @@
+const tap = require("tap");
+const { MediaServer, IncomingStreamTrackReader } = require("../dist/index.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+/**
+ * Concatenate nal units in annex B format
+ */
+function annexB(...nals)
+{
+	return Buffer.concat(nals.map(nal => Buffer.concat([Buffer.from([0, 0, 0, 1]), Buffer.from(nal)])));
+}
+
+//320x240 vp8 key frame and inter frame
+const vp8Intra = Buffer.concat([Buffer.from([0x10, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0x40, 0x01, 0xf0, 0x00]), Buffer.alloc(2000, 0x55)]);
+const vp8Inter = Buffer.concat([Buffer.from([0x11, 0x00, 0x00]), Buffer.alloc(500, 0x55)]);
+
+//320x240 vp9 profile 0 key frame and inter frame uncompressed headers
+const vp9Intra = Buffer.concat([Buffer.from([0x82, 0x49, 0x83, 0x42, 0x00, 0x13, 0xf0, 0x0e, 0xf0]), Buffer.alloc(2000, 0)]);
+const vp9Inter = Buffer.concat([Buffer.from([0x86]), Buffer.alloc(500, 0)]);
+
+//H264 baseline access units
+const h264Intra = annexB(
+	[0x67, 0x42, 0xc0, 0x1e, 0xda, 0x02, 0x80, 0xf6, 0x84, 0x00, 0x00, 0x03, 0x00, 0x04, 0x00, 0x00, 0x03, 0x00, 0xca, 0x3c, 0x58, 0xba, 0x80],
+	[0x68, 0xce, 0x3c, 0x80],
+	[0x65, ...Buffer.alloc(3000, 0x55)]
+);
+const h264Inter = annexB([0x41, ...Buffer.alloc(500, 0x55)]);
+
+//H265 main profile access units
+const h265Intra = annexB(
+	[0x40, 0x01, 0x0c, 0x01, 0xff, 0xff, 0x01, 0x60, 0x00, 0x00, 0x03, 0x00, 0x90, 0x00, 0x00, 0x03, 0x00, 0x00, 0x03, 0x00, 0x5d, 0x95, 0x98, 0x09],
+	[0x42, 0x01, 0x01, 0x01, 0x60, 0x00, 0x00, 0x03, 0x00, 0x90, 0x00, 0x00, 0x03, 0x00, 0x00, 0x03, 0x00, 0x5d, 0xa0, 0x0a, 0x08, 0x0f, 0x16, 0x59, 0x59, 0xa4, 0x93, 0x2b, 0xc0, 0x5a, 0x02, 0x00, 0x00, 0x03, 0x00, 0x02, 0x00, 0x00, 0x03, 0x00, 0x3c, 0x10],
+	[0x44, 0x01, 0xc1, 0x72, 0xb4, 0x62, 0x40],
+	[0x26, 0x01, ...Buffer.alloc(3000, 0x55)]
+);
+const h265Inter = annexB([0x02, 0x01, ...Buffer.alloc(500, 0x55)]);
+
+//AV1 temporal units, key frame starts with a sequence header
+const av1Intra = Buffer.from([
+	0x12, 0x00,
+	0x0a, 0x0b, 0x00, 0x00, 0x00, 0x24, 0xc4, 0xff, 0xdf, 0x00, 0x68, 0x02, 0x10,
+	0x32, 0x05, 0x10, 0x00, 0x00, 0x00, 0x00,
+]);
+const av1Inter = Buffer.from([
+	0x12, 0x00,
+	0x32, 0x05, 0x30, 0x00, 0x00, 0x00, 0x00,
+]);
+
+//Opus silence
+const opus = Buffer.from([0xf8, 0xff, 0xfe]);
+
+/**
+ * Push frames on a new injection track and get the ones delivered to a reader attached to it
+ */
+async function inject(media, codec, frames)
+{
+	const track = MediaServer.createFrameInjectionTrack(media, codec);
+	const reader = new IncomingStreamTrackReader(false, 0, false);
+	const received = [];
+	const done = new Promise(resolve => reader.on("frame", (frame) => {
+		received.push(frame);
+		if (received.length === frames.length)
+			resolve();
+	}));
+	reader.attachTo(track);
+
+	for (const [buffer, timestamp] of frames)
+		if (!track.pushFrame(buffer, { timestamp }))
+			throw new Error("Frame not delivered");
+
+	//Wait for them, or time out
+	await Promise.race([done, new Promise(resolve => setTimeout(resolve, 2000))]);
+
+	reader.stop();
+	track.stop();
+	return received;
+}
+
+tap.test("IncomingStreamTrackFrameInjector", async function(suite){
+
+	suite.teardown(() => MediaServer.terminate());
+
+	await suite.test("vp8", async function(test){
+		const frames = await inject("video", "vp8", [[vp8Intra, 0], [vp8Inter, 3000], [vp8Inter, 6000]]);
+		test.same(frames.map(frame => [frame.codec, frame.timestamp, frame.isIntra]), [["VP8", 0, true], ["VP8", 3000, false], ["VP8", 6000, false]]);
+		//Split in several rtp packets and reassembled
+		test.equal(frames[0].buffer.length, vp8Intra.length);
+		test.same([frames[0].width, frames[0].height], [320, 240]);
+	});
+
+	await suite.test("vp9", async function(test){
+		const frames = await inject("video", "vp9", [[vp9Intra, 0], [vp9Inter, 3000]]);
+		test.same(frames.map(frame => [frame.codec, frame.timestamp, frame.isIntra]), [["VP9", 0, true], ["VP9", 3000, false]]);
+		test.equal(frames[0].buffer.length, vp9Intra.length);
+	});
+
+	await suite.test("h264", async function(test){
+		const frames = await inject("video", "h264", [[h264Intra, 0], [h264Inter, 3000]]);
+		test.same(frames.map(frame => [frame.codec, frame.timestamp, frame.isIntra]), [["H264", 0, true], ["H264", 3000, false]]);
+	});
+
+	await suite.test("h265", async function(test){
+		const frames = await inject("video", "h265", [[h265Intra, 0], [h265Inter, 3000]]);
+		test.same(frames.map(frame => [frame.codec, frame.timestamp, frame.isIntra]), [["H265", 0, true], ["H265", 3000, false]]);
+	});
+
+	await suite.test("av1", async function(test){
+		const frames = await inject("video", "av1", [[av1Intra, 0], [av1Inter, 3000]]);
+		test.same(frames.map(frame => [frame.codec, frame.timestamp, frame.isIntra]), [["AV1", 0, true], ["AV1", 3000, false]]);
+	});
+
+	await suite.test("opus", async function(test){
+		const frames = await inject("audio", "opus", [[opus, 0], [opus, 960], [opus, 1920]]);
+		test.same(frames.map(frame => [frame.codec, frame.timestamp, frame.clockRate]), [["OPUS", 0, 48000], ["OPUS", 960, 48000], ["OPUS", 1920, 48000]]);
+		test.same(Buffer.from(frames[0].buffer), opus);
+	});
+
+	await suite.test("unsupported codecs", async function(test){
+		test.throws(() => MediaServer.createFrameInjectionTrack("video", "h263"), { message : "Unsupported codec for frame injection: h263" });
+
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		test.throws(() => track.pushFrame(vp8Intra, { timestamp : 0, codec : "h263" }), { message : "Unsupported codec for frame injection: h263" });
+		//Previous codec is kept
+		test.equal(track.codec, "vp8");
+		track.stop();
+		test.throws(() => track.pushFrame(vp8Intra, { timestamp : 0 }), { message : "Cannot push frame, track is stopped" });
+	});
+
+	await suite.test("refresh", async function(test){
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		const refreshed = new Promise(resolve => track.once("refresh", resolve));
+		//Ask for an intra as a consumer would do
+		track.refresh();
+		test.equal(await refreshed, track);
+		track.stop();
+	});
+
+	await suite.test("stop while attached", async function(test){
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		const reader = new IncomingStreamTrackReader(false, 0, false);
+		reader.attachTo(track);
+		test.equal(reader.attached, track);
+
+		//Consumers are detached before its event loop is stopped
+		track.stop();
+		test.equal(reader.attached, null);
+		reader.stop();
+	});
+});
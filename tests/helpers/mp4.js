@@ -0,0 +1,55 @@
+const { MediaServer } = require("../../dist/index.js");
+
+//320x240 key frame and inter frame of each codec
+const videoFrames = {
+	vp8 : [
+		Buffer.concat([Buffer.from([0x10, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0x40, 0x01, 0xf0, 0x00]), Buffer.alloc(2000, 0x55)]),
+		Buffer.concat([Buffer.from([0x11, 0x00, 0x00]), Buffer.alloc(500, 0x55)]),
+	],
+	//Profile 0 uncompressed headers
+	vp9 : [
+		Buffer.concat([Buffer.from([0x82, 0x49, 0x83, 0x42, 0x00, 0x13, 0xf0, 0x0e, 0xf0]), Buffer.alloc(2000, 0)]),
+		Buffer.concat([Buffer.from([0x86]), Buffer.alloc(500, 0)]),
+	],
+};
+
+//Opus silence
+const opus = Buffer.from([0xf8, 0xff, 0xfe]);
+
+/**
+ * Record a mp4 file with 2 seconds of 15fps vp8 video with a key frame every 10 frames by default, and optionally opus audio
+ */
+async function record(filename, { codec = "vp8", frames = 30, fps = 15, keyFrameInterval = 10, videoTracks = 1, audio = false } = {})
+{
+	const [intra, inter] = videoFrames[codec];
+	const recorder = MediaServer.createRecorder(filename);
+	const video = Array.from({ length : videoTracks }, (_, i) => MediaServer.createFrameInjectionTrack("video", codec, "video" + i));
+	const tracks = audio ? [...video, MediaServer.createFrameInjectionTrack("audio", "opus")] : video;
+	for (const track of tracks)
+		recorder.record(track);
+
+	await new Promise(resolve => {
+		let i = 0;
+		const timer = setInterval(() => {
+			for (const track of video)
+				track.pushFrame(i % keyFrameInterval ? inter : intra, { timestamp : Math.round(i * 90000 / fps) });
+			if (audio)
+			{
+				tracks[tracks.length - 1].pushFrame(opus, { timestamp : i * 1920 });
+				tracks[tracks.length - 1].pushFrame(opus, { timestamp : i * 1920 + 960 });
+			}
+			if (++i === frames)
+			{
+				clearInterval(timer);
+				resolve();
+			}
+		}, Math.floor(1000 / fps));
+	});
+
+	await recorder.stop();
+	for (const track of tracks)
+		track.stop();
+	return filename;
+}
+
+module.exports = { record };
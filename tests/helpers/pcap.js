@@ -0,0 +1,65 @@
+const fs = require("fs");
+
+/**
+ * Write a pcap captured on ethernet/ipv4/udp with the rtp packets returned by packets(i) each 20ms
+ */
+function writePCAP(filename, duration, packets)
+{
+	const buffers = [];
+	//Global header
+	const header = Buffer.alloc(24);
+	header.writeUInt32BE(0xa1b2c3d4, 0);
+	header.writeUInt16BE(2, 4);
+	header.writeUInt16BE(4, 6);
+	header.writeUInt32BE(65535, 16);
+	header.writeUInt32BE(1, 20);
+	buffers.push(header);
+
+	//Capture start time
+	const start = 1700000000;
+	for (let i = 0; i * 20 < duration; ++i)
+	{
+		for (const rtp of [].concat(packets(i)))
+		{
+			//Ethernet, ipv4 and udp headers
+			const packet = Buffer.alloc(14 + 20 + 8 + rtp.length);
+			packet.writeUInt16BE(0x0800, 12);
+			packet.writeUInt8(0x45, 14);
+			packet.writeUInt16BE(20 + 8 + rtp.length, 16);
+			packet.writeUInt8(17, 23);
+			packet.writeUInt32BE(0x7f000001, 26);
+			packet.writeUInt32BE(0x7f000001, 30);
+			packet.writeUInt16BE(5000, 34);
+			packet.writeUInt16BE(6000, 36);
+			packet.writeUInt16BE(8 + rtp.length, 38);
+			rtp.copy(packet, 42);
+			//Record header, time in us
+			const record = Buffer.alloc(16);
+			record.writeUInt32BE(start + Math.floor(i * 20 / 1000), 0);
+			record.writeUInt32BE((i * 20 % 1000) * 1000, 4);
+			record.writeUInt32BE(packet.length, 8);
+			record.writeUInt32BE(packet.length, 12);
+			buffers.push(record, packet);
+		}
+	}
+	fs.writeFileSync(filename, Buffer.concat(buffers));
+}
+
+/**
+ * Create the i-th 20ms opus rtp packet with payload type 111 and the audio level extension with id 1
+ */
+function opusPacket(ssrc, i, level, vad)
+{
+	//RTP with one byte header extension and opus silence
+	const rtp = Buffer.alloc(12 + 8 + 3);
+	rtp.writeUInt8(0x90, 0);
+	rtp.writeUInt8(111, 1);
+	rtp.writeUInt16BE(i, 2);
+	rtp.writeUInt32BE(i * 960, 4);
+	rtp.writeUInt32BE(ssrc, 8);
+	rtp.set([0xbe, 0xde, 0x00, 0x01, 0x10, (vad ? 0x80 : 0) | level, 0x00, 0x00], 12);
+	rtp.set([0xf8, 0xff, 0xfe], 20);
+	return rtp;
+}
+
+module.exports = { writePCAP, opusPacket };
@@ -0,0 +1,196 @@
+const tap = require("tap");
+const http = require("http");
+const { MediaServer, WhipServer, WhepServer } = require("../dist/index.js");
+const {
+	parseCandidate,
+	parseTrickleICEFragment,
+	createTrickleICEFragment,
+} = require("../dist/HttpSignaling.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const capabilities = {
+	audio : {
+		codecs		: ["opus"],
+	},
+	video : {
+		codecs		: ["vp8"],
+	}
+};
+
+/**
+ * Attach a signaling server to a new http server listening on localhost
+ */
+async function listen(signaling)
+{
+	const server = http.createServer();
+	signaling.attachTo(server);
+	await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+	return server;
+}
+
+tap.test("HttpSignaling", async function(suite){
+
+	const endpoint = MediaServer.createEndpoint("127.0.0.1");
+
+	suite.teardown(() => {
+		endpoint.stop();
+		MediaServer.terminate();
+	});
+
+	await suite.test("parseCandidate", async function(test){
+		const candidate = parseCandidate("a=candidate:1 1 UDP 2130706431 192.168.1.1 5000 typ srflx raddr 10.0.0.1 rport 6000");
+		test.same(candidate.getFoundation(), "1");
+		test.same(candidate.getComponentId(), 1);
+		test.same(candidate.getPriority(), 2130706431);
+		test.same(candidate.getAddress(), "192.168.1.1");
+		test.same(candidate.getPort(), 5000);
+		test.same(candidate.getType(), "srflx");
+		test.same(candidate.getRelAddr(), "10.0.0.1");
+		test.same(candidate.getRelPort(), 6000);
+
+		//Prefix is optional
+		test.same(parseCandidate("1 1 UDP 1 127.0.0.1 5000 typ host").getType(), "host");
+
+		//Missing type
+		test.throws(() => parseCandidate("candidate:1 1 UDP 1 127.0.0.1 5000 host"), { status : 400 });
+	});
+
+	await suite.test("parseTrickleICEFragment", async function(test){
+		const trickle = parseTrickleICEFragment([
+			"a=ice-options:trickle",
+			"m=audio 9 RTP/AVP 0",
+			"a=mid:0",
+			"a=candidate:1 1 UDP 2130706431 127.0.0.1 5000 typ host",
+			"a=candidate:2 1 UDP 2130706430 127.0.0.1 5001 typ host",
+		].join("\r\n"));
+		test.notOk(trickle.ice);
+		test.same(trickle.candidates.map(candidate => candidate.getPort()), [5000, 5001]);
+
+		const restart = parseTrickleICEFragment("a=ice-ufrag:abcd\na=ice-pwd:0123456789012345678901\n");
+		test.same(restart.ice.getUfrag(), "abcd");
+		test.same(restart.ice.getPwd(), "0123456789012345678901");
+		test.same(restart.candidates.length, 0);
+	});
+
+	await suite.test("createTrickleICEFragment", async function(test){
+		const ice = parseTrickleICEFragment("a=ice-ufrag:abcd\na=ice-pwd:0123456789012345678901\n").ice;
+		const candidates = [parseCandidate("1 1 UDP 1 127.0.0.1 5000 typ host")];
+		const fragment = createTrickleICEFragment(ice, candidates, ["0", "1"]);
+
+		//Must be parseable back
+		const parsed = parseTrickleICEFragment(fragment);
+		test.same(parsed.ice.getUfrag(), "abcd");
+		//One candidate per media
+		test.same(parsed.candidates.length, 2);
+		test.same(fragment.match(/^a=mid:/gm).length, 2);
+	});
+
+	await suite.test("WhipServer", async function(test){
+		const whip = new WhipServer(endpoint, capabilities);
+		const server = await listen(whip);
+		const base = `http://127.0.0.1:${server.address().port}`;
+
+		test.teardown(async () => {
+			whip.stop();
+			await new Promise(resolve => server.close(resolve));
+		});
+
+		//Bad offers don't leak transports
+		const bad = await fetch(base + "/whip", {
+			method	: "POST",
+			headers	: { "Content-Type" : "application/sdp" },
+			body	: "v=0\r\n",
+		});
+		test.same(bad.status, 400);
+		test.same(whip.resources.size, 0);
+
+		//Valid offer
+		const client = endpoint.createSDPManager("unified-plan", capabilities);
+		const created = await fetch(base + "/whip", {
+			method	: "POST",
+			headers	: { "Content-Type" : "application/sdp" },
+			body	: client.createLocalDescription(),
+		});
+		test.same(created.status, 201);
+		const location = created.headers.get("Location");
+		const etag = created.headers.get("ETag");
+		test.ok(location);
+		test.ok(etag);
+
+		const trickle = (ifMatch) => fetch(base + location, {
+			method	: "PATCH",
+			headers	: { "Content-Type" : "application/trickle-ice-sdpfrag", "If-Match" : ifMatch },
+			body	: "a=candidate:1 1 UDP 1 127.0.0.1 5000 typ host\r\n",
+		});
+		//Current ICE session
+		test.same((await trickle(etag)).status, 204);
+		//Stale ICE session
+		test.same((await trickle("\"stale\"")).status, 412);
+
+		//Delete it
+		const deleted = await fetch(base + location, { method : "DELETE" });
+		test.same(deleted.status, 200);
+		test.same(whip.resources.size, 0);
+
+		client.stop();
+	});
+
+	await suite.test("WhepServer", async function(test){
+		const streams = new Map();
+		const whep = new WhepServer(endpoint, capabilities, (streamId) => streams.get(streamId));
+		const server = await listen(whep);
+		const base = `http://127.0.0.1:${server.address().port}`;
+
+		test.teardown(async () => {
+			whep.stop();
+			await new Promise(resolve => server.close(resolve));
+		});
+
+		const view = (path, sdp) => fetch(base + path, {
+			method	: "POST",
+			headers	: { "Content-Type" : "application/sdp" },
+			body	: sdp,
+		});
+
+		const client = endpoint.createSDPManager("unified-plan", capabilities);
+		const offer = client.createLocalDescription();
+
+		//Unknown stream
+		test.same((await view("/whep/unknown", offer)).status, 404);
+
+		//Play a stream published on another transport
+		const publisher = endpoint.createSDPManager("unified-plan", capabilities);
+		let transport;
+		publisher.on("transport", (created) => transport = created);
+		publisher.processRemoteDescription(offer);
+		publisher.createLocalDescription();
+		streams.set("live", transport.createIncomingStream({ id : "live", tracks : [] }));
+
+		//Bad offers don't leak transports
+		test.same((await view("/whep/live", "v=0\r\n")).status, 400);
+		test.same(whep.resources.size, 0);
+
+		//Valid offer
+		const created = await view("/whep/live", offer);
+		test.same(created.status, 201);
+		test.same(whep.resources.size, 1);
+
+		//Stale ICE session
+		const patched = await fetch(base + created.headers.get("Location"), {
+			method	: "PATCH",
+			headers	: { "Content-Type" : "application/trickle-ice-sdpfrag", "If-Match" : "\"stale\"" },
+			body	: "a=candidate:1 1 UDP 1 127.0.0.1 5000 typ host\r\n",
+		});
+		test.same(patched.status, 412);
+
+		//Viewers are stopped when the played stream ends
+		streams.get("live").stop();
+		test.same(whep.resources.size, 0);
+
+		client.stop();
+		publisher.stop();
+	});
+});
@@ -0,0 +1,93 @@
+const tap = require("tap");
+const { MediaServer, MetricsCollector } = require("../dist/index.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const capabilities = {
+	audio : {
+		codecs		: ["opus"],
+	},
+	video : {
+		codecs		: ["vp8"],
+	}
+};
+
+tap.test("MetricsCollector", async function(suite){
+
+	const endpoint = MediaServer.createEndpoint("127.0.0.1");
+
+	suite.teardown(() => {
+		endpoint.stop();
+		MediaServer.terminate();
+	});
+
+	await suite.test("empty", async function(test){
+		const collector = new MetricsCollector(() => [], { prefix : "test" });
+		const metrics = collector.collect();
+		test.same(metrics, [
+			"# TYPE test_endpoints gauge",
+			"# HELP test_endpoints Number of endpoints",
+			"test_endpoints 0",
+			"# EOF",
+			""
+		].join("\n"));
+		//Cached until next collection
+		test.equal(collector.getMetrics(), metrics);
+		collector.stop();
+	});
+
+	await suite.test("transport and tracks", async function(test){
+		const local = endpoint.createSDPManager("unified-plan", capabilities);
+		const remote = endpoint.createSDPManager("unified-plan", capabilities);
+		let transport;
+		local.on("transport", (created) => transport = created);
+		local.processRemoteDescription(remote.createLocalDescription());
+		remote.processRemoteDescription(local.createLocalDescription());
+
+		//Stream ids are escaped on labels
+		const outgoing = transport.createOutgoingStream({ id : "out\"1", video : true });
+
+		const collector = new MetricsCollector(() => [endpoint]);
+		let collected = null;
+		collector.on("collected", (metrics) => collected = metrics);
+		const metrics = collector.collect();
+		test.equal(collected, metrics);
+
+		const lines = metrics.split("\n");
+		//Terminated by EOF
+		test.same(lines.slice(-2), ["# EOF", ""]);
+		test.match(metrics, /^medooze_endpoints 1$/m);
+
+		//Each family is declared once, with its HELP after the TYPE
+		const declared = [];
+		lines.forEach((line, i) => {
+			if (!line.startsWith("# TYPE "))
+				return;
+			const name = line.split(" ")[2];
+			declared.push(name);
+			test.ok(lines[i + 1].startsWith(`# HELP ${name} `), name);
+		});
+		test.same(new Set(declared).size, declared.length);
+
+		//Counters have the _total suffix on samples only
+		test.match(metrics, /^# TYPE medooze_outgoing_packets counter$/m);
+		test.match(metrics, /^medooze_outgoing_packets_total\{/m);
+		test.notMatch(metrics, /^medooze_outgoing_packets\{/m);
+
+		//Labels
+		const transportId = transport.getICEUsername();
+		test.match(metrics, `medooze_outgoing_bitrate_bps{transport="${transportId}",stream="out\\"1",track="${outgoing.getVideoTracks()[0].getId()}",media="video"}`);
+
+		//Transport id is kept on ICE restarts
+		transport.restartICE({ ufrag : "abcd", pwd : "0123456789012345678901" }, { ufrag : "efgh", pwd : "0123456789012345678901" });
+		test.not(transport.getICEUsername(), transportId);
+		test.match(collector.collect(), `transport="${transportId}"`);
+
+		outgoing.stop();
+		collector.stop();
+		local.stop();
+		remote.stop();
+	});
+});
@@ -0,0 +1,98 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { MediaServer } = require("../dist/index.js");
+const { PCAPFixture } = require("../dist/test-support.js");
+const { writePCAP } = require("./helpers/pcap.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const ssrc = 0x11223344;
+
+const sdp = [
+	"v=0",
+	"o=- 0 0 IN IP4 127.0.0.1",
+	"s=-",
+	"t=0 0",
+	"m=video 9 UDP/TLS/RTP/SAVPF 96",
+	"c=IN IP4 0.0.0.0",
+	"a=mid:0",
+	"a=sendonly",
+	"a=rtpmap:96 VP8/90000",
+	`a=ssrc:${ssrc} cname:pcap`,
+	`a=ssrc:${ssrc} msid:stream track`,
+	""
+].join("\r\n");
+
+/**
+ * Create the i-th rtp packet of a 50fps stream of vp8 intra frames
+ */
+function vp8Packet(i)
+{
+	//RTP with a 320x240 vp8 intra frame header
+	const rtp = Buffer.alloc(12 + 11);
+	rtp.writeUInt8(0x80, 0);
+	rtp.writeUInt8(0x80 | 96, 1);
+	rtp.writeUInt16BE(i, 2);
+	rtp.writeUInt32BE(i * 1800, 4);
+	rtp.writeUInt32BE(ssrc, 8);
+	rtp.set([0x10, 0x10, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0x40, 0x01, 0xf0, 0x00], 12);
+	return rtp;
+}
+
+tap.test("PCAPFixture", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pcap-"));
+	const filename = path.join(dir, "opus.pcap");
+	writePCAP(filename, 3000, vp8Packet);
+
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	await suite.test("routes", async function(test){
+		const fixture = new PCAPFixture(filename, sdp);
+		test.same(fixture.getRoutes().length, 1);
+		test.ok(fixture.getRoute("track", "stream"));
+		test.notOk(fixture.getRoute("track", "other"));
+		fixture.stop();
+		await test.rejects(fixture.run(), { message : "Fixture is stopped" });
+	});
+
+	await suite.test("snapshots on capture time", async function(test){
+		const fixture = new PCAPFixture(filename, sdp, { snapshotInterval : 1000 });
+		//Played ten times faster than real time
+		const position = await fixture.run({ rate : 10 });
+		//Last packet played
+		test.same(position, 2980);
+
+		//Taken on each interval and at the end, regardless of the rate
+		const route = fixture.getRoute("track");
+		test.same(route.snapshots.map(snapshot => snapshot.position), [1000, 2000, 2980]);
+		test.same(fixture.getSnapshot("track", 1500).position, 1000);
+
+		//Frames are tagged with the capture position of their packets
+		const frames = fixture.getFrames("track");
+		test.ok(frames.length > 0);
+		test.ok(frames.every(frame => frame.position % 20 === 0 && frame.position <= 2980));
+		test.same(frames.map(frame => frame.position), frames.map(frame => frame.position).sort((a, b) => a - b));
+		test.same(fixture.getFrames("track", 1000, 1040).map(frame => frame.position).filter(position => position < 1000), []);
+
+		fixture.stop();
+	});
+
+	await suite.test("until", async function(test){
+		const fixture = new PCAPFixture(filename, sdp, { snapshotInterval : 500 });
+		//Stops on first snapshot after it
+		const position = await fixture.run({ rate : 10, until : 1200 });
+		test.same(position, 1500);
+		test.same(fixture.getRoute("track").snapshots.map(snapshot => snapshot.position), [500, 1000, 1500]);
+		//No packet after it has been played
+		test.ok(fixture.getFrames("track").every(frame => frame.position < 1500));
+		fixture.stop();
+	});
+});
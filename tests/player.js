@@ -0,0 +1,129 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { MediaServer, IncomingStreamTrackReader } = require("../dist/index.js");
+const { record } = require("./helpers/mp4.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+/**
+ * Wait some time
+ */
+function sleep(ms)
+{
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+tap.test("Player", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "player-"));
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	const file = await record(path.join(dir, "file.mp4"), { audio : true });
+
+	await suite.test("getInfo", async function(test){
+		const player = MediaServer.createPlayer(file);
+		const info = player.getInfo();
+
+		test.ok(Math.abs(info.duration - 2000) < 200);
+		const video = info.tracks.find(track => track.media === "video");
+		const audio = info.tracks.find(track => track.media === "audio");
+		test.equal(info.tracks.length, 2);
+		test.same([video.codec, video.width, video.height], ["vp8", 320, 240]);
+		test.same([audio.codec, audio.width], ["opus", undefined]);
+
+		//Tracks are exposed with the mp4 track ids
+		test.same(player.getTracks().map(track => track.getId()), info.tracks.map(track => track.id));
+		test.equal(player.getVideoTracks()[0].getId(), video.id);
+		test.equal(player.getAudioTracks()[0].getId(), audio.id);
+
+		player.stop();
+		test.same(player.getPosition(), 0);
+	});
+
+	await suite.test("multiple tracks", async function(test){
+		const multi = await record(path.join(dir, "multi.mp4"), { audio : true, videoTracks : 2 });
+		const player = MediaServer.createPlayer(multi);
+		const info = player.getInfo();
+
+		test.same(info.tracks.map(track => track.media).sort(), ["audio", "video", "video"]);
+		test.equal(new Set(info.tracks.map(track => track.id)).size, 3);
+		test.equal(player.getVideoTracks().length, 2);
+		test.same(player.getTracks().map(track => track.getId()), info.tracks.map(track => track.id));
+
+		player.stop();
+	});
+
+	await suite.test("position and progress", async function(test){
+		const player = MediaServer.createPlayer(file, { progressInterval : 100 });
+		const progress = [];
+		player.on("progress", (position) => progress.push(position));
+		const ended = new Promise(resolve => player.once("ended", resolve));
+
+		player.play();
+		await sleep(500);
+		test.ok(Math.abs(player.getPosition() - 500) < 150);
+
+		//Paused
+		player.pause();
+		const paused = player.getPosition();
+		const count = progress.length;
+		await sleep(300);
+		test.equal(player.getPosition(), paused);
+		test.equal(progress.length, count);
+
+		//Resumed from same position
+		player.resume();
+		await ended;
+		//Increasing while playing
+		test.ok(progress.length >= 10);
+		test.same(progress, [...progress].sort((a, b) => a - b));
+		test.ok(progress[progress.length - 1] <= player.getInfo().duration);
+
+		player.stop();
+	});
+
+	await suite.test("playback rate", async function(test){
+		const player = MediaServer.createPlayer(file);
+		const ended = new Promise(resolve => player.once("ended", resolve));
+		test.throws(() => player.setPlaybackRate(0), { message : "Invalid playback rate" });
+
+		//Get video rtp timestamps
+		const timestamps = [];
+		const reader = new IncomingStreamTrackReader(false, 0, false);
+		reader.on("frame", (frame) => timestamps.push(frame.timestamp));
+		reader.attachTo(player.getVideoTracks()[0]);
+
+		const start = Date.now();
+		player.play({ rate : 2 });
+		await sleep(400);
+		test.ok(Math.abs(player.getPosition() - 800) < 200);
+
+		//Position continues from current one when changed
+		const position = player.getPosition();
+		player.setPlaybackRate(0.5);
+		await sleep(400);
+		test.ok(Math.abs(player.getPosition() - position - 200) < 150);
+
+		//Rest of the file at 4x
+		player.setPlaybackRate(4);
+		await ended;
+		test.ok(Date.now() - start < 2000);
+
+		//Timestamps are scaled by the rate, frames are 6000 apart on the file
+		const deltas = timestamps.slice(1).map((timestamp, i) => timestamp - timestamps[i]);
+		test.ok(deltas.includes(3000));
+		test.ok(deltas.includes(12000));
+		test.ok(deltas.includes(1500));
+		test.ok(deltas.every(delta => delta > 0));
+
+		reader.stop();
+		player.stop();
+	});
+});
@@ -0,0 +1,155 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { MediaServer, PlayerGroup, IncomingStreamTrackReader } = require("../dist/index.js");
+const { record } = require("./helpers/mp4.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+/**
+ * Wait some time
+ */
+function sleep(ms)
+{
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+tap.test("PlayerGroup", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "playergroup-"));
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	const file = await record(path.join(dir, "file.mp4"));
+
+	await suite.test("play at", async function(test){
+		const player = MediaServer.createPlayer(file);
+		const reader = new IncomingStreamTrackReader(false, 0, false);
+		const first = new Promise(resolve => reader.once("frame", () => resolve(Date.now())));
+		reader.attachTo(player.getVideoTracks()[0]);
+
+		const at = Date.now() + 500;
+		player.play({ at });
+		await sleep(100);
+		//Not started yet
+		test.equal(player.getPosition(), 0);
+
+		//Started when due, timers are never early
+		const started = await first;
+		test.ok(started >= at - 50);
+		await sleep(300);
+		//Playing since then
+		test.ok(Math.abs(player.getPosition() - (Date.now() - at)) < 300);
+
+		reader.stop();
+		player.stop();
+	});
+
+	await suite.test("players in sync", async function(test){
+		const group = new PlayerGroup({ driftInterval : 100 });
+		const players = [MediaServer.createPlayer(file), MediaServer.createPlayer(file)];
+		for (const player of players)
+			group.add(player);
+		test.same(group.getPlayers(), players);
+
+		const reports = [];
+		//Wait for a few reports
+		const reported = new Promise(resolve => group.on("drift", (drifts) => {
+			if (reports.push(drifts) === 3)
+				resolve();
+		}));
+		const ended = new Promise(resolve => group.once("ended", resolve));
+
+		const start = group.play();
+		test.ok(start.getTime() > Date.now());
+		await reported;
+
+		//Reported for all players while playing
+		for (const drifts of reports)
+			test.same(drifts.map(({ player }) => player), players);
+		for (const { drift } of group.getDrifts())
+			test.ok(Math.abs(drift) < 100);
+
+		//Ended once all of them have
+		await ended;
+		test.equal(group.clock, null);
+		const count = reports.length;
+		await sleep(300);
+		test.equal(reports.length, count);
+
+		group.stop();
+		test.same(group.getPlayers(), []);
+		for (const player of players)
+			player.stop();
+	});
+
+	await suite.test("drift correction on key frames", async function(test){
+		//Smaller than the distance between key frames
+		const group = new PlayerGroup({ driftInterval : 100, maxDrift : 50 });
+		const players = [MediaServer.createPlayer(file), MediaServer.createPlayer(file)];
+		for (const player of players)
+			group.add(player);
+
+		//Count corrections
+		const drifting = players[1];
+		const seeks = [];
+		const seek = drifting.seek.bind(drifting);
+		drifting.seek = (position, at) => {
+			seeks.push([position, at]);
+			return seek(position, at);
+		};
+
+		const start = group.play().getTime();
+		await sleep(400);
+
+		//Make it drift
+		drifting.pause();
+		await sleep(1000);
+
+		//Seeked once to the next key frame
+		test.equal(seeks.length, 1);
+		const [position, at] = seeks[0];
+		test.ok(position === 666 || position === 1333);
+		//When it is due on the shared clock
+		test.equal(at - start, position);
+
+		//Back in sync
+		for (const { drift } of group.getDrifts())
+			test.ok(Math.abs(drift) <= 50);
+
+		group.stop();
+		for (const player of players)
+			player.stop();
+	});
+
+	await suite.test("ended when remaining player is removed", async function(test){
+		const group = new PlayerGroup();
+		const players = [MediaServer.createPlayer(file), MediaServer.createPlayer(file)];
+		for (const player of players)
+			group.add(player);
+		let ended = 0;
+		group.on("ended", () => ended++);
+
+		group.play();
+		await sleep(300);
+		//Second one will not end
+		players[1].pause();
+		await new Promise(resolve => players[0].once("ended", resolve));
+		test.equal(ended, 0);
+
+		//Rest of players have ended
+		group.remove(players[1]);
+		test.equal(ended, 1);
+		test.equal(group.clock, null);
+
+		group.stop();
+		test.equal(ended, 1);
+		for (const player of players)
+			player.stop();
+	});
+});
@@ -0,0 +1,98 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { MediaServer, PlaylistPlayer } = require("../dist/index.js");
+const { record } = require("./helpers/mp4.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+//10 frames of 30fps video
+const short = { frames : 10, fps : 30, keyFrameInterval : 5 };
+
+/**
+ * Get the playlist events until the condition is met
+ */
+function events(playlist, until)
+{
+	const fired = [];
+	return new Promise(resolve => {
+		const push = (event) => {
+			fired.push(event);
+			if (until(event, fired))
+				resolve(fired);
+		};
+		playlist.on("itemstarted", (filename, index) => push(["itemstarted", index]));
+		playlist.on("itemended", (filename, index) => push(["itemended", index]));
+		playlist.on("ended", () => push(["ended"]));
+	});
+}
+
+tap.test("PlaylistPlayer", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "playlist-"));
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	const first = await record(path.join(dir, "first.mp4"), short);
+	const second = await record(path.join(dir, "second.mp4"), short);
+
+	await suite.test("empty", async function(test){
+		test.throws(() => new PlaylistPlayer([]), { message : "Playlist is empty" });
+	});
+
+	await suite.test("items in order", async function(test){
+		const playlist = new PlaylistPlayer([first, second]);
+		const fired = events(playlist, (event) => event[0] === "ended");
+
+		playlist.play();
+		test.same(await fired, [["itemstarted", 0], ["itemended", 0], ["itemstarted", 1], ["itemended", 1], ["ended"]]);
+		//Same tracks for all the items
+		test.equal(playlist.getTracks().length, 1);
+
+		playlist.stop();
+	});
+
+	await suite.test("items failing to open are skipped", async function(test){
+		const playlist = new PlaylistPlayer([first, path.join(dir, "missing.mp4"), second]);
+		const fired = events(playlist, (event) => event[0] === "ended");
+
+		playlist.play();
+		test.same(await fired, [["itemstarted", 0], ["itemended", 0], ["itemstarted", 2], ["itemended", 2], ["ended"]]);
+
+		playlist.stop();
+	});
+
+	await suite.test("repeat", async function(test){
+		const playlist = new PlaylistPlayer([first, path.join(dir, "missing.mp4"), second], { repeat : true });
+		//Until first item is started again
+		const fired = events(playlist, (event, fired) => fired.filter(([name, index]) => name === "itemstarted" && index === 0).length === 2);
+
+		playlist.play();
+		test.same(await fired, [["itemstarted", 0], ["itemended", 0], ["itemstarted", 2], ["itemended", 2], ["itemstarted", 0]]);
+
+		playlist.stop();
+	});
+
+	await suite.test("items with different codec", async function(test){
+		const vp9 = await record(path.join(dir, "vp9.mp4"), { ...short, codec : "vp9" });
+		const playlist = new PlaylistPlayer([first, vp9]);
+		const fired = events(playlist, (event) => event[0] === "itemstarted" && event[1] === 1);
+		const [vp8Track] = playlist.getVideoTracks();
+
+		playlist.play();
+		await fired;
+
+		//Sent on a new track, as the codec of the existing one can't be changed
+		test.same(playlist.getPlayer().getInfo().tracks.map(track => track.codec), ["vp9"]);
+		const tracks = playlist.getVideoTracks();
+		test.equal(tracks.length, 2);
+		test.equal(tracks[0], vp8Track);
+
+		playlist.stop();
+	});
+});
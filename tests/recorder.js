@@ -0,0 +1,425 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { MediaServer, IncomingStream, Recorder } = require("../dist/index.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+//AV1 temporal units, key frame starts with a sequence header of profile 0, level 0 and main tier
+const av1Intra = Buffer.from([
+	0x12, 0x00,
+	0x0a, 0x0b, 0x00, 0x00, 0x00, 0x24, 0xc4, 0xff, 0xdf, 0x00, 0x68, 0x02, 0x10,
+	0x32, 0x05, 0x10, 0x00, 0x00, 0x00, 0x00,
+]);
+const av1Inter = Buffer.from([
+	0x12, 0x00,
+	0x32, 0x05, 0x30, 0x00, 0x00, 0x00, 0x00,
+]);
+
+//320x240 vp8 key frame and inter frame
+const vp8Intra = Buffer.concat([Buffer.from([0x10, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0x40, 0x01, 0xf0, 0x00]), Buffer.alloc(2000, 0x55)]);
+const vp8Inter = Buffer.concat([Buffer.from([0x11, 0x00, 0x00]), Buffer.alloc(500, 0x55)]);
+
+/**
+ * Get top level boxes of a mp4 file
+ */
+function boxes(filename)
+{
+	const file = fs.readFileSync(filename);
+	const types = [];
+	for (let offset = 0; offset + 8 <= file.length; offset += file.readUInt32BE(offset) || file.length)
+		types.push(file.toString("ascii", offset + 4, offset + 8));
+	return types;
+}
+
+/**
+ * Get the data of all the boxes on a path, as "moov.trak.tkhd"
+ */
+function find(buffer, types)
+{
+	const [type, ...rest] = types.split(".");
+	const found = [];
+	for (let offset = 0; offset + 8 <= buffer.length; offset += buffer.readUInt32BE(offset) || buffer.length)
+		if (buffer.toString("ascii", offset + 4, offset + 8) === type)
+			found.push(buffer.subarray(offset + 8, offset + buffer.readUInt32BE(offset)));
+	return rest.length ? found.flatMap(data => find(data, rest.join("."))) : found;
+}
+
+/**
+ * Get profile, level and tier of the av1C box of a mp4 file
+ */
+function av1C(filename)
+{
+	//Skip stsd header and av01 visual sample entry fields
+	const av01 = find(find(fs.readFileSync(filename), "moov.trak.mdia.minf.stbl.stsd")[0].subarray(8), "av01")[0];
+	const config = find(av01.subarray(78), "av1C")[0];
+	return { profile : config[1] >> 5, levelIdx : config[1] & 0x1f, tier : config[2] >> 7 };
+}
+
+/**
+ * Get number of samples of each track of a mp4 file
+ */
+function samples(filename)
+{
+	return find(fs.readFileSync(filename), "moov.trak.mdia.minf.stbl.stsz").map(stsz => stsz.readUInt32BE(8));
+}
+
+/**
+ * Push vp8 frames on an injection track at 30fps, with an intra each 10 frames starting at the given frame number
+ * @returns {Promise<Number[]>} Time when each frame was pushed
+ */
+function push(track, count, first = 0)
+{
+	return new Promise(resolve => {
+		const times = [];
+		const timer = setInterval(() => {
+			const i = first + times.length;
+			times.push(Date.now());
+			track.pushFrame(i % 10 ? vp8Inter : vp8Intra, { timestamp : i * 3000 });
+			if (times.length === count)
+			{
+				clearInterval(timer);
+				resolve(times);
+			}
+		}, 33);
+	});
+}
+
+/**
+ * Connect two local transports, sending the frames pushed on the returned injection track
+ * @returns {Promise<{ injector, track, stop }>} Injection track and the incoming track it is received on
+ */
+async function connect()
+{
+	const capabilities = { video : { codecs : ["vp8"] } };
+	const senderEndpoint = MediaServer.createEndpoint("127.0.0.1");
+	const receiverEndpoint = MediaServer.createEndpoint("127.0.0.1");
+	const sender = senderEndpoint.createSDPManager("unified-plan", capabilities);
+	const receiver = receiverEndpoint.createSDPManager("unified-plan", capabilities);
+	let senderTransport, receiverTransport;
+	sender.on("transport", (created) => senderTransport = created);
+	receiver.on("transport", (created) => receiverTransport = created);
+	sender.on("renegotiationneeded", () => {
+		receiver.processRemoteDescription(sender.createLocalDescription());
+		sender.processRemoteDescription(receiver.createLocalDescription());
+	});
+
+	receiver.processRemoteDescription(sender.createLocalDescription());
+	sender.processRemoteDescription(receiver.createLocalDescription());
+
+	//Both are ice-lite, so candidates must be set on each side
+	for (const candidate of receiverEndpoint.getLocalCandidates())
+		senderTransport.addRemoteCandidate(candidate);
+	for (const candidate of senderEndpoint.getLocalCandidates())
+		receiverTransport.addRemoteCandidate(candidate);
+
+	const injector = MediaServer.createFrameInjectionTrack("video", "vp8");
+	senderTransport.createOutgoingStream().createTrack("video").attachTo(injector);
+
+	//Wait for the incoming track
+	const track = await new Promise(resolve => receiverTransport.once("incomingtrack", resolve));
+
+	return {
+		injector,
+		track,
+		stop	: () => {
+			injector.stop();
+			sender.stop();
+			receiver.stop();
+			senderEndpoint.stop();
+			receiverEndpoint.stop();
+		}
+	};
+}
+
+tap.test("Recorder", async function(suite){
+
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "recorder-"));
+	suite.teardown(() => {
+		fs.rmSync(dir, { recursive : true, force : true });
+		MediaServer.terminate();
+	});
+
+	await suite.test("createRecorder", async function(test){
+		const filename = path.join(dir, "recording.mp4");
+		const recorder = MediaServer.createRecorder(filename);
+		test.ok(recorder instanceof Recorder);
+
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		const started = new Promise(resolve => recorder.once("started", resolve));
+		test.equal(recorder.record(track).length, 1);
+
+		await push(track, 20);
+		test.equal(await started, recorder);
+
+		await recorder.stop();
+		track.stop();
+
+		test.ok(boxes(filename).includes("moov"));
+		test.ok(recorder.getStartTime());
+	});
+
+	await suite.test("createRecorder fragmented", async function(test){
+		const filename = path.join(dir, "fragmented.mp4");
+		const recorder = MediaServer.createRecorder(filename, { fragmented : true, fragmentDuration : 100 });
+		const fragments = [];
+		recorder.on("fragment", (info) => fragments.push(info));
+
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		recorder.record(track);
+		await push(track, 20);
+
+		await recorder.stop();
+		track.stop();
+
+		test.ok(fragments.length > 1);
+		test.same(boxes(filename).slice(0, 4), ["ftyp", "moov", "moof", "mdat"]);
+	});
+
+	await suite.test("segments by duration", async function(test){
+		const recorder = MediaServer.createRecorder("", { segment : { duration : 1000, filenamePattern : path.join(dir, "duration-%03d.mp4") } });
+		const segments = [];
+		recorder.on("segmentclosed", (filename, startTime, endTime) => segments.push({ filename, startTime, endTime, recording : recorder.recording }));
+
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		recorder.record(track);
+		await push(track, 100);
+		//Closed while recording
+		test.ok(segments.length >= 1);
+		test.ok(segments.every(segment => segment.recording));
+
+		await recorder.stop();
+		track.stop();
+		test.ok(segments.length >= 2);
+
+		//Last one is closed on stop
+		test.same(segments.map(segment => path.basename(segment.filename)), segments.map((segment, i) => `duration-${String(i).padStart(3, "0")}.mp4`));
+		for (let i = 0; i < segments.length; ++i)
+		{
+			test.ok(boxes(segments[i].filename).includes("moov"));
+			test.ok(segments[i].startTime <= segments[i].endTime);
+			//Segments are contiguous
+			if (i)
+				test.equal(segments[i].startTime.getTime(), segments[i - 1].endTime.getTime());
+		}
+		//Over the duration, until next intra
+		test.ok(segments[0].endTime - segments[0].startTime >= 1000);
+	});
+
+	await suite.test("segments by size", async function(test){
+		const recorder = MediaServer.createRecorder("", { segment : { maxBytes : 20000, filenamePattern : path.join(dir, "size-%t.mp4") } });
+		const segments = [];
+		recorder.on("segmentclosed", (filename, startTime) => segments.push({ filename, startTime }));
+
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		recorder.record(track);
+		await push(track, 100);
+		await recorder.stop();
+		track.stop();
+
+		test.ok(segments.length >= 2);
+		for (const segment of segments)
+		{
+			//Named with the time it was created, it starts on next intra
+			const created = parseInt(path.basename(segment.filename).match(/^size-(\d+)\.mp4$/)[1]);
+			test.ok(created <= segment.startTime.getTime() && created > segment.startTime.getTime() - 1000);
+			test.ok(boxes(segment.filename).includes("moov"));
+		}
+		//Rotated after reaching the size
+		test.ok(fs.statSync(segments[0].filename).size >= 20000);
+	});
+
+	await suite.test("segment params", async function(test){
+		test.throws(() => MediaServer.createRecorder("", { segment : { duration : 1000, filenamePattern : path.join(dir, "segment.mp4") } }), { message : "Segment filename pattern must contain %d or %t" });
+	});
+
+	await suite.test("export clips", async function(test){
+		const recorder = MediaServer.createRecorder("", { timeShift : 10000, disableHints : true });
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8");
+		recorder.record(track);
+		//Buffer starts with 5 inter frames, first intra is frame 10
+		const times = await push(track, 45, 5);
+		//Wait for last frame to be buffered
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		//Whole buffer starts on first intra
+		const whole = path.join(dir, "whole.mp4");
+		await recorder.exportClip(whole);
+		test.same(samples(whole), [40]);
+
+		//Starts on last intra before the range, frames 20 to 27
+		const gop = path.join(dir, "gop.mp4");
+		await recorder.exportClip(gop, { from : times[18] + 15, to : new Date(times[22] + 15) });
+		test.same(samples(gop), [8]);
+
+		//Starting on an intra, frames 30 to 39
+		const intra = path.join(dir, "intra.mp4");
+		await recorder.exportClip(intra, { from : times[25] + 15, to : times[34] + 15 });
+		test.same(samples(intra), [10]);
+
+		//No intra before the end of the range
+		await test.rejects(recorder.exportClip(path.join(dir, "nointra.mp4"), { to : times[4] + 15 }), { message : "Could not export clip, no media on range or file could not be created" });
+		//Nothing on the range
+		await test.rejects(recorder.exportClip(path.join(dir, "empty.mp4"), { from : 0, to : times[0] - 1000 }), { message : /no media on range/ });
+		await test.rejects(recorder.exportClip(path.join(dir, "invalid.mp4"), { from : times[10], to : times[5] }), { message : "Invalid clip range" });
+
+		//Buffer keeps running and it is not recorded
+		await push(track, 10, 50);
+		await new Promise(resolve => setTimeout(resolve, 100));
+		const again = path.join(dir, "again.mp4");
+		await recorder.exportClip(again);
+		test.same(samples(again), [50]);
+		test.notOk(recorder.recording);
+
+		await recorder.stop();
+		track.stop();
+		await test.rejects(recorder.exportClip(again), { message : "Recorder is stopped" });
+
+		//Only on time shifted recordings
+		const other = MediaServer.createRecorder(path.join(dir, "other.mp4"));
+		await test.rejects(other.exportClip(again), { message : "Clips can only be exported on time shifted recordings" });
+		await other.stop();
+	});
+
+	await suite.test("align to sender time", async function(test){
+		const { injector, track, stop } = await connect();
+
+		//Window longer than the recording, frames are written when closed
+		const pending = path.join(dir, "pending.mp4");
+		const waiting = MediaServer.createRecorder(pending, { alignToSenderTime : true, alignmentWindow : 60000, disableHints : true });
+		//Window elapses while recording
+		const aligned = path.join(dir, "aligned.mp4");
+		const recorder = MediaServer.createRecorder(aligned, { alignToSenderTime : true, alignmentWindow : 200, disableHints : true });
+		let started = 0;
+		waiting.on("started", () => started++);
+		recorder.on("started", () => started++);
+		waiting.record(track);
+		recorder.record(track);
+
+		//Wait for the first sender report
+		await push(injector, 60);
+		//Only the one which window has elapsed has started
+		test.equal(started, 1);
+
+		await Promise.all([waiting.stop(), recorder.stop()]);
+		stop();
+
+		//Frames before the first sender report are dropped
+		const recorded = samples(aligned)[0];
+		test.ok(recorded > 0 && recorded < 60);
+		//Waiting ones are flushed on close
+		test.ok(samples(pending)[0] > 0);
+
+		test.throws(() => MediaServer.createRecorder(pending, { fragmented : true, alignToSenderTime : true }), { message : "Fragmented recording can't be time shifted, segmented or aligned to sender time" });
+	});
+
+	await suite.test("av1 config", async function(test){
+		const filename = path.join(dir, "av1.mp4");
+		const recorder = MediaServer.createRecorder(filename, { timeShift : 10000, disableHints : true });
+		const track = MediaServer.createFrameInjectionTrack("video", "av1");
+		//Config from sdp, which differs from the one of the sequence header
+		track.setAV1Config({ profile : 1, levelIdx : 8, tier : 1 });
+		recorder.record(track);
+
+		for (let i = 0; i < 20; ++i)
+			track.pushFrame(i % 10 ? av1Inter : av1Intra, { timestamp : i * 3000 });
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		//Written on clips
+		const clip = path.join(dir, "av1-clip.mp4");
+		await recorder.exportClip(clip);
+		test.same(av1C(clip), { profile : 1, levelIdx : 8, tier : 1 });
+
+		//And on the recording when closed
+		recorder.flush(filename);
+		await recorder.stop();
+		track.stop();
+		test.same(av1C(filename), { profile : 1, levelIdx : 8, tier : 1 });
+	});
+
+	await suite.test("fragmented write errors", async function(test){
+		const recorder = MediaServer.createRecorder(path.join(dir, "missing", "error.mp4"), { fragmented : true });
+		const errors = [];
+		recorder.on("error", (error, self) => errors.push([error.code, self]));
+
+		//Wait for open to fail
+		await new Promise(resolve => setTimeout(resolve, 50));
+		test.same(errors, [["ENOENT", recorder]]);
+
+		//Stopped anyway
+		const stopped = new Promise(resolve => recorder.once("stopped", resolve));
+		await recorder.stop();
+		test.equal(await stopped, recorder);
+	});
+
+	await suite.test("SessionRecorder", async function(test){
+		const directory = path.join(dir, "session");
+		const session = MediaServer.createSessionRecorder({ directory });
+		const files = [];
+		session.on("file", (file, recorder) => files.push([file, recorder]));
+
+		const stream = new IncomingStream("stream", null);
+		const track = MediaServer.createFrameInjectionTrack("video", "vp8", "video");
+		stream.addTrack(track);
+		session.record(stream);
+
+		test.equal(files.length, 1);
+		test.ok(files[0][1] instanceof Recorder);
+
+		await push(track, 20);
+
+		//Stopping the track closes its file
+		const stopped = new Promise(resolve => files[0][1].once("stopped", resolve));
+		track.stop();
+		await stopped;
+
+		const timeline = await session.stop();
+		test.equal(timeline.files.length, 1);
+		const file = timeline.files[0];
+		test.same([file.streamId, file.trackId, file.media], ["stream", "video", "video"]);
+		test.ok(file.start && file.end >= file.start);
+		test.ok(boxes(path.join(directory, file.filename)).includes("moov"));
+		test.same(JSON.parse(fs.readFileSync(path.join(directory, "manifest.json"), "utf8")), timeline);
+	});
+
+	await suite.test("SessionRecorder close errors", async function(test){
+		const directory = path.join(dir, "session-errors");
+		const session = MediaServer.createSessionRecorder({ directory });
+		//Files are closed with errors
+		session.on("file", (file, recorder) => {
+			const stop = recorder.stop.bind(recorder);
+			recorder.stop = () => stop().then(() => { throw new Error(file.streamId); });
+		});
+		const errors = [];
+		session.on("recordererror", (file, error) => errors.push([file.streamId, error.message]));
+
+		const streams = ["left", "stopped"].map(id => {
+			const stream = new IncomingStream(id, null);
+			stream.addTrack(MediaServer.createFrameInjectionTrack("video", "vp8", "video"));
+			session.record(stream);
+			return stream;
+		});
+
+		//Reported when the stream is stopped
+		const reported = new Promise(resolve => session.once("recordererror", resolve));
+		streams[0].stop();
+		await reported;
+		test.same(errors, [["left", "left"]]);
+
+		//Rejected when the session is stopped, but manifest is written anyway
+		const manifest = new Promise(resolve => session.once("manifest", resolve));
+		await test.rejects(session.stop(), { message : "stopped" });
+		const timeline = await manifest;
+		test.ok(timeline.end);
+		test.same(timeline.streams.map(stream => stream.id), ["left", "stopped"]);
+		test.same(JSON.parse(fs.readFileSync(path.join(directory, "manifest.json"), "utf8")), timeline);
+		test.equal(errors.length, 1);
+
+		//Already stopped
+		test.equal(await session.stop(), timeline);
+		streams[1].stop();
+	});
+});
@@ -0,0 +1,240 @@
+const tap = require("tap");
+const { SDPInfo } = require("semantic-sdp");
+const { MediaServer } = require("../dist/index.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const capabilities = {
+	audio : {
+		codecs		: ["opus"],
+	},
+	video : {
+		codecs		: ["vp8"],
+		rtx		: true,
+	}
+};
+
+tap.test("SDPManager", async function(suite){
+
+	const endpoint = MediaServer.createEndpoint("127.0.0.1");
+
+	suite.teardown(() => {
+		endpoint.stop();
+		MediaServer.terminate();
+	});
+
+	await suite.test("offer/answer", async function(test){
+		const offerer = endpoint.createSDPManager("unified-plan", capabilities);
+		const answerer = endpoint.createSDPManager("unified-plan", capabilities);
+		const states = [];
+		offerer.on("signalingstatechange", (state) => states.push(state));
+
+		test.same(offerer.getSignalingState(), "stable");
+		const offer = offerer.createLocalDescription();
+		test.same(offerer.getState(), "local-offer");
+		test.same(offerer.getSignalingState(), "have-local-offer");
+
+		answerer.processRemoteDescription(offer);
+		test.same(answerer.getSignalingState(), "have-remote-offer");
+		const answer = answerer.createLocalDescription();
+		test.same(answerer.getState(), "stable");
+
+		offerer.processRemoteDescription(answer);
+		test.same(offerer.getState(), "stable");
+		test.same(states, ["have-local-offer", "stable"]);
+
+		offerer.stop();
+		answerer.stop();
+		test.same(offerer.getSignalingState(), "closed");
+	});
+
+	await suite.test("invalid transitions", async function(test){
+		const manager = endpoint.createSDPManager("unified-plan", capabilities);
+
+		//Nothing to answer or roll back yet
+		test.throws(() => manager.createLocalDescription("answer"), { name : "InvalidStateError" });
+		test.throws(() => manager.rollback(), { name : "InvalidStateError" });
+
+		manager.createLocalDescription();
+		//Answers can't be set locally while our offer is pending
+		test.throws(() => manager.createLocalDescription("answer"), { name : "InvalidStateError" });
+		//Remote side can't roll back our offer
+		test.throws(() => manager.processRemoteDescription("", "rollback"), { name : "InvalidStateError" });
+		test.same(manager.getSignalingState(), "have-local-offer");
+
+		manager.stop();
+		test.throws(() => manager.createLocalDescription(), { name : "InvalidStateError" });
+	});
+
+	await suite.test("rollback", async function(test){
+		const manager = endpoint.createSDPManager("unified-plan", capabilities);
+		const remote = endpoint.createSDPManager("unified-plan", capabilities);
+
+		manager.createLocalDescription();
+		manager.createLocalDescription("rollback");
+		test.same(manager.getState(), "initial");
+
+		manager.processRemoteDescription(remote.createLocalDescription());
+		test.same(manager.getSignalingState(), "have-remote-offer");
+		//Local side can't roll back the remote offer
+		test.throws(() => manager.createLocalDescription("rollback"), { name : "InvalidStateError" });
+		manager.processRemoteDescription("", "rollback");
+		test.same(manager.getState(), "initial");
+
+		manager.stop();
+		remote.stop();
+	});
+
+	await suite.test("glare", async function(test){
+		const impolite = endpoint.createSDPManager("unified-plan", capabilities);
+		const polite = endpoint.createSDPManager("unified-plan", capabilities);
+		polite.setPolite(true);
+
+		const offer1 = impolite.createLocalDescription();
+		const offer2 = polite.createLocalDescription();
+
+		//Type must be explicit, otherwise it is inferred as the answer to our offer
+		//Impolite peer keeps its offer
+		test.throws(() => impolite.processRemoteDescription(offer2, "offer"), { name : "GlareError" });
+		test.same(impolite.getSignalingState(), "have-local-offer");
+
+		//Polite peer rolls back and accepts the remote one
+		polite.processRemoteDescription(offer1, "offer");
+		test.same(polite.getSignalingState(), "have-remote-offer");
+		impolite.processRemoteDescription(polite.createLocalDescription());
+		test.same(impolite.getSignalingState(), "stable");
+		test.same(polite.getSignalingState(), "stable");
+
+		impolite.stop();
+		polite.stop();
+	});
+
+	await suite.test("renegotiationneeded not fired during offer/answer", async function(test){
+		const manager = endpoint.createSDPManager("unified-plan", capabilities);
+		const remote = endpoint.createSDPManager("unified-plan", capabilities);
+		let fired = 0;
+		manager.on("renegotiationneeded", () => fired++);
+
+		manager.processRemoteDescription(remote.createLocalDescription());
+		remote.processRemoteDescription(manager.createLocalDescription());
+
+		//Schedule it and start a new offer before next tick
+		manager.restartIce();
+		manager.processRemoteDescription(remote.createLocalDescription());
+		await new Promise(resolve => setTimeout(resolve, 10));
+		test.same(fired, 0);
+
+		//Once completed it is requested again
+		remote.processRemoteDescription(manager.createLocalDescription());
+		await new Promise(resolve => setTimeout(resolve, 10));
+		test.same(fired, 1);
+
+		manager.stop();
+		remote.stop();
+	});
+
+	await suite.test("ice restart", async function(test){
+		const manager = endpoint.createSDPManager("unified-plan", capabilities);
+		const remote = endpoint.createSDPManager("unified-plan", capabilities);
+		let transport;
+		manager.on("transport", (created) => transport = created);
+
+		manager.processRemoteDescription(remote.createLocalDescription());
+		remote.processRemoteDescription(manager.createLocalDescription());
+
+		const localICE = transport.getLocalICEInfo();
+		const remoteICE = transport.getRemoteICEInfo();
+
+		//Restart from our side, new credentials are offered
+		manager.restartIce();
+		const offer = manager.createLocalDescription();
+		const offered = SDPInfo.parse(offer).getICE();
+		test.not(offered.getUfrag(), localICE.getUfrag());
+		test.not(offered.getPwd(), localICE.getPwd());
+		//And applied once answered
+		test.equal(transport.getLocalICEInfo(), localICE);
+		remote.processRemoteDescription(offer);
+		const remoteAnswer = remote.createLocalDescription();
+		const answered = SDPInfo.parse(remoteAnswer).getICE();
+		manager.processRemoteDescription(remoteAnswer);
+		test.same([transport.getLocalICEInfo().getUfrag(), transport.getLocalICEInfo().getPwd()], [offered.getUfrag(), offered.getPwd()]);
+		test.same([transport.getRemoteICEInfo().getUfrag(), transport.getRemoteICEInfo().getPwd()], [answered.getUfrag(), answered.getPwd()]);
+		test.equal(transport.getICEUsername(), offered.getUfrag() + ":" + answered.getUfrag());
+
+		//Restart from the remote side
+		const before = [transport.getLocalICEInfo(), transport.getRemoteICEInfo()];
+		remote.restartIce();
+		const remoteOffer = remote.createLocalDescription();
+		const restarted = SDPInfo.parse(remoteOffer).getICE();
+		manager.processRemoteDescription(remoteOffer);
+		const localAnswer = manager.createLocalDescription();
+		const answer = SDPInfo.parse(localAnswer).getICE();
+		test.same([transport.getRemoteICEInfo().getUfrag(), transport.getRemoteICEInfo().getPwd()], [restarted.getUfrag(), restarted.getPwd()]);
+		test.not(answer.getUfrag(), before[0].getUfrag());
+		test.same([transport.getLocalICEInfo().getUfrag(), transport.getLocalICEInfo().getPwd()], [answer.getUfrag(), answer.getPwd()]);
+		remote.processRemoteDescription(localAnswer);
+		test.same(manager.getSignalingState(), "stable");
+
+		//Rolling back a remote restart keeps previous credentials
+		const current = [transport.getLocalICEInfo(), transport.getRemoteICEInfo()];
+		const username = transport.getICEUsername();
+		remote.restartIce();
+		manager.processRemoteDescription(remote.createLocalDescription());
+		test.not(transport.getICEUsername(), username);
+		manager.processRemoteDescription("", "rollback");
+		test.same(manager.getSignalingState(), "stable");
+		test.equal(transport.getLocalICEInfo(), current[0]);
+		test.equal(transport.getRemoteICEInfo(), current[1]);
+		test.equal(transport.getICEUsername(), username);
+
+		manager.stop();
+		remote.stop();
+	});
+
+	await suite.test("transceiver stop and recycle", async function(test){
+		const multicodec = { ...capabilities, video : { codecs : ["vp8", "h264;packetization-mode=1"], rtx : true } };
+		const manager = endpoint.createSDPManager("unified-plan", multicodec);
+		const remote = endpoint.createSDPManager("unified-plan", multicodec);
+		let transport;
+		manager.on("transport", (created) => transport = created);
+
+		manager.processRemoteDescription(remote.createLocalDescription());
+		remote.processRemoteDescription(manager.createLocalDescription());
+
+		//Complete an offer/answer started by the manager
+		const negotiate = (offer) => {
+			remote.processRemoteDescription(offer);
+			manager.processRemoteDescription(remote.createLocalDescription());
+		};
+
+		//Send a track on a new m-line and narrow its codecs
+		const stream = transport.createOutgoingStream();
+		const first = stream.createTrack("video");
+		negotiate(manager.createLocalDescription());
+		manager.setCodecPreferences("2", ["h264"]);
+		const narrowed = manager.createLocalDescription();
+		test.notMatch(narrowed.split(/^m=/m)[3], /VP8/);
+		negotiate(narrowed);
+
+		//Local track is detached but owned by the caller
+		manager.stopTransceiver("2");
+		test.notOk(first.stopped);
+		negotiate(manager.createLocalDescription());
+
+		//New track reuses the stopped m-line with all the codecs
+		const second = stream.createTrack("video");
+		const offer = manager.createLocalDescription();
+		const mlines = offer.split(/^m=/m).slice(1);
+		test.same(mlines.length, 3);
+		test.match(mlines[2], /a=mid:2/);
+		test.match(mlines[2], /a=sendonly/);
+		test.match(mlines[2], /VP8/);
+
+		first.stop();
+		second.stop();
+		manager.stop();
+		remote.stop();
+	});
+});
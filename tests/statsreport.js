@@ -0,0 +1,178 @@
+const tap = require("tap");
+const { MediaServer } = require("../dist/index.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const capabilities = {
+	audio : {
+		codecs		: ["opus"],
+	},
+	video : {
+		codecs		: ["vp8"],
+	}
+};
+
+//320x240 vp8 key frame
+const vp8Intra = Buffer.concat([Buffer.from([0x10, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0x40, 0x01, 0xf0, 0x00]), Buffer.alloc(2000, 0x55)]);
+//20ms opus frame
+const opusFrame = Buffer.concat([Buffer.from([0x78]), Buffer.alloc(80, 0x55)]);
+
+/**
+ * Connect a sender and a receiver transport on two local endpoints and send vp8 and opus frames between them
+ */
+async function connect(senderIps, receiverIps)
+{
+	const senderEndpoint = MediaServer.createEndpoint(senderIps);
+	const receiverEndpoint = MediaServer.createEndpoint(receiverIps);
+	const sender = senderEndpoint.createSDPManager("unified-plan", capabilities);
+	const receiver = receiverEndpoint.createSDPManager("unified-plan", capabilities);
+	let senderTransport, receiverTransport;
+	sender.on("transport", (created) => senderTransport = created);
+	receiver.on("transport", (created) => receiverTransport = created);
+	sender.on("renegotiationneeded", () => {
+		receiver.processRemoteDescription(sender.createLocalDescription());
+		sender.processRemoteDescription(receiver.createLocalDescription());
+	});
+
+	receiver.processRemoteDescription(sender.createLocalDescription());
+	sender.processRemoteDescription(receiver.createLocalDescription());
+
+	//Both are ice-lite, so candidates must be set on each side
+	for (const candidate of receiverEndpoint.getLocalCandidates())
+		senderTransport.addRemoteCandidate(candidate);
+	for (const candidate of senderEndpoint.getLocalCandidates())
+		receiverTransport.addRemoteCandidate(candidate);
+
+	//Send frames
+	const injector = MediaServer.createFrameInjectionTrack("video", "vp8");
+	const audioInjector = MediaServer.createFrameInjectionTrack("audio", "opus");
+	const outgoingStream = senderTransport.createOutgoingStream();
+	outgoingStream.createTrack("video").attachTo(injector);
+	outgoingStream.createTrack("audio").attachTo(audioInjector);
+	let timestamp = 0, audioTimestamp = 0;
+	const timer = setInterval(() => injector.pushFrame(vp8Intra, { timestamp : timestamp += 3000 }), 33);
+	const audioTimer = setInterval(() => audioInjector.pushFrame(opusFrame, { timestamp : audioTimestamp += 960 }), 20);
+
+	//Wait until media is received
+	await new Promise(resolve => {
+		const check = setInterval(() => {
+			const tracks = receiverTransport.getIncomingStreams().flatMap(stream => stream.getVideoTracks());
+			if (tracks.length && tracks[0].getStats()[""]?.media.numFrames > 5)
+			{
+				clearInterval(check);
+				resolve();
+			}
+		}, 50);
+	});
+
+	return {
+		sender		: senderTransport,
+		receiver	: receiverTransport,
+		stop		: () => {
+			clearInterval(timer);
+			clearInterval(audioTimer);
+			injector.stop();
+			audioInjector.stop();
+			sender.stop();
+			receiver.stop();
+			senderEndpoint.stop();
+			receiverEndpoint.stop();
+		}
+	};
+}
+
+tap.test("StatsReport", async function(suite){
+
+	suite.teardown(() => MediaServer.terminate());
+
+	await suite.test("ids and references", async function(test){
+		const { sender, receiver, stop } = await connect("127.0.0.1", "127.0.0.1");
+
+		for (const transport of [sender, receiver])
+		{
+			const report = transport.getStatsReport();
+			const stats = Array.from(report.values());
+			const byType = (type) => stats.filter(stat => stat.type === type);
+
+			//Keyed by id
+			for (const [id, stat] of report)
+				test.equal(stat.id, id);
+
+			//All of them point to the transport
+			const transportStats = report.get("T");
+			test.equal(transportStats.type, "transport");
+			for (const stat of stats)
+				if (stat.type !== "transport")
+					test.equal(stat.transportId, "T");
+
+			//Same payload type on different media are different codecs
+			test.same(byType("codec").map(codec => codec.mimeType).sort(), ["audio/opus", "video/vp8"]);
+
+			//Selected pair with the single local candidate
+			const pair = report.get(transportStats.selectedCandidatePairId);
+			test.equal(pair.type, "candidate-pair");
+			test.equal(pair.nominated, true);
+			test.equal(report.get(pair.localCandidateId).type, "local-candidate");
+			test.equal(report.get(pair.remoteCandidateId).type, "remote-candidate");
+			test.equal(report.get(pair.remoteCandidateId).port, transport.getSelectedCandidate().getPort());
+		}
+
+		//Received rtp stream references its codec
+		const inbound = Array.from(receiver.getStatsReport().values()).filter(stat => stat.type === "inbound-rtp" && stat.kind === "video");
+		test.equal(inbound.length, 1);
+		test.ok(inbound[0].packetsReceived > 0);
+		test.same(receiver.getStatsReport().get(inbound[0].codecId).mimeType, "video/vp8");
+
+		//Sent rtp streams reference the negotiated codec
+		const senderReport = sender.getStatsReport();
+		const outbound = Array.from(senderReport.values()).filter(stat => stat.type === "outbound-rtp");
+		test.same(outbound.map(stat => stat.kind).sort(), ["audio", "video"]);
+		for (const stat of outbound)
+			test.same(senderReport.get(stat.codecId).mimeType, stat.kind === "audio" ? "audio/opus" : "video/vp8");
+		test.equal(outbound.find(stat => stat.kind === "video").ssrc, inbound[0].ssrc);
+
+		stop();
+	});
+
+	await suite.test("audio jitter and transport totals", async function(test){
+		const { sender, receiver, stop } = await connect("127.0.0.1", "127.0.0.1");
+
+		//Wait for the receiver report of the audio track
+		const track = sender.getOutgoingStreams()[0].getAudioTracks()[0];
+		let report;
+		while (!(report = sender.getStatsReport()).has("RI_audio_" + track.getSSRCs().media))
+			await new Promise(resolve => setTimeout(resolve, 100));
+
+		//Jitter in seconds using the opus clock rate
+		const remote = report.get("RI_audio_" + track.getSSRCs().media);
+		test.equal(report.get(remote.localId).type, "outbound-rtp");
+		test.type(remote.jitter, "number");
+		test.ok(Math.abs(remote.jitter - track.getStats().media.reported.jitter / 48000) < 0.01);
+
+		//Same accounting of media and retransmissions on both directions
+		for (const [transport, type, packets, rtx] of [[sender, "outbound-rtp", "packetsSent", "retransmittedPacketsSent"], [receiver, "inbound-rtp", "packetsReceived", "retransmittedPacketsReceived"]])
+		{
+			const stats = Array.from(transport.getStatsReport().values());
+			const total = stats.filter(stat => stat.type === type).reduce((total, stat) => total + stat[packets] + stat[rtx], 0);
+			test.equal(stats.find(stat => stat.type === "transport")[packets], total);
+		}
+
+		stop();
+	});
+
+	await suite.test("unknown local candidate", async function(test){
+		const { receiver, stop } = await connect("127.0.0.1", ["127.0.0.1", "127.0.0.2"]);
+
+		const report = receiver.getStatsReport();
+		//All local candidates are reported
+		test.equal(Array.from(report.values()).filter(stat => stat.type === "local-candidate").length, 2);
+		//But the one in use is not known
+		const pair = report.get(report.get("T").selectedCandidatePairId);
+		test.equal(pair.localCandidateId, undefined);
+		test.equal(report.get(pair.remoteCandidateId).type, "remote-candidate");
+
+		stop();
+	});
+});
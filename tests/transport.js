@@ -0,0 +1,411 @@
+const tap = require("tap");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { PassThrough, Writable } = require("stream");
+const { SDPInfo } = require("semantic-sdp");
+const { MediaServer, parseBWEStats } = require("../dist/index.js");
+
+MediaServer.enableLog(false);
+MediaServer.enableDebug(false);
+MediaServer.enableUltraDebug(false);
+
+const capabilities = {
+	audio : {
+		codecs		: ["opus"],
+	},
+	video : {
+		codecs		: ["vp8"],
+	}
+};
+
+//320x240 vp8 key frame
+const vp8Intra = Buffer.concat([Buffer.from([0x10, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0x40, 0x01, 0xf0, 0x00]), Buffer.alloc(2000, 0x55)]);
+
+/**
+ * Connect a sender and a receiver transport on two local endpoints and send vp8 frames between them
+ */
+async function connect(negotiated = capabilities, munge = (offer) => offer)
+{
+	const senderEndpoint = MediaServer.createEndpoint("127.0.0.1");
+	const receiverEndpoint = MediaServer.createEndpoint("127.0.0.1");
+	const sender = senderEndpoint.createSDPManager("unified-plan", negotiated);
+	const receiver = receiverEndpoint.createSDPManager("unified-plan", negotiated);
+	let senderTransport, receiverTransport;
+	sender.on("transport", (created) => senderTransport = created);
+	receiver.on("transport", (created) => receiverTransport = created);
+	sender.on("renegotiationneeded", () => {
+		receiver.processRemoteDescription(munge(sender.createLocalDescription()));
+		sender.processRemoteDescription(receiver.createLocalDescription());
+	});
+
+	receiver.processRemoteDescription(munge(sender.createLocalDescription()));
+	sender.processRemoteDescription(receiver.createLocalDescription());
+
+	//Both are ice-lite, so candidates must be set on each side
+	for (const candidate of receiverEndpoint.getLocalCandidates())
+		senderTransport.addRemoteCandidate(candidate);
+	for (const candidate of senderEndpoint.getLocalCandidates())
+		receiverTransport.addRemoteCandidate(candidate);
+
+	//Send frames
+	const injector = MediaServer.createFrameInjectionTrack("video", "vp8");
+	const outgoing = senderTransport.createOutgoingStream().createTrack("video");
+	outgoing.attachTo(injector);
+	let timestamp = 0;
+	const timer = setInterval(() => injector.pushFrame(vp8Intra, { timestamp : timestamp += 3000 }), 33);
+
+	//Wait until media is received
+	const incoming = await new Promise(resolve => receiverTransport.once("incomingtrack", resolve));
+
+	return {
+		sender		: senderTransport,
+		receiver	: receiverTransport,
+		outgoing,
+		incoming,
+		stop		: () => {
+			clearInterval(timer);
+			injector.stop();
+			sender.stop();
+			receiver.stop();
+			senderEndpoint.stop();
+			receiverEndpoint.stop();
+		}
+	};
+}
+
+/**
+ * Read udp payloads and capture times in ms of a pcap file
+ */
+function readPCAP(filename)
+{
+	const pcap = fs.readFileSync(filename);
+	const packets = [];
+	//Skip global header
+	for (let pos = 24; pos + 16 <= pcap.length;)
+	{
+		//Get record header
+		const time = pcap.readUInt32BE(pos) * 1000 + Math.floor(pcap.readUInt32BE(pos + 4) / 1000);
+		const length = pcap.readUInt32BE(pos + 8);
+		//Skip ethernet, ipv4 and udp headers
+		packets.push({ time, payload : pcap.subarray(pos + 16 + 42, pos + 16 + length) });
+		pos += 16 + length;
+	}
+	return packets;
+}
+
+/**
+ * Check if it is a rtcp packet
+ */
+function isRTCP(payload)
+{
+	return payload[1] >= 192 && payload[1] <= 223;
+}
+
+/**
+ * Get all the ssrcs of the packets in a rtcp compound packet
+ */
+function getRTCPSSRCs(payload)
+{
+	const ssrcs = [];
+	for (let pos = 0; pos + 8 <= payload.length; pos += (payload.readUInt16BE(pos + 2) + 1) * 4)
+	{
+		//Sender
+		ssrcs.push(payload.readUInt32BE(pos + 4));
+		//Report blocks or feedback media
+		if (payload[pos + 1] === 200)
+			for (let i = 0; i < (payload[pos] & 0x1f); ++i)
+				ssrcs.push(payload.readUInt32BE(pos + 28 + i * 24));
+		else if (payload[pos + 1] === 201)
+			for (let i = 0; i < (payload[pos] & 0x1f); ++i)
+				ssrcs.push(payload.readUInt32BE(pos + 8 + i * 24));
+		else if (payload[pos + 1] === 205 || payload[pos + 1] === 206)
+			ssrcs.push(payload.readUInt32BE(pos + 8));
+	}
+	return ssrcs;
+}
+
+/**
+ * Wait some time
+ */
+function sleep(ms)
+{
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+tap.test("Transport", async function(suite){
+
+	const endpoint = MediaServer.createEndpoint("127.0.0.1");
+
+	suite.teardown(() => {
+		endpoint.stop();
+		MediaServer.terminate();
+	});
+
+	/**
+	 * Create a transport negotiated against another local sdp manager
+	 */
+	function createTransport()
+	{
+		const local = endpoint.createSDPManager("unified-plan", capabilities);
+		const remote = endpoint.createSDPManager("unified-plan", capabilities);
+		let transport;
+		local.on("transport", (created) => transport = created);
+		local.processRemoteDescription(remote.createLocalDescription());
+		remote.processRemoteDescription(local.createLocalDescription());
+		return { transport, stop : () => { local.stop(); remote.stop(); } };
+	}
+
+	await suite.test("parseBWEStats", async function(test){
+		const stats = parseBWEStats("1000|12|3|1200|900|950|20|25|5|15|2|800000|700000|750000|40|30|35|1|0|1|2");
+		test.same(stats, {
+			feedbackTime		: 1000,
+			transportSeqNum		: 12,
+			feedbackNum		: 3,
+			size			: 1200,
+			sentTime		: 900,
+			receivedTime		: 950,
+			deltaSent		: 20,
+			deltaReceived		: 25,
+			delta			: 5,
+			accumulatedDelta	: 15,
+			accumulatedDeltaMin	: 2,
+			estimatedBitrate	: 800000,
+			targetBitrate		: 700000,
+			availableBitrate	: 750000,
+			rtt			: 40,
+			rttMin			: 30,
+			rttEstimated		: 35,
+			mark			: true,
+			rtx			: false,
+			probing			: true,
+			state			: 2,
+		});
+
+		//Negative deltas of packets received out of order
+		const reordered = parseBWEStats("1000|13|3|1200|920|940|20|-10|-30|-15|-15|800000|700000|750000|40|30|35|0|1|0|1");
+		test.same([reordered.deltaReceived, reordered.delta, reordered.accumulatedDelta], [-10, -30, -15]);
+		test.same([reordered.mark, reordered.rtx, reordered.probing], [false, true, false]);
+	});
+
+	await suite.test("dump to stream", async function(test){
+		const { transport, stop } = createTransport();
+		const stream = new PassThrough();
+		const chunks = [];
+		stream.on("data", (chunk) => chunks.push(chunk));
+		const ended = new Promise(resolve => stream.on("end", resolve));
+
+		//Bwe stats are emitted as events instead
+		transport.dump(stream);
+		//Can't dump twice
+		test.throws(() => transport.dump(new PassThrough()), { message : "Already dumping" });
+		transport.stopDump();
+		await ended;
+
+		//Only the pcap header, as nothing has been sent
+		const pcap = Buffer.concat(chunks);
+		test.equal(pcap.length, 24);
+		test.equal(pcap.readUInt32BE(0), 0xa1b2c3d4);
+
+		//Rotation needs a file
+		test.throws(() => transport.dump(new PassThrough(), { window : 1000 }), { message : "Rotation and window are only supported when dumping to a file" });
+		test.throws(() => transport.snapshotDump(), { message : "Not dumping with a window" });
+
+		stop();
+	});
+
+	await suite.test("dump to slow stream", async function(test){
+		const { receiver, stop } = await connect();
+		//Stream which is only drained once in a while
+		const chunks = [];
+		const callbacks = [];
+		const stream = new Writable({
+			highWaterMark	: 4096,
+			write		: (chunk, encoding, callback) => {
+				chunks.push(chunk);
+				callbacks.push(callback);
+			}
+		});
+		const drainer = setInterval(() => callbacks.splice(0).forEach(callback => callback()), 200);
+		const finished = new Promise(resolve => stream.on("finish", resolve));
+
+		receiver.dump(stream, { bwe : false, incoming : true, outgoing : true, rtcp : true });
+		await sleep(1000);
+		receiver.stopDump();
+		await finished;
+		clearInterval(drainer);
+
+		//Packets have been dropped instead of queued
+		test.ok(receiver.getDroppedDumpPackets() > 0);
+
+		//But whole, so it is still a valid pcap
+		const pcap = Buffer.concat(chunks);
+		test.equal(pcap.readUInt32BE(0), 0xa1b2c3d4);
+		let pos = 24;
+		let count = 0;
+		while (pos + 16 <= pcap.length)
+		{
+			//Ethernet, ipv4 and udp
+			test.equal(pcap.readUInt16BE(pos + 16 + 12), 0x0800);
+			pos += 16 + pcap.readUInt32BE(pos + 8);
+			count++;
+		}
+		test.equal(pos, pcap.length);
+		test.ok(count > 0);
+
+		stop();
+	});
+
+	await suite.test("bwe stats", async function(test){
+		const transportWideCC = "http://www.ietf.org/id/draft-holmer-rmcat-transport-wide-cc-extensions-01";
+		//Negotiate transport wide feedback, header extensions are not offered so add them to the offer
+		const { sender, stop } = await connect({
+			...capabilities,
+			video : {
+				codecs		: ["vp8"],
+				rtcpfbs		: [{ "id" : "transport-cc" }],
+				extensions	: [transportWideCC]
+			}
+		}, (offer) => {
+			const info = SDPInfo.parse(offer);
+			for (const media of info.getMediasByType("video"))
+				media.addExtension(5, transportWideCC);
+			return info.toString();
+		});
+		//And send them as answered
+		sender.setLocalProperties(sender.remoteProperties);
+
+		//Emitted as events when dumping to a stream
+		const stats = [];
+		sender.on("bwestats", (stat) => stats.push(stat));
+		const stream = new PassThrough();
+		stream.resume();
+		sender.dump(stream);
+		await sleep(1500);
+		sender.stopDump();
+
+		test.ok(stats.length > 0);
+		for (const stat of stats)
+		{
+			test.ok(stat.size > 0);
+			test.ok(stat.transportSeqNum >= 0);
+			test.ok(stat.estimatedBitrate >= 0);
+		}
+		//Not emitted after stopping
+		const count = stats.length;
+		await sleep(500);
+		test.equal(stats.length, count);
+
+		stop();
+	});
+
+	await suite.test("dump rotation by size", async function(test){
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dump-"));
+		test.teardown(() => fs.rmSync(dir, { recursive : true, force : true }));
+		const { receiver, stop } = await connect();
+
+		receiver.dump(path.join(dir, "dump.pcap"), { fileSize : 10000, maxFiles : 3, bwe : false, incoming : true, outgoing : true, rtcp : true });
+		await sleep(1500);
+		receiver.stopDump();
+
+		//Only the last ones are kept
+		const files = fs.readdirSync(dir).sort((a, b) => parseInt(a.slice(5)) - parseInt(b.slice(5)));
+		test.equal(files.length, 3);
+		const first = parseInt(files[0].slice(5));
+		test.ok(first > 0);
+		test.same(files, [0, 1, 2].map(i => "dump-" + (first + i) + ".pcap"));
+		for (const file of files)
+		{
+			const filename = path.join(dir, file);
+			test.ok(fs.statSync(filename).size <= 10000);
+			test.ok(readPCAP(filename).length > 0);
+		}
+
+		stop();
+	});
+
+	await suite.test("dump rotation by time", async function(test){
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dump-"));
+		test.teardown(() => fs.rmSync(dir, { recursive : true, force : true }));
+		const { receiver, stop } = await connect();
+
+		receiver.dump(path.join(dir, "dump.pcap"), { fileDuration : 300, bwe : false, incoming : true, outgoing : true, rtcp : true });
+		await sleep(1000);
+		receiver.stopDump();
+
+		const files = fs.readdirSync(dir);
+		test.ok(files.length >= 3);
+		for (const file of files)
+		{
+			const packets = readPCAP(path.join(dir, file));
+			test.ok(packets.length > 0);
+			test.ok(packets[packets.length - 1].time - packets[0].time < 300);
+		}
+
+		stop();
+	});
+
+	await suite.test("dump filtered by track", async function(test){
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dump-"));
+		test.teardown(() => fs.rmSync(dir, { recursive : true, force : true }));
+		const { receiver, incoming, stop } = await connect();
+		const ssrcs = Object.values(incoming.getSSRCs()).flatMap(({ media, rtx, fec }) => [media, rtx, fec]).filter(Boolean);
+
+		const filtered = path.join(dir, "filtered.pcap");
+		receiver.dump(filtered, { filter : [incoming], bwe : false, incoming : true, outgoing : true, rtcp : true });
+		//Rtcp is sent each second
+		await sleep(2500);
+		receiver.stopDump();
+
+		const packets = readPCAP(filtered);
+		const rtp = packets.filter(({ payload }) => !isRTCP(payload));
+		const rtcp = packets.filter(({ payload }) => isRTCP(payload));
+		test.ok(rtp.length > 0);
+		test.ok(rtcp.length > 0);
+		//Only rtp of the track
+		for (const { payload } of rtp)
+			test.ok(ssrcs.includes(payload.readUInt32BE(8)));
+		//And rtcp referencing it on any of the packets of the compound
+		for (const { payload } of rtcp)
+			test.ok(getRTCPSSRCs(payload).some(ssrc => ssrcs.includes(ssrc)));
+		//Including the ones sent by us about it
+		test.ok(rtcp.some(({ payload }) => !ssrcs.includes(payload.readUInt32BE(4))));
+
+		//Nothing for unknown ssrcs, file is created on first packet
+		const empty = path.join(dir, "empty.pcap");
+		receiver.dump(empty, { filter : [1234], bwe : false, incoming : true, outgoing : true, rtcp : true });
+		await sleep(300);
+		receiver.stopDump();
+		test.notOk(fs.existsSync(empty));
+
+		stop();
+	});
+
+	await suite.test("dump snapshot", async function(test){
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dump-"));
+		test.teardown(() => fs.rmSync(dir, { recursive : true, force : true }));
+		const { receiver, stop } = await connect();
+
+		receiver.dump(path.join(dir, "dump.pcap"), { window : 500, bwe : false, incoming : true, outgoing : true, rtcp : true });
+		await sleep(1000);
+		//Nothing written until requested
+		test.same(fs.readdirSync(dir), []);
+
+		//Last packets in the window
+		const first = receiver.snapshotDump();
+		test.equal(first, path.join(dir, "dump-0.pcap"));
+		const packets = readPCAP(first);
+		test.ok(packets.length > 0);
+		test.ok(packets[packets.length - 1].time - packets[0].time <= 500);
+
+		//They are kept for next one
+		const second = receiver.snapshotDump();
+		test.equal(second, path.join(dir, "dump-1.pcap"));
+		test.ok(readPCAP(second).length >= packets.length);
+
+		receiver.stopDump();
+		test.throws(() => receiver.snapshotDump(), { message : "Not dumping with a window" });
+
+		stop();
+	});
+});